@@ -1,84 +1,473 @@
+import {Bitset} from "./index";
 import * as lists from "./_lists";
 
 
 
 
-export class LazyBitset<K, V> {
+// #region HELPERS
+// ===============
+
+/** Keep only the last entry of each key in sorted lists. */
+function uniqueLast$<K, V>(x: lists.Lists<K, V>, fc: (a: K, b: K) => number): lists.Lists<K, V> {
+  var [ks, vs] = x, n = 0;
+  for (var i=0, I=ks.length; i<I; ++i) {
+    if (n>0 && fc(ks[n-1], ks[i])===0) --n;
+    ks[n] = ks[i];
+    vs[n] = vs[i];
+    ++n;
+  }
+  ks.length = n;
+  vs.length = n;
+  return x;
+}
+// #endregion
+
+
+
+
+// #region LAZY BITSET
+// ===================
+
+/** A bitset where keys (of any ordered type) have associated values, and are lazily updated. */
+export class LazyBitset<K, V> implements Bitset<K, V> {
+  private _size:   number = 0;
   private _keys:   K[] = [];
   private _values: V[] = [];
-  private _unprocessed: number = 0;
-
-  // Access get operations.
-  public get(key: K, _value: V): V {
-    let i = this._keys.indexOf(key);
-    return i>=0? this._values[i] : _value;
-  }
-
-  // Access set operations.
-  public set(key: K, value: V): void {
-    let i = this._keys.indexOf(key);
-    if (i>=0) {
-      this._values[i] = value;
-    } else {
-      this._keys  .push(key);
-      this._values.push(value);
+  private _removed: K[] = [];
+  private _fc: (a: K, b: K) => number;
+
+
+  /**
+   * Create a new bitset.
+   * @param fc compare function for keys (a, b)
+   */
+  constructor(fc: (a: K, b: K) => number=lists.compare) {
+    this._fc = fc;
+  }
+
+
+  // #region ABOUT
+  // -------------
+
+  /**
+   * Get the number of elements in bitset.
+   * @returns |this|
+   */
+  size(): number {
+    return this._size;
+  }
+
+
+  /**
+   * Check if bitset is empty.
+   * @returns |this| == 0
+   */
+  isEmpty(): boolean {
+    return this._size == 0;
+  }
+
+
+  /**
+   * Get the keys of bitset.
+   * @returns [k₀, k₁, k₂, ...] | [kᵢ, vᵢ] ∈ this
+   */
+  keys(): K[] {
+    return this._keys.slice(0, this._size);
+  }
+
+
+  /**
+   * List the keys of bitset.
+   * @yields k₀, k₁, k₂, ... | [kᵢ, vᵢ] ∈ this
+   */
+  *ikeys(): IterableIterator<K> {
+    for (var i=0, I=this._size; i<I; ++i)
+      yield this._keys[i];
+  }
+
+
+  /**
+   * Get the values of bitset.
+   * @returns [v₀, v₁, v₂, ...] | [kᵢ, vᵢ] ∈ this
+   */
+  values(): V[] {
+    return this._values.slice(0, this._size);
+  }
+
+
+  /**
+   * List the values of bitset.
+   * @yields v₀, v₁, v₂, ... | [kᵢ, vᵢ] ∈ this
+   */
+  *ivalues(): IterableIterator<V> {
+    for (var i=0, I=this._size; i<I; ++i)
+      yield this._values[i];
+  }
+
+
+  /**
+   * Get the entries of bitset.
+   * @returns [[k₀, v₀], [k₁, v₁], [k₂, v₂], ...] | [kᵢ, vᵢ] ∈ this
+   */
+  entries(): [K, V][] {
+    var a: [K, V][] = [];
+    for (var i=0, I=this._size; i<I; ++i)
+      a.push([this._keys[i], this._values[i]]);
+    return a;
+  }
+
+
+  /**
+   * List the entries of bitset.
+   * @yields [k₀, v₀], [k₁, v₁], [k₂, v₂], ... | [kᵢ, vᵢ] ∈ this
+   */
+  *ientries(): IterableIterator<[K, V]> {
+    for (var i=0, I=this._size; i<I; ++i)
+      yield [this._keys[i], this._values[i]];
+  }
+  // #endregion
+
+
+  // #region FOR EACH
+  // ----------------
+
+  /**
+   * Call a function for each key in bitset.
+   * @param fn process function (k)
+   */
+  forEachKey(fn: (k: K) => void): void {
+    for (var i=0, I=this._size; i<I; ++i)
+      fn(this._keys[i]);
+  }
+
+
+  /**
+   * Call a function for each key and value in bitset.
+   * @param fn process function (k, v)
+   */
+  forEach(fn: (k: K, v: V) => void): void {
+    for (var i=0, I=this._size; i<I; ++i)
+      fn(this._keys[i], this._values[i]);
+  }
+  // #endregion
+
+
+  // #region SEARCH KEY
+  // ------------------
+
+  /**
+   * Check if bitset has key.
+   * @param k key
+   * @returns kᵢ = k for some i; false otherwise; [kᵢ, vᵢ] ∈ this
+   */
+  has(k: K): boolean {
+    return this.indexOf(k) != -1;
+  }
+
+
+  /**
+   * Get the index of key in bitset.
+   * @param k key
+   * @returns i | kᵢ = k; i = -1 otherwise; [kᵢ, vᵢ] ∈ this
+   */
+  indexOf(k: K): number {
+    // Binary search in the committed (sorted) keys.
+    var ks = this._keys, lo = 0, hi = this._size-1;
+    while (lo<=hi) {
+      var m = (lo + hi) >>> 1, c = this._fc(ks[m], k);
+      if (c===0) return m;
+      if (c<0) lo = m+1;
+      else hi = m-1;
     }
+    return -1;
+  }
+  // #endregion
+
+
+  // #region ACCESS
+  // --------------
+
+  /**
+   * Clear the bitset.
+   */
+  clear(): void {
+    this._keys   .length = 0;
+    this._values .length = 0;
+    this._removed.length = 0;
+    this._size = 0;
+  }
+
+
+  /**
+   * Get the value of key in bitset.
+   * @param k key
+   * @param _v default value
+   * @returns vᵢ | kᵢ = k; _v otherwise; [kᵢ, vᵢ] ∈ this
+   */
+  get(k: K, _v: V): V {
+    var i = this.indexOf(k);
+    return i>=0? this._values[i] : _v;
+  }
+
+
+  /**
+   * Set the value of key in bitset.
+   * @param k key
+   * @param v value
+   */
+  set(k: K, v: V): void {
+    var i = this.indexOf(k);
+    if (i<0) return;
+    this._values[i] = v;
+  }
+
+
+  /**
+   * Add a key and associated value to bitset.
+   * @param k key
+   * @param v value
+   */
+  add(k: K, v: V): void {
+    if (this._removed.length>0) this._updateRemove();
+    this._keys  .push(k);
+    this._values.push(v);
   }
 
-  // Update operations.
+
+  /**
+   * Remove a key from bitset.
+   * @param k key
+   */
+  remove(k: K): void {
+    if (this._keys.length>this._size) this._updateAdd();
+    this._removed.push(k);
+  }
+
+
+  /**
+   * Apply the pending removals to bitset.
+   */
   private _updateRemove(): void {
-    let n = this.size() + this._unprocessed;
-    let rkeys   = this._keys.slice(n);
-    let rvalues = this._values.slice(n);
-    this._keys  .length = n;
-    this._values.length = n;
-    xlists.sort$([rkeys, rvalues]);  // TODO
-    n = xsortedLists.difference$([this._keys, this._values], [rkeys, rvalues]);
-    this._keys  .length = n;
-    this._values.length = n;
-    this._unprocessed = 0
+    if (this._removed.length===0) return;
+    var rkeys = this._removed.sort(this._fc);
+    lists.difference$([this._keys, this._values], [rkeys, []], this._fc);
+    this._removed.length = 0;
+    this._size = this._keys.length;
   }
 
+
+  /**
+   * Apply the pending additions to bitset.
+   */
   private _updateAdd(): void {
-    let n = this.size() + this._unprocessed;
-    let akeys   = this._keys.slice(n);
-    let avalues = this._values.slice(n);
-    this._keys  .length = n;
-    this._values.length = n;
-    xlists.sort$([akeys, avalues]);
-    n = xsortedLists.union$([this._keys, this._values], [akeys, avalues]);
-    this._keys  .length = n;
-    this._values.length = n;
-    this._unprocessed = 0
+    var N = this._size;
+    if (this._keys.length===N) return;
+    var a: lists.Lists<K, V> = [this._keys.slice(N), this._values.slice(N)];
+    this._keys  .length = N;
+    this._values.length = N;
+    // Sort pending entries by key (stable, so the last add of a key wins).
+    uniqueLast$(lists.sort$(a, this._fc), this._fc);
+    lists.union$([this._keys, this._values], a, this._fc);
+    this._size = this._keys.length;
   }
 
-  public clear(): void {
-    this._keys  .length = 0;
-    this._values.length = 0;
-    this._unprocessed = 0;
+
+  /**
+   * Apply the changes to bitset.
+   */
+  update(): void {
+    this._updateRemove();
+    this._updateAdd();
   }
+  // #endregion
 
-  public update(): void {
-    if (this._unprocessed===0) return;
-    if (this._unprocessed < 0) this._updateRemove();
-    else                       this._updateAdd();
+
+  /**
+   * Convert bitset to string.
+   * @returns entries as string
+   */
+  toString(): string {
+    return this.entries().toString();
   }
+}
+// #endregion
+
+
+
+
+// #region MAP BITSET
+// ==================
+
+/** A bitset where keys have associated values, backed by a Map (changes apply immediately). */
+export class MapBitset<K, V> implements Bitset<K, V> {
+  private _map: Map<K, V> = new Map();
+
+
+  // #region ABOUT
+  // -------------
 
-  public remove(key: K): void {
-    if (this._unprocessed>0) this._updateAdd();
-    this._keys  .push(key);
-    this._values.push(undefined);
-    --this._unprocessed;
+  /**
+   * Get the number of elements in bitset.
+   * @returns |this|
+   */
+  size(): number {
+    return this._map.size;
   }
 
-  public add(key: K, value: V): void {
-    if (this._unprocessed<0) this._updateRemove();
-    this._keys  .push(key);
-    this._values.push(value);
-    ++this._unprocessed;
+
+  /**
+   * Check if bitset is empty.
+   * @returns |this| == 0
+   */
+  isEmpty(): boolean {
+    return this._map.size == 0;
   }
 
-  public toString(): string {
-    return this.entries().toString();
+
+  /**
+   * Get the keys of bitset.
+   * @returns [k₀, k₁, k₂, ...] | [kᵢ, vᵢ] ∈ this
+   */
+  keys(): K[] {
+    return [...this._map.keys()];
+  }
+
+
+  /**
+   * List the keys of bitset.
+   * @yields k₀, k₁, k₂, ... | [kᵢ, vᵢ] ∈ this
+   */
+  *ikeys(): IterableIterator<K> {
+    yield* this._map.keys();
+  }
+
+
+  /**
+   * Get the values of bitset.
+   * @returns [v₀, v₁, v₂, ...] | [kᵢ, vᵢ] ∈ this
+   */
+  values(): V[] {
+    return [...this._map.values()];
+  }
+
+
+  /**
+   * List the values of bitset.
+   * @yields v₀, v₁, v₂, ... | [kᵢ, vᵢ] ∈ this
+   */
+  *ivalues(): IterableIterator<V> {
+    yield* this._map.values();
+  }
+
+
+  /**
+   * Get the entries of bitset.
+   * @returns [[k₀, v₀], [k₁, v₁], [k₂, v₂], ...] | [kᵢ, vᵢ] ∈ this
+   */
+  entries(): [K, V][] {
+    return [...this._map.entries()];
   }
+
+
+  /**
+   * List the entries of bitset.
+   * @yields [k₀, v₀], [k₁, v₁], [k₂, v₂], ... | [kᵢ, vᵢ] ∈ this
+   */
+  *ientries(): IterableIterator<[K, V]> {
+    yield* this._map.entries();
+  }
+  // #endregion
+
+
+  // #region FOR EACH
+  // ----------------
+
+  /**
+   * Call a function for each key in bitset.
+   * @param fn process function (k)
+   */
+  forEachKey(fn: (k: K) => void): void {
+    for (var k of this._map.keys())
+      fn(k);
+  }
+
+
+  /**
+   * Call a function for each key and value in bitset.
+   * @param fn process function (k, v)
+   */
+  forEach(fn: (k: K, v: V) => void): void {
+    for (var [k, v] of this._map)
+      fn(k, v);
+  }
+  // #endregion
+
+
+  // #region ACCESS
+  // --------------
+
+  /**
+   * Check if bitset has key.
+   * @param k key
+   * @returns kᵢ = k for some i; false otherwise; [kᵢ, vᵢ] ∈ this
+   */
+  has(k: K): boolean {
+    return this._map.has(k);
+  }
+
+
+  /**
+   * Clear the bitset.
+   */
+  clear(): void {
+    this._map.clear();
+  }
+
+
+  /**
+   * Get the value of key in bitset.
+   * @param k key
+   * @param _v default value
+   * @returns vᵢ | kᵢ = k; _v otherwise; [kᵢ, vᵢ] ∈ this
+   */
+  get(k: K, _v: V): V {
+    return this._map.has(k)? this._map.get(k)! : _v;
+  }
+
+
+  /**
+   * Set the value of key in bitset.
+   * @param k key
+   * @param v value
+   */
+  set(k: K, v: V): void {
+    if (this._map.has(k)) this._map.set(k, v);
+  }
+
+
+  /**
+   * Add a key and associated value to bitset.
+   * @param k key
+   * @param v value
+   */
+  add(k: K, v: V): void {
+    this._map.set(k, v);
+  }
+
+
+  /**
+   * Remove a key from bitset.
+   * @param k key
+   */
+  remove(k: K): void {
+    this._map.delete(k);
+  }
+
+
+  /**
+   * Apply the changes to bitset (they are already applied).
+   */
+  update(): void {}
+  // #endregion
 }
+// #endregion
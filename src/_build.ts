@@ -0,0 +1,43 @@
+import {DiGraph, Graph} from "./index";
+
+
+
+
+/** Map vertex ids in file to vertex ids in graph (the same if they are all distinct integers, like "n3" or "3"). */
+export function vertexIds(ids: string[]): Map<string, number> {
+  var a = new Map<string, number>(), used = new Set<number>(), numeric = true;
+  for (var id of ids) {
+    if (a.has(id)) continue;
+    var m = /^n?(\d+)$/.exec(id), v = m? Number(m[1]) : -1;
+    if (v<0 || used.has(v)) { numeric = false; break; }
+    a.set(id, v);
+    used.add(v);
+  }
+  if (numeric) return a;
+  a.clear();
+  for (var id of ids)
+    if (!a.has(id)) a.set(id, a.size);
+  return a;
+}
+
+
+/** Build a graph from vertices and edges (with attributes) read from a file (defaults are mapped from default attributes, with empty ids, if not given). */
+export function buildGraph<A extends object, V, E>(directed: boolean, vdefaults: A, edefaults: A, vs: [string, A][], es: [string, string, A][], fv: (a: A, id: string) => V, fe: (a: A, source: string, target: string) => E, _V?: V | null, _E?: E | null): DiGraph<V, E> | Graph<V, E> {
+  if (_V==null) _V = fv(Object.assign({}, vdefaults), "");
+  if (_E==null) _E = fe(Object.assign({}, edefaults), "", "");
+  var x = directed? new DiGraph<V, E>(_V, _E) : new Graph<V, E>(_V, _E);
+  var fids = vs.map(([id]) => id);
+  for (var [s, t] of es)
+    fids.push(s, t);
+  var ids = vertexIds(fids);
+  for (var [id, a] of vs)
+    x.addVertex(ids.get(id)!, fv(Object.assign({}, vdefaults, a), id));
+  for (var [s, t, a] of es) {
+    var u = ids.get(s)!, v = ids.get(t)!;
+    if (!x.hasVertex(u)) x.addVertex(u, fv(Object.assign({}, vdefaults), s));
+    if (!x.hasVertex(v)) x.addVertex(v, fv(Object.assign({}, vdefaults), t));
+    x.addEdge(u, v, fe(Object.assign({}, edefaults, a), s, t));
+  }
+  x.update();
+  return x;
+}
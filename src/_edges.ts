@@ -0,0 +1,12 @@
+import {ReadonlyGraph} from "./index";
+
+
+
+
+/** Call a function for each edge of a graph, once per undirected edge. */
+export function forEachEdgeOnce<V, E>(x: ReadonlyGraph<V, E>, fn: (u: number, v: number, w: E) => void): void {
+  var directed = x.isDirected();
+  x.forEachVertex(u => x.forEachEdge(u, (v, w) => {
+    if (directed || u<=v) fn(u, v, w);
+  }));
+}
@@ -0,0 +1,116 @@
+/** A binary min-heap of keys (numbers) ordered by their priorities. */
+export class MinHeap {
+  private _keys: number[] = [];
+  private _priorities: number[] = [];
+  private _fc: ((a: number, b: number) => number) | null;
+
+
+  /**
+   * Create a new heap.
+   * @param fc compare function for keys of equal priority (a, b)
+   */
+  constructor(fc: ((a: number, b: number) => number) | null=null) {
+    this._fc = fc;
+  }
+
+
+  /** Check if entry (k, p) comes before entry (l, q). */
+  private _before(k: number, p: number, l: number, q: number): boolean {
+    if (p!==q || !this._fc) return p<q;
+    return this._fc(k, l)<0;
+  }
+
+
+  /**
+   * Get the number of entries in heap.
+   * @returns |this|
+   */
+  size(): number {
+    return this._keys.length;
+  }
+
+
+  /**
+   * Check if heap is empty.
+   * @returns |this| == 0
+   */
+  isEmpty(): boolean {
+    return this._keys.length==0;
+  }
+
+
+  /**
+   * Get the key with the lowest priority.
+   * @returns k | p(k) ≤ p(kᵢ) for all kᵢ ∈ this
+   */
+  peek(): number {
+    return this._keys[0];
+  }
+
+
+  /**
+   * Get the lowest priority in heap.
+   * @returns p(k) | k = peek()
+   */
+  peekPriority(): number {
+    return this._priorities[0];
+  }
+
+
+  /**
+   * Add a key with a priority to heap.
+   * @param k key
+   * @param p priority
+   */
+  push(k: number, p: number): void {
+    var ks = this._keys, ps = this._priorities;
+    var i = ks.length;
+    ks.push(k);
+    ps.push(p);
+    while (i>0) {
+      var j = (i-1) >> 1;
+      if (!this._before(k, p, ks[j], ps[j])) break;
+      ks[i] = ks[j];
+      ps[i] = ps[j];
+      i = j;
+    }
+    ks[i] = k;
+    ps[i] = p;
+  }
+
+
+  /**
+   * Remove the key with the lowest priority from heap.
+   * @returns k | p(k) ≤ p(kᵢ) for all kᵢ ∈ this
+   */
+  pop(): number {
+    var ks = this._keys, ps = this._priorities;
+    var top = ks[0], N = ks.length-1;
+    var k = ks[N], p = ps[N];
+    ks.length = N;
+    ps.length = N;
+    if (N==0) return top;
+    var i = 0;
+    while (true) {
+      var l = 2*i+1, r = l+1, j = l;
+      if (l>=N) break;
+      if (r<N && this._before(ks[r], ps[r], ks[l], ps[l])) j = r;
+      if (!this._before(ks[j], ps[j], k, p)) break;
+      ks[i] = ks[j];
+      ps[i] = ps[j];
+      i = j;
+    }
+    ks[i] = k;
+    ps[i] = p;
+    return top;
+  }
+
+
+  /**
+   * Clear the heap.
+   */
+  clear(): void {
+    this._keys.length = 0;
+    this._priorities.length = 0;
+  }
+}
@@ -8,6 +8,12 @@ export type Lists<K, V> = [K[], V[]];
 
 
 
+// Compare two keys (a<b: -ve, a=b: 0, a>b: +ve).
+export function compare<K>(a: K, b: K): number {
+  return a<b? -1 : (a>b? 1 : 0);
+}
+
+
 // Clear the lists.
 export function clear$<K, V>(x: Lists<K, V>): Lists<K, V> {
   x[0].length = 0;
@@ -16,70 +22,100 @@ export function clear$<K, V>(x: Lists<K, V>): Lists<K, V> {
 }
 
 
-export function sort$<K, V>(x: Lists<K, V>): Lists<K, V> {
-  x[0].sort();
-  x[1].sort();
+// Sort the lists by key, keeping each key with its value (stable).
+export function sort$<K, V>(x: Lists<K, V>, fc: (a: K, b: K) => number=compare): Lists<K, V> {
+  var [ks, vs] = x, N = ks.length;
+  var is: number[] = [];
+  for (var i=0; i<N; ++i)
+    is.push(i);
+  is.sort((i, j) => fc(ks[i], ks[j]) || i - j);
+  var rks = is.map(i => ks[i]);
+  var rvs = is.map(i => vs[i]);
+  for (var i=0; i<N; ++i) {
+    ks[i] = rks[i];
+    vs[i] = rvs[i];
+  }
   return x;
 }
 
 
-// Set difference of two lists.
-export function difference$<K, V>(x: Lists<K, V>, y: Lists<K, V>) {
-  let xb = 0, xe = x[0].length;
-  let yb = 0, ye = y[0].length;
-  if (xb==xe || yb==ye) return xe;
-  while (true) {
-    while (x[0][xb] < y[0][yb])
-    { if (++xb==xe) return xe; }
-    if (x[0][xb] > y[0][yb++]) break;
-    if (++yb==ye) return xe;
+// Add to `x`, entries in `y` (merging values of common keys).
+// Both `x` and `y` must be sorted, with unique keys.
+export function union$<K, V>(x: Lists<K, V>, y: Lists<K, V>, fc: (a: K, b: K) => number=compare, fm: (a: V, b: V) => V=(a, b) => b): Lists<K, V> {
+  var [xk, xv] = x, [yk, yv] = y;
+  var X = xk.length, Y = yk.length;
+  if (Y===0) return x;
+  // Merge from the back, so that entries of `x` are not overwritten.
+  var i = X-1, j = Y-1, k = X+Y-1;
+  while (j>=0) {
+    var c = i>=0? fc(xk[i], yk[j]) : -1;
+    if (c>0) { xk[k] = xk[i]; xv[k] = xv[i]; --i; }
+    else if (c<0) { xk[k] = yk[j]; xv[k] = yv[j]; --j; }
+    else { xk[k] = xk[i]; xv[k] = fm(xv[i], yv[j]); --i; --j; }
+    --k;
+  }
+  // Close the gap left by common keys.
+  var d = k-i;
+  if (d>0) for (var l=k+1; l<X+Y; ++l) {
+    xk[l-d] = xk[l];
+    xv[l-d] = xv[l];
   }
-  let it = xb++;
-  if (xb==xe) return it;
-  while (yb!=ye) {
-    while (x[0][xb] < y[0][yb]) {
-      x[0][it] = x[0][xb];
-      x[1][it] = x[1][xb];
-      it++;
-      if (++xb==xe) return it;
+  xk.length = X+Y-d;
+  xv.length = X+Y-d;
+  return x;
+}
+
+
+// Keep in `x`, only entries with keys in `y` (merging their values).
+// Both `x` and `y` must be sorted, with unique keys.
+export function intersection$<K, V>(x: Lists<K, V>, y: Lists<K, V>, fc: (a: K, b: K) => number=compare, fm: (a: V, b: V) => V=(a, b) => a): Lists<K, V> {
+  var [xk, xv] = x, [yk, yv] = y;
+  var X = xk.length, Y = yk.length;
+  var i = 0, j = 0, n = 0;
+  while (i<X && j<Y) {
+    var c = fc(xk[i], yk[j]);
+    if (c<0) ++i;
+    else if (c>0) ++j;
+    else {
+      xk[n] = xk[i];
+      xv[n] = fm(xv[i], yv[j]);
+      ++i; ++j; ++n;
     }
-    if (x[0][xb] > y[0][yb++])
-    { if (++xb==xe) return it; }
   }
-  return it;
+  xk.length = n;
+  xv.length = n;
+  return x;
 }
 
 
-/*
-// Remove from `x`, elements given in `y`.
-// Both `x` and `y` must be sorted.
-template <class IX, class IY, class FL, class FE>
-auto set_difference_inplace(IX xb, IX xe, IY yb, IY ye, FL fl, FE fe) {
-  if (xb==xe || yb==ye) return xe;
-  // Write-free loop when there is
-  // nothing to remove.
-  while (true) {
-    while (fl(*xb, *yb))
-    { if (++xb==xe) return xe; }
-    if (fe(*xb, *(yb++))) break;
-    if (yb==ye) return xe;
+// Remove from `x`, entries with keys in `y`.
+// Both `x` and `y` must be sorted, with unique keys.
+export function difference$<K, V>(x: Lists<K, V>, y: Lists<K, V>, fc: (a: K, b: K) => number=compare): Lists<K, V> {
+  var [xk, xv] = x, [yk] = y;
+  var X = xk.length, Y = yk.length;
+  var i = 0, j = 0, n = 0;
+  // Write-free loop when there is nothing to remove.
+  while (i<X && j<Y) {
+    var c = fc(xk[i], yk[j]);
+    if (c<0) ++i;
+    else if (c>0) ++j;
+    else break;
   }
-  // There was a match, remove it.
-  IX it = xb++;
-  // Only one element needs removal.
-  if (xb==xe) return it;
-  // With-write loop when there are
-  // more elements to remove.
-   while (yb!=ye) {
-    while (fl(*xb, *yb)) {
-      *(it++) = *xb;
-      if (++xb==xe) return it;
+  if (i===X || j===Y) return x;
+  // With-write loop when there are elements to remove.
+  n = i;
+  while (i<X) {
+    var c = j<Y? fc(xk[i], yk[j]) : -1;
+    if (c>0) { ++j; continue; }
+    if (c<0) {
+      xk[n] = xk[i];
+      xv[n] = xv[i];
+      ++n;
     }
-    if (fe(*xb, *(yb++)))
-    { if (++xb==xe) return it; }
+    else ++j;
+    ++i;
   }
-  // No more elements to remove.
-  // Shift the remaining elements.
-  return copy(xb, xe, it);
+  xk.length = n;
+  xv.length = n;
+  return x;
 }
-*/
@@ -0,0 +1,30 @@
+/**
+ * Create a seeded pseudo-random number generator (mulberry32).
+ * @param seed initial state
+ * @returns f() → [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  var s = seed >>> 0;
+  return () => {
+    s = (s + 0x6D2B79F5) >>> 0;
+    var t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+
+/**
+ * Shuffle an array in place (Fisher-Yates).
+ * @param x an array
+ * @param fr random number generator
+ * @returns x
+ */
+export function shuffle$<T>(x: T[], fr: () => number): T[] {
+  for (var i=x.length-1; i>0; --i) {
+    var j = Math.floor(fr() * (i+1));
+    var t = x[i]; x[i] = x[j]; x[j] = t;
+  }
+  return x;
+}
@@ -0,0 +1,81 @@
+/** A disjoint-set forest over keys [0, n), with path halving and union by size. */
+export class UnionFind {
+  private _parents: Int32Array;
+  private _sizes: Int32Array;
+  private _count: number;
+
+
+  /**
+   * Create a new union-find, with each key in its own set.
+   * @param n number of keys
+   */
+  constructor(n: number) {
+    this._parents = new Int32Array(n);
+    this._sizes = new Int32Array(n).fill(1);
+    this._count = n;
+    for (var i=0; i<n; ++i)
+      this._parents[i] = i;
+  }
+
+
+  /**
+   * Get the number of disjoint sets.
+   * @returns |sets|
+   */
+  count(): number {
+    return this._count;
+  }
+
+
+  /**
+   * Find the representative of the set containing a key.
+   * @param k key
+   * @returns r | find(r) = r, r ~ k
+   */
+  find(k: number): number {
+    var ps = this._parents;
+    while (ps[k]!==k) {
+      ps[k] = ps[ps[k]];
+      k = ps[k];
+    }
+    return k;
+  }
+
+
+  /**
+   * Merge the sets containing two keys.
+   * @param k a key
+   * @param l another key
+   * @returns true if merged, false if already in same set
+   */
+  union(k: number, l: number): boolean {
+    var r = this.find(k), s = this.find(l);
+    if (r===s) return false;
+    if (this._sizes[r]<this._sizes[s]) { var t = r; r = s; s = t; }
+    this._parents[s] = r;
+    this._sizes[r] += this._sizes[s];
+    --this._count;
+    return true;
+  }
+
+
+  /**
+   * Check if two keys are in the same set.
+   * @param k a key
+   * @param l another key
+   * @returns find(k) = find(l)?
+   */
+  connected(k: number, l: number): boolean {
+    return this.find(k)===this.find(l);
+  }
+
+
+  /**
+   * Get the size of the set containing a key.
+   * @param k key
+   * @returns |{l | l ~ k}|
+   */
+  setSize(k: number): number {
+    return this._sizes[this.find(k)];
+  }
+}
@@ -0,0 +1,136 @@
+/** An element of an XML document. */
+export interface XmlElement {
+  /** Tag name (with namespace prefix, if any). */
+  name: string;
+  /** Attributes, by name. */
+  attributes: {[name: string]: string};
+  /** Child elements. */
+  children: XmlElement[];
+  /** Text content (of this element alone, not its children). */
+  text: string;
+}
+
+
+
+
+/** Get the index after the next occurrence of a string, or throw. */
+function skipTo(text: string, s: string, i: number): number {
+  var j = text.indexOf(s, i);
+  if (j<0) throw new Error("Unterminated XML, expected: " + s);
+  return j + s.length;
+}
+
+
+/** Decode the character and entity references in XML text. */
+function decodeXml(s: string): string {
+  return s.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|lt|gt|amp|quot|apos);/g, (_, e: string) => {
+    switch (e) {
+      case "lt":   return "<";
+      case "gt":   return ">";
+      case "amp":  return "&";
+      case "quot": return "\"";
+      case "apos": return "'";
+    }
+    var c = e[1]==="x"? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+    return String.fromCodePoint(c);
+  });
+}
+
+
+/**
+ * Escape text for use in XML content or attributes.
+ * @param s text
+ * @returns s with &, <, >, ", ' as entity references
+ */
+export function escapeXml(s: string): string {
+  return s.replace(/[&<>"']/g, c => {
+    switch (c) {
+      case "&": return "&amp;";
+      case "<": return "&lt;";
+      case ">": return "&gt;";
+      case "\"": return "&quot;";
+      default:  return "&apos;";
+    }
+  });
+}
+
+
+/**
+ * Get the name of an element, without namespace prefix.
+ * @param e an element
+ * @returns local name
+ */
+export function localName(e: XmlElement): string {
+  var i = e.name.indexOf(":");
+  return i<0? e.name : e.name.slice(i+1);
+}
+
+
+/**
+ * Get the child elements with a name (without namespace prefix).
+ * @param e an element
+ * @param name local name
+ * @returns [c₀, c₁, ...] | localName(cᵢ) = name
+ */
+export function childrenNamed(e: XmlElement, name: string): XmlElement[] {
+  return e.children.filter(c => localName(c)===name);
+}
+
+
+/**
+ * Parse an XML document (without DTD validation or external entities).
+ * @param text XML text
+ * @returns root element
+ */
+export function parseXml(text: string): XmlElement {
+  var top: XmlElement = {name: "", attributes: {}, children: [], text: ""};
+  var stack: XmlElement[] = [top];
+  var rattr = /\s*([^\s=\/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+  var rname = /[^\s\/>]+/y;
+  for (var i=0, N=text.length; i<N;) {
+    var j = text.indexOf("<", i);
+    if (j<0) j = N;
+    if (j>i) top.text += decodeXml(text.slice(i, j));
+    if (j>=N) break;
+    if (text.startsWith("<!--", j)) i = skipTo(text, "-->", j+4);
+    else if (text.startsWith("<![CDATA[", j)) {
+      var k = skipTo(text, "]]>", j+9);
+      top.text += text.slice(j+9, k-3);
+      i = k;
+    }
+    else if (text.startsWith("<?", j)) i = skipTo(text, "?>", j+2);
+    else if (text.startsWith("<!", j)) {
+      // Skip the doctype, with its internal subset (if any).
+      var b = text.indexOf("[", j), c = text.indexOf(">", j);
+      i = b>=0 && b<c? skipTo(text, "]>", b) : skipTo(text, ">", j);
+    }
+    else if (text[j+1]==="/") {
+      var k = skipTo(text, ">", j+2);
+      var name = text.slice(j+2, k-1).trim();
+      if (stack.length<=1 || name!==top.name) throw new Error("Unexpected XML closing tag: " + name);
+      stack.pop();
+      top = stack[stack.length-1];
+      i = k;
+    }
+    else {
+      rname.lastIndex = j+1;
+      var m = rname.exec(text);
+      if (!m) throw new Error("Invalid XML tag at " + j);
+      var e: XmlElement = {name: m[0], attributes: {}, children: [], text: ""};
+      var a: RegExpExecArray | null, p = rname.lastIndex;
+      for (rattr.lastIndex = p; (a = rattr.exec(text)); p = rattr.lastIndex)
+        e.attributes[a[1]] = decodeXml(a[2]!=null? a[2] : a[3]);
+      var k = skipTo(text, ">", p);
+      top.children.push(e);
+      if (text[k-2]!=="/") {
+        stack.push(e);
+        top = e;
+      }
+      i = k;
+    }
+  }
+  if (stack.length>1) throw new Error("Unclosed XML tag: " + top.name);
+  var root = stack[0].children[0];
+  if (!root) throw new Error("Missing XML root element");
+  return root;
+}
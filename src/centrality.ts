@@ -0,0 +1,349 @@
+import {ReadonlyGraph, WeightFunction} from "./index";
+import {EdgeDirection} from "./traverse";
+import {dijkstra} from "./paths";
+import {MinHeap} from "./_heap";
+
+
+
+
+// #region TYPES
+// =============
+
+/** Options for an iterative ranking algorithm. */
+export interface IterativeOptions {
+  /** Maximum L1-norm change between iterations to stop at [1e-10]. */
+  tolerance?: number;
+  /** Maximum number of iterations [500]. */
+  maxIterations?: number;
+}
+
+
+/** Options for PageRank. */
+export interface PagerankOptions extends IterativeOptions {
+  /** Probability of following an edge [0.85]. */
+  damping?: number;
+  /** Teleport probability of each vertex, indexed by vertex id [uniform]. */
+  personalization?: ArrayLike<number>;
+}
+
+
+/** Hub and authority scores from HITS. */
+export interface HitsScores {
+  /** Hub score of each vertex. */
+  hubs: Float64Array;
+  /** Authority score of each vertex. */
+  authorities: Float64Array;
+}
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/** Find distances from a vertex, in hops or by edge weights. */
+function distancesFrom<V, E>(x: ReadonlyGraph<V, E>, u: number, fw: WeightFunction<E> | null): Float64Array {
+  if (fw) return dijkstra(x, u, fw).distances;
+  var distances = new Float64Array(x.span()).fill(Infinity);
+  var queue = [u];
+  distances[u] = 0;
+  for (var i=0; i<queue.length; ++i) {
+    var t = queue[i], d = distances[t] + 1;
+    x.forEachEdge(t, v => {
+      if (distances[v]!==Infinity) return;
+      distances[v] = d;
+      queue.push(v);
+    });
+  }
+  return distances;
+}
+
+
+/** Get the L1-norm of difference between two vectors, over vertices. */
+function l1Distance(ks: number[], a: Float64Array, b: Float64Array): number {
+  var e = 0;
+  for (var u of ks)
+    e += Math.abs(a[u] - b[u]);
+  return e;
+}
+
+
+/** Scale a vector, over vertices, to have unit L2-norm. */
+function normalizeL2(ks: number[], a: Float64Array): void {
+  var s = 0;
+  for (var u of ks)
+    s += a[u] * a[u];
+  s = Math.sqrt(s) || 1;
+  for (var u of ks)
+    a[u] /= s;
+}
+
+
+/** Scale a vector, over vertices, to have unit L1-norm. */
+function normalizeL1(ks: number[], a: Float64Array): void {
+  var s = 0;
+  for (var u of ks)
+    s += Math.abs(a[u]);
+  s = s || 1;
+  for (var u of ks)
+    a[u] /= s;
+}
+// #endregion
+
+
+
+
+// #region PAGERANK
+// ================
+
+/**
+ * Find the PageRank of each vertex in a graph.
+ * @param x a graph
+ * @param opt pagerank options {damping, tolerance, maxIterations, personalization}
+ * @returns [r₀, r₁, ...] | Σrᵢ = 1 over V; rᵢ = 0 for i ∉ V
+ */
+export function pagerank<V, E>(x: ReadonlyGraph<V, E>, opt: PagerankOptions={}): Float64Array {
+  var d = opt.damping==null? 0.85 : opt.damping;
+  var tol = opt.tolerance==null? 1e-10 : opt.tolerance;
+  var max = opt.maxIterations==null? 500 : opt.maxIterations;
+  var S = x.span(), ks = x.vertexKeys(), N = ks.length;
+  // Teleport vector, also used to spread rank of dangling vertices.
+  var p = new Float64Array(S);
+  for (var u of ks)
+    p[u] = opt.personalization? opt.personalization[u] : 1/N;
+  normalizeL1(ks, p);
+  var r = new Float64Array(S), a = new Float64Array(S);
+  var c = new Float64Array(S), D = new Float64Array(S);
+  for (var u of ks) {
+    r[u] = 1/N;
+    D[u] = x.degree(u);
+  }
+  for (var l=0; l<max; ++l) {
+    var dangling = 0;
+    for (var u of ks) {
+      if (D[u]>0) c[u] = r[u] / D[u];
+      else dangling += r[u];
+    }
+    for (var v of ks) {
+      var s = 0;
+      x.forEachInEdge(v, u => s += c[u]);
+      a[v] = (1-d) * p[v] + d * (s + dangling * p[v]);
+    }
+    var e = l1Distance(ks, a, r);
+    [r, a] = [a, r];
+    if (e<tol) break;
+  }
+  return r;
+}
+// #endregion
+
+
+
+
+// #region CENTRALITY
+// ==================
+
+/**
+ * Find the degree centrality of each vertex in a graph.
+ * @param x a graph
+ * @param dir direction of edges to count ["out"]
+ * @returns [c₀, c₁, ...] | cᵤ = Dᵤ / (|V| - 1)
+ */
+export function degreeCentrality<V, E>(x: ReadonlyGraph<V, E>, dir: EdgeDirection="out"): Float64Array {
+  var a = new Float64Array(x.span());
+  var N = x.order(), s = N>1? 1/(N-1) : 1;
+  x.forEachVertex(u => {
+    var D = dir==="in"? x.inDegree(u) : x.degree(u);
+    if (dir==="both" && x.isDirected()) D += x.inDegree(u);
+    a[u] = D * s;
+  });
+  return a;
+}
+
+
+/**
+ * Find the closeness centrality of each vertex in a graph.
+ * @param x a graph
+ * @param fw weight function (w, u, v) [hops]
+ * @returns [c₀, c₁, ...] | cᵤ = (r-1)/Σd(u, v) × (r-1)/(|V|-1); r = |reachable from u|
+ */
+export function closenessCentrality<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E> | null=null): Float64Array {
+  var a = new Float64Array(x.span()), N = x.order();
+  x.forEachVertex(u => {
+    var distances = distancesFrom(x, u, fw);
+    var s = 0, r = 0;
+    x.forEachVertex(v => {
+      if (distances[v]===Infinity) return;
+      s += distances[v];
+      ++r;
+    });
+    if (s>0 && N>1) a[u] = ((r-1)/s) * ((r-1)/(N-1));
+  });
+  return a;
+}
+
+
+/**
+ * Find the harmonic centrality of each vertex in a graph.
+ * @param x a graph
+ * @param fw weight function (w, u, v) [hops]
+ * @returns [c₀, c₁, ...] | cᵤ = Σ 1/d(u, v) for all v ≠ u
+ */
+export function harmonicCentrality<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E> | null=null): Float64Array {
+  var a = new Float64Array(x.span());
+  x.forEachVertex(u => {
+    var distances = distancesFrom(x, u, fw), s = 0;
+    x.forEachVertex(v => {
+      if (v!==u && distances[v]>0) s += 1/distances[v];
+    });
+    a[u] = s;
+  });
+  return a;
+}
+
+
+/**
+ * Find the betweenness centrality of each vertex in a graph (Brandes' algorithm).
+ * @param x a graph
+ * @param fw weight function (w, u, v) [hops]
+ * @returns [c₀, c₁, ...] | cᵥ = Σ σₛₜ(v)/σₛₜ for all s ≠ v ≠ t
+ */
+export function betweennessCentrality<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E> | null=null): Float64Array {
+  var S = x.span(), ks = x.vertexKeys();
+  var a = new Float64Array(S);
+  var sigma = new Float64Array(S), delta = new Float64Array(S);
+  var distances = new Float64Array(S);
+  var parents: number[][] = [];
+  for (var u=0; u<S; ++u)
+    parents.push([]);
+  for (var s of ks) {
+    // Find shortest paths from s, and vertices in order of distance.
+    var order: number[] = [];
+    for (var u of ks) {
+      sigma[u] = 0;
+      delta[u] = 0;
+      distances[u] = Infinity;
+      parents[u].length = 0;
+    }
+    sigma[s] = 1;
+    distances[s] = 0;
+    if (fw) {
+      var heap = new MinHeap();
+      var done = new Uint8Array(S);
+      heap.push(s, 0);
+      while (!heap.isEmpty()) {
+        var u = heap.pop();
+        if (done[u]) continue;
+        done[u] = 1;
+        order.push(u);
+        x.forEachEdge(u, (v, w) => {
+          var dv = distances[u] + fw(w, u, v);
+          if (dv<distances[v]) {
+            distances[v] = dv;
+            sigma[v] = 0;
+            parents[v].length = 0;
+            heap.push(v, dv);
+          }
+          if (dv===distances[v]) {
+            sigma[v] += sigma[u];
+            parents[v].push(u);
+          }
+        });
+      }
+    }
+    else {
+      order.push(s);
+      for (var i=0; i<order.length; ++i) {
+        var u = order[i];
+        x.forEachEdge(u, v => {
+          if (distances[v]===Infinity) {
+            distances[v] = distances[u] + 1;
+            order.push(v);
+          }
+          if (distances[v]===distances[u] + 1) {
+            sigma[v] += sigma[u];
+            parents[v].push(u);
+          }
+        });
+      }
+    }
+    // Accumulate dependencies, farthest vertices first.
+    for (var i=order.length-1; i>=0; --i) {
+      var v = order[i];
+      for (var u of parents[v])
+        delta[u] += (sigma[u]/sigma[v]) * (1 + delta[v]);
+      if (v!==s) a[v] += delta[v];
+    }
+  }
+  // Each path is counted from both ends in an undirected graph.
+  if (!x.isDirected()) for (var u of ks)
+    a[u] /= 2;
+  return a;
+}
+
+
+/**
+ * Find the eigenvector centrality of each vertex in a graph.
+ * @param x a graph
+ * @param opt iteration options {tolerance, maxIterations}
+ * @returns [c₀, c₁, ...] | c = Aᵀc / λ; ‖c‖₂ = 1
+ */
+export function eigenvectorCentrality<V, E>(x: ReadonlyGraph<V, E>, opt: IterativeOptions={}): Float64Array {
+  var tol = opt.tolerance==null? 1e-10 : opt.tolerance;
+  var max = opt.maxIterations==null? 500 : opt.maxIterations;
+  var S = x.span(), ks = x.vertexKeys(), N = ks.length;
+  var c = new Float64Array(S), a = new Float64Array(S);
+  for (var u of ks)
+    c[u] = 1/N;
+  normalizeL2(ks, c);
+  for (var l=0; l<max; ++l) {
+    // Iterate with (A + I)ᵀ, which has the same eigenvectors but converges on bipartite graphs.
+    for (var v of ks) {
+      var s = c[v];
+      x.forEachInEdge(v, u => s += c[u]);
+      a[v] = s;
+    }
+    normalizeL2(ks, a);
+    var e = l1Distance(ks, a, c);
+    [c, a] = [a, c];
+    if (e<tol) break;
+  }
+  return c;
+}
+
+
+/**
+ * Find the hub and authority scores of each vertex in a graph (HITS).
+ * @param x a graph
+ * @param opt iteration options {tolerance, maxIterations}
+ * @returns {hubs, authorities} | Σhᵢ = Σaᵢ = 1
+ */
+export function hits<V, E>(x: ReadonlyGraph<V, E>, opt: IterativeOptions={}): HitsScores {
+  var tol = opt.tolerance==null? 1e-10 : opt.tolerance;
+  var max = opt.maxIterations==null? 500 : opt.maxIterations;
+  var S = x.span(), ks = x.vertexKeys(), N = ks.length;
+  var hubs = new Float64Array(S), authorities = new Float64Array(S);
+  var h = new Float64Array(S);
+  for (var u of ks)
+    hubs[u] = 1/N;
+  for (var l=0; l<max; ++l) {
+    for (var v of ks) {
+      var s = 0;
+      x.forEachInEdge(v, u => s += hubs[u]);
+      authorities[v] = s;
+    }
+    normalizeL1(ks, authorities);
+    for (var u of ks) {
+      var s = 0;
+      x.forEachEdge(u, v => s += authorities[v]);
+      h[u] = s;
+    }
+    normalizeL1(ks, h);
+    var e = l1Distance(ks, h, hubs);
+    [hubs, h] = [h, hubs];
+    if (e<tol) break;
+  }
+  return {hubs, authorities};
+}
+// #endregion
@@ -0,0 +1,398 @@
+import {ReadonlyGraph, WeightFunction, DiGraph, edgeWeight} from "./index";
+import {Components, componentMembers} from "./components";
+import {createRandom, shuffle$} from "./_random";
+
+
+
+
+// #region TYPES
+// =============
+
+/** Communities of a graph, indexed by vertex id. */
+export interface Communities extends Components {
+  /** Modularity of the partition. */
+  modularity: number;
+}
+
+
+/** Options for community detection. */
+export interface CommunityOptions {
+  /** Resolution, higher values give smaller communities [1]. */
+  resolution?: number;
+  /** Maximum number of passes over the vertices, per level [100]. */
+  maxIterations?: number;
+  /** Seed for random visiting order and tie-breaking, where used [0]. */
+  seed?: number;
+}
+
+
+/** A symmetric weighted graph over vertices 0..n-1, used internally. */
+interface WeightedAdjacency {
+  /** Neighbours of each vertex (includes self-loops). */
+  edges: number[][];
+  /** Weights of edges to neighbours. */
+  weights: number[][];
+  /** Total weight of edges of each vertex. */
+  degrees: Float64Array;
+  /** Total weight of all edges, counted from both ends. */
+  total: number;
+}
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/**
+ * Build a symmetric weighted adjacency of a graph, on compacted vertex ids.
+ * Directed edges are merged with their reverse; self-loops count twice.
+ */
+function symmetricAdjacency<V, E>(x: ReadonlyGraph<V, E>, ks: number[], fw: WeightFunction<E>): WeightedAdjacency {
+  var S = x.span(), N = ks.length;
+  var ids = new Int32Array(S).fill(-1);
+  for (var i=0; i<N; ++i)
+    ids[ks[i]] = i;
+  var maps: Map<number, number>[] = [];
+  for (var i=0; i<N; ++i)
+    maps.push(new Map());
+  var add = (i: number, j: number, w: number) => maps[i].set(j, (maps[i].get(j) || 0) + w);
+  for (var i=0; i<N; ++i) {
+    var u = ks[i];
+    x.forEachEdge(u, (v, w) => {
+      var j = ids[v], d = fw(w, u, v);
+      if (!x.isDirected()) add(i, j, i===j? 2*d : d);
+      else { add(i, j, d); add(j, i, d); }
+    });
+  }
+  return fromMaps(maps);
+}
+
+
+/** Build weighted adjacency from per-vertex neighbour weight maps. */
+function fromMaps(maps: Map<number, number>[]): WeightedAdjacency {
+  var N = maps.length, total = 0;
+  var edges: number[][] = [], weights: number[][] = [];
+  var degrees = new Float64Array(N);
+  for (var i=0; i<N; ++i) {
+    edges.push([...maps[i].keys()]);
+    weights.push([...maps[i].values()]);
+    for (var w of weights[i])
+      degrees[i] += w;
+    total += degrees[i];
+  }
+  return {edges, weights, degrees, total};
+}
+
+
+/** Renumber community ids to 0..count-1, in order of first appearance. */
+function renumber(membership: Int32Array): number {
+  var ids = new Map<number, number>();
+  for (var i=0; i<membership.length; ++i) {
+    var c = membership[i];
+    if (!ids.has(c)) ids.set(c, ids.size);
+    membership[i] = ids.get(c)!;
+  }
+  return ids.size;
+}
+
+
+/** Move each vertex (in random order) to the neighbouring community with highest modularity gain. */
+function moveVertices(g: WeightedAdjacency, membership: Int32Array, R: number, max: number, fr: () => number): void {
+  var N = g.edges.length, M = g.total;
+  var totals = new Float64Array(N);
+  var hold   = new Float64Array(N);
+  var touched: number[] = [], order: number[] = [];
+  for (var i=0; i<N; ++i) {
+    totals[membership[i]] += g.degrees[i];
+    order.push(i);
+  }
+  for (var l=0; l<max; ++l) {
+    var changed = 0;
+    for (var i of shuffle$(order, fr)) {
+      var c = membership[i], k = g.degrees[i];
+      // Total weight of edges from i to each neighbouring community.
+      touched.length = 0;
+      touched.push(c);
+      for (var e=0, n=g.edges[i].length; e<n; ++e) {
+        var j = g.edges[i][e];
+        if (j===i) continue;
+        if (hold[membership[j]]===0) touched.push(membership[j]);
+        hold[membership[j]] += g.weights[i][e];
+      }
+      totals[c] -= k;
+      var best = c, bestGain = hold[c] - R * totals[c] * k / M;
+      for (var d of touched) {
+        var gain = hold[d] - R * totals[d] * k / M;
+        if (gain>bestGain + 1e-12) { best = d; bestGain = gain; }
+      }
+      for (var d of touched)
+        hold[d] = 0;
+      totals[best] += k;
+      membership[i] = best;
+      if (best!==c) ++changed;
+    }
+    if (changed===0) break;
+  }
+}
+
+
+/** Split communities into well-connected subcommunities, by merging singletons in random order (Leiden). */
+function refineCommunities(g: WeightedAdjacency, membership: Int32Array, R: number, fr: () => number): Int32Array {
+  var N = g.edges.length, M = g.total;
+  var refined = new Int32Array(N);
+  var totals  = new Float64Array(N);
+  var sizes   = new Int32Array(N).fill(1);
+  var hold    = new Float64Array(N);
+  var touched: number[] = [], order: number[] = [];
+  for (var i=0; i<N; ++i) {
+    refined[i] = i;
+    totals[i]  = g.degrees[i];
+    order.push(i);
+  }
+  for (var i of shuffle$(order, fr)) {
+    if (sizes[refined[i]]>1) continue;
+    var k = g.degrees[i];
+    touched.length = 0;
+    for (var e=0, n=g.edges[i].length; e<n; ++e) {
+      var j = g.edges[i][e];
+      if (j===i || membership[j]!==membership[i]) continue;
+      if (hold[refined[j]]===0) touched.push(refined[j]);
+      hold[refined[j]] += g.weights[i][e];
+    }
+    var best = i, bestGain = 0;
+    for (var r of touched) {
+      var gain = hold[r] - R * totals[r] * k / M;
+      if (gain>bestGain + 1e-12) { best = r; bestGain = gain; }
+    }
+    for (var r of touched)
+      hold[r] = 0;
+    if (best===i) continue;
+    totals[i] -= k; sizes[i]--;
+    totals[best] += k; sizes[best]++;
+    refined[i] = best;
+  }
+  return refined;
+}
+
+
+/** Collapse each community into a vertex, keeping internal weight as self-loops. */
+function aggregate(g: WeightedAdjacency, membership: Int32Array, count: number): WeightedAdjacency {
+  var maps: Map<number, number>[] = [];
+  for (var c=0; c<count; ++c)
+    maps.push(new Map());
+  for (var i=0, N=g.edges.length; i<N; ++i) {
+    var c = membership[i];
+    for (var e=0, n=g.edges[i].length; e<n; ++e) {
+      var d = membership[g.edges[i][e]];
+      maps[c].set(d, (maps[c].get(d) || 0) + g.weights[i][e]);
+    }
+  }
+  return fromMaps(maps);
+}
+
+
+/** Find communities by repeated moving and aggregation of vertices. */
+function detectCommunities<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E>, opt: CommunityOptions, refine: boolean): Communities {
+  var R   = opt.resolution==null? 1 : opt.resolution;
+  var max = opt.maxIterations==null? 100 : opt.maxIterations;
+  var ks = x.vertexKeys(), N = ks.length;
+  var g  = symmetricAdjacency(x, ks, fw);
+  var fr = createRandom(opt.seed || 0);
+  // Current (aggregate) vertex of each original vertex.
+  var top = new Int32Array(N);
+  var membership = new Int32Array(N);
+  for (var i=0; i<N; ++i)
+    top[i] = membership[i] = i;
+  while (g.total>0) {
+    moveVertices(g, membership, R, max, fr);
+    var count = renumber(membership);
+    if (count===membership.length) break;
+    if (!refine) {
+      for (var i=0; i<N; ++i)
+        top[i] = membership[top[i]];
+      g = aggregate(g, membership, count);
+      membership = new Int32Array(count);
+      for (var c=0; c<count; ++c)
+        membership[c] = c;
+      continue;
+    }
+    var refined = refineCommunities(g, membership, R, fr);
+    var rcount  = renumber(refined);
+    if (rcount===refined.length) break;
+    // Aggregate over refined partition, starting from the unrefined one.
+    var next = new Int32Array(rcount);
+    for (var i=0; i<refined.length; ++i)
+      next[refined[i]] = membership[i];
+    for (var i=0; i<N; ++i)
+      top[i] = refined[top[i]];
+    g = aggregate(g, refined, rcount);
+    membership = next;
+  }
+  var a = new Int32Array(x.span()).fill(-1);
+  for (var i=0; i<N; ++i)
+    a[ks[i]] = membership[top[i]];
+  return communitiesOf(x, a, fw, R);
+}
+
+
+/** Renumber vertex communities, and find their modularity. */
+function communitiesOf<V, E>(x: ReadonlyGraph<V, E>, a: Int32Array, fw: WeightFunction<E>, R: number): Communities {
+  var ids = new Map<number, number>();
+  for (var u=0; u<a.length; ++u) {
+    if (a[u]<0) continue;
+    if (!ids.has(a[u])) ids.set(a[u], ids.size);
+    a[u] = ids.get(a[u])!;
+  }
+  return {count: ids.size, membership: a, modularity: modularity(x, a, fw, R)};
+}
+// #endregion
+
+
+
+
+// #region MODULARITY
+// ==================
+
+/**
+ * Find the modularity of a partition of a graph.
+ * Directed edges are treated as undirected.
+ * @param x a graph
+ * @param membership community id of each vertex
+ * @param fw weight function (w, u, v)
+ * @param R resolution [1]
+ * @returns Q = Σ_c [Σin_c/2m - R(Σtot_c/2m)²]
+ */
+export function modularity<V, E>(x: ReadonlyGraph<V, E>, membership: ArrayLike<number>, fw: WeightFunction<E>=edgeWeight, R: number=1): number {
+  var ks = x.vertexKeys();
+  var g  = symmetricAdjacency(x, ks, fw), M = g.total;
+  if (M===0) return 0;
+  var internal = new Map<number, number>(), totals = new Map<number, number>();
+  for (var i=0; i<ks.length; ++i) {
+    var c = membership[ks[i]];
+    totals.set(c, (totals.get(c) || 0) + g.degrees[i]);
+    for (var e=0, n=g.edges[i].length; e<n; ++e)
+      if (membership[ks[g.edges[i][e]]]===c) internal.set(c, (internal.get(c) || 0) + g.weights[i][e]);
+  }
+  var q = 0;
+  for (var [c, t] of totals)
+    q += (internal.get(c) || 0)/M - R * (t/M) * (t/M);
+  return q;
+}
+// #endregion
+
+
+
+
+// #region COMMUNITY DETECTION
+// ===========================
+
+/**
+ * Find communities of a graph by modularity optimization (Louvain method).
+ * Directed edges are treated as undirected.
+ * @param x a graph
+ * @param fw weight function (w, u, v)
+ * @param opt community options {resolution, maxIterations, seed}
+ * @returns {count, membership, modularity}
+ */
+export function louvain<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E>=edgeWeight, opt: CommunityOptions={}): Communities {
+  return detectCommunities(x, fw, opt, false);
+}
+
+
+/**
+ * Find communities of a graph by modularity optimization, with refinement (Leiden method).
+ * Directed edges are treated as undirected.
+ * @param x a graph
+ * @param fw weight function (w, u, v)
+ * @param opt community options {resolution, maxIterations, seed}
+ * @returns {count, membership, modularity}
+ */
+export function leiden<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E>=edgeWeight, opt: CommunityOptions={}): Communities {
+  return detectCommunities(x, fw, opt, true);
+}
+
+
+/**
+ * Find communities of a graph by adopting the most common neighbour label.
+ * Directed edges are treated as undirected.
+ * @param x a graph
+ * @param fw weight function (w, u, v)
+ * @param opt community options {resolution, maxIterations, seed}
+ * @returns {count, membership, modularity}
+ */
+export function labelPropagation<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E>=edgeWeight, opt: CommunityOptions={}): Communities {
+  var R   = opt.resolution==null? 1 : opt.resolution;
+  var max = opt.maxIterations==null? 100 : opt.maxIterations;
+  var ks = x.vertexKeys(), N = ks.length;
+  var g  = symmetricAdjacency(x, ks, fw);
+  var fr = createRandom(opt.seed || 0);
+  var labels = new Int32Array(N);
+  var hold   = new Float64Array(N);
+  var order: number[] = [], touched: number[] = [], ties: number[] = [];
+  for (var i=0; i<N; ++i) {
+    labels[i] = i;
+    order.push(i);
+  }
+  for (var l=0; l<max; ++l) {
+    // Stop when every vertex has one of its most common neighbour labels.
+    var changed = 0;
+    for (var i of shuffle$(order, fr)) {
+      touched.length = 0;
+      for (var e=0, n=g.edges[i].length; e<n; ++e) {
+        var j = g.edges[i][e];
+        if (j===i) continue;
+        if (hold[labels[j]]===0) touched.push(labels[j]);
+        hold[labels[j]] += g.weights[i][e];
+      }
+      var bestWeight = 0;
+      for (var c of touched)
+        bestWeight = Math.max(bestWeight, hold[c]);
+      ties.length = 0;
+      for (var c of touched)
+        if (hold[c]===bestWeight) ties.push(c);
+      var keep = hold[labels[i]]===bestWeight;
+      for (var c of touched)
+        hold[c] = 0;
+      if (keep || ties.length===0) continue;
+      labels[i] = ties[Math.floor(fr() * ties.length)];
+      ++changed;
+    }
+    if (changed===0) break;
+  }
+  var a = new Int32Array(x.span()).fill(-1);
+  for (var i=0; i<N; ++i)
+    a[ks[i]] = labels[i];
+  return communitiesOf(x, a, fw, R);
+}
+
+
+/**
+ * Collapse each community of a graph into a vertex.
+ * @param x a graph
+ * @param a communities of graph
+ * @param fw weight function (w, u, v)
+ * @returns G' | V' = communities, with member lists; w'(c, d) = Σ w(u, v) for u ∈ c, v ∈ d
+ */
+export function aggregateCommunities<V, E>(x: ReadonlyGraph<V, E>, a: Components, fw: WeightFunction<E>=edgeWeight): DiGraph<number[], number> {
+  var y = new DiGraph<number[], number>([], 0);
+  var members = componentMembers(a);
+  for (var c=0; c<a.count; ++c)
+    y.addVertex(c, members[c]);
+  for (var c=0; c<a.count; ++c) {
+    var sums = new Map<number, number>();
+    for (var u of members[c])
+      x.forEachEdge(u, (v, w) => {
+        var d = a.membership[v];
+        // Undirected edges within a community are seen from both ends.
+        if (!x.isDirected() && d===c && v<u) return;
+        sums.set(d, (sums.get(d) || 0) + fw(w, u, v));
+      });
+    for (var [d, s] of sums)
+      y.addEdge(c, d, s);
+  }
+  y.update();
+  return y;
+}
+// #endregion
@@ -0,0 +1,230 @@
+import {ReadonlyGraph, DiGraph} from "./index";
+import {EdgeDirection, neighbours, dfs} from "./traverse";
+
+
+
+
+// #region TYPES
+// =============
+
+/** Components of a graph, indexed by vertex id. */
+export interface Components {
+  /** Number of components. */
+  count: number;
+  /** Component id of each vertex (-1 if not a vertex). */
+  membership: Int32Array;
+}
+
+
+/** Articulation points, bridges, and biconnected components of a graph. */
+interface Biconnectivity {
+  /** Vertices whose removal disconnects their component. */
+  points: number[];
+  /** Edges whose removal disconnects their component. */
+  bridges: [number, number][];
+  /** Vertices of each maximal biconnected subgraph. */
+  components: number[][];
+}
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/**
+ * Obtain the vertices in each component.
+ * @param a components
+ * @returns [[u₀, u₁, ...], ...] | membership[uᵢ] = c for c-th list
+ */
+export function componentMembers(a: Components): number[][] {
+  var b: number[][] = [];
+  for (var c=0; c<a.count; ++c)
+    b.push([]);
+  for (var u=0, S=a.membership.length; u<S; ++u)
+    if (a.membership[u]>=0) b[a.membership[u]].push(u);
+  return b;
+}
+
+
+/** Label vertices reachable from each unlabelled vertex, in the given order. */
+function labelComponents<V, E>(x: ReadonlyGraph<V, E>, us: number[], dir: EdgeDirection): Components {
+  var membership = new Int32Array(x.span()).fill(-1);
+  var count = 0, stack: number[] = [];
+  for (var s of us) {
+    if (membership[s]>=0) continue;
+    membership[s] = count;
+    stack.push(s);
+    while (stack.length>0) {
+      var u = stack.pop()!;
+      for (var v of neighbours(x, u, dir)) {
+        if (membership[v]>=0) continue;
+        membership[v] = count;
+        stack.push(v);
+      }
+    }
+    ++count;
+  }
+  return {count, membership};
+}
+
+
+/** Find articulation points, bridges, and biconnected components (Hopcroft-Tarjan, iterative). */
+function biconnectivity<V, E>(x: ReadonlyGraph<V, E>): Biconnectivity {
+  var S = x.span(), time = 0;
+  var disc = new Int32Array(S).fill(-1);
+  var low  = new Int32Array(S);
+  var parents = new Int32Array(S).fill(-1);
+  var isPoint = new Uint8Array(S);
+  var a: Biconnectivity = {points: [], bridges: [], components: []};
+  // Each vertex is treated as having undirected edges to its neighbours.
+  var adjacent = (u: number) => x.isDirected()? [...new Set(neighbours(x, u, "both"))] : x.edgeKeys(u);
+  var stack: number[] = [], edges: number[] = [];
+  var nbrs: number[][] = [], next: number[] = [];
+  x.forEachVertex(s => {
+    if (disc[s]>=0) return;
+    var children = 0;
+    disc[s] = low[s] = time++;
+    stack.push(s); nbrs.push(adjacent(s)); next.push(0);
+    while (stack.length>0) {
+      var u = stack[stack.length-1], vs = nbrs[nbrs.length-1];
+      if (next[next.length-1]<vs.length) {
+        var v = vs[next[next.length-1]++];
+        if (v===u || v===parents[u]) continue;
+        if (disc[v]<0) {
+          parents[v] = u;
+          disc[v] = low[v] = time++;
+          if (u===s) ++children;
+          edges.push(u, v);
+          stack.push(v); nbrs.push(adjacent(v)); next.push(0);
+        }
+        else if (disc[v]<disc[u]) {
+          low[u] = Math.min(low[u], disc[v]);
+          edges.push(u, v);
+        }
+        continue;
+      }
+      stack.pop(); nbrs.pop(); next.pop();
+      var p = parents[u];
+      if (p<0) continue;
+      low[p] = Math.min(low[p], low[u]);
+      if (low[u]>disc[p]) a.bridges.push([p, u]);
+      if (low[u]<disc[p]) continue;
+      // Parent separates the subtree of u, so its edges form a component.
+      if (p!==s) isPoint[p] = 1;
+      var c = new Set<number>();
+      while (edges.length>0) {
+        var w = edges.pop()!, t = edges.pop()!;
+        c.add(t); c.add(w);
+        if (t===p && w===u) break;
+      }
+      a.components.push([...c]);
+    }
+    if (children>1) isPoint[s] = 1;
+  });
+  for (var u=0; u<S; ++u)
+    if (isPoint[u]) a.points.push(u);
+  return a;
+}
+// #endregion
+
+
+
+
+// #region COMPONENTS
+// ==================
+
+/**
+ * Find the strongly connected components of a graph (Kosaraju's algorithm).
+ * @param x a graph
+ * @returns {count, membership} | components in topological order
+ */
+export function stronglyConnectedComponents<V, E>(x: ReadonlyGraph<V, E>): Components {
+  var order: number[] = [];
+  dfs(x, x.vertexKeys(), {finish: u => order.push(u)});
+  return labelComponents(x, order.reverse(), "in");
+}
+
+
+/**
+ * Find the weakly connected components of a graph.
+ * @param x a graph
+ * @returns {count, membership}
+ */
+export function weaklyConnectedComponents<V, E>(x: ReadonlyGraph<V, E>): Components {
+  return labelComponents(x, x.vertexKeys(), "both");
+}
+
+
+/**
+ * Find the connected components of an undirected graph.
+ * @param x a graph
+ * @returns {count, membership}
+ */
+export function connectedComponents<V, E>(x: ReadonlyGraph<V, E>): Components {
+  return labelComponents(x, x.vertexKeys(), x.isDirected()? "both" : "out");
+}
+
+
+/**
+ * Collapse each component of a graph into a vertex.
+ * @param x a graph
+ * @param a components of graph
+ * @returns G' | V' = components, with member lists; w'(c, d) = |edges from c to d|
+ */
+export function condensation<V, E>(x: ReadonlyGraph<V, E>, a: Components): DiGraph<number[], number> {
+  var y = new DiGraph<number[], number>([], 0);
+  var members = componentMembers(a);
+  for (var c=0; c<a.count; ++c)
+    y.addVertex(c, members[c]);
+  for (var c=0; c<a.count; ++c) {
+    var counts = new Map<number, number>();
+    for (var u of members[c])
+      x.forEachEdge(u, v => {
+        var d = a.membership[v];
+        if (d!==c) counts.set(d, (counts.get(d) || 0) + 1);
+      });
+    for (var [d, n] of counts)
+      y.addEdge(c, d, n);
+  }
+  y.update();
+  return y;
+}
+// #endregion
+
+
+
+
+// #region BICONNECTED
+// ===================
+
+/**
+ * Find the articulation points (cut vertices) of a graph.
+ * @param x a graph (edge directions are ignored)
+ * @returns [u₀, u₁, ...] | removing uᵢ disconnects its component; in ascending order
+ */
+export function articulationPoints<V, E>(x: ReadonlyGraph<V, E>): number[] {
+  return biconnectivity(x).points;
+}
+
+
+/**
+ * Find the bridges (cut edges) of a graph.
+ * @param x a graph (edge directions are ignored)
+ * @returns [[u₀, v₀], [u₁, v₁], ...] | removing [uᵢ, vᵢ] disconnects its component
+ */
+export function bridges<V, E>(x: ReadonlyGraph<V, E>): [number, number][] {
+  return biconnectivity(x).bridges;
+}
+
+
+/**
+ * Find the biconnected components (blocks) of a graph.
+ * @param x a graph (edge directions are ignored)
+ * @returns [[u₀, u₁, ...], ...] | vertices of each maximal biconnected subgraph (isolated vertices excluded)
+ */
+export function biconnectedComponents<V, E>(x: ReadonlyGraph<V, E>): number[][] {
+  return biconnectivity(x).components;
+}
+// #endregion
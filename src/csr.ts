@@ -0,0 +1,566 @@
+import {ReadonlyGraph, WeightFunction, DiGraph} from "./index";
+import {writeGraph} from "./text";
+
+
+
+
+/** An immutable graph in compressed sparse row (and column) form. */
+export class CsrGraph<V, E> implements ReadonlyGraph<V, E> {
+  private _V: V;
+  private _E: E;
+  private _n: number;
+  private _m: number;
+  private _directed: boolean;
+  private _exists: Uint8Array;
+  private _values: V[];
+  private _offsets: Int32Array;
+  private _targets: Int32Array;
+  private _edgeValues: E[];
+  private _weights: Float64Array | null;
+  private _inOffsets: Int32Array;
+  private _sources: Int32Array;
+  private _inEdgeValues: E[];
+  private _inWeights: Float64Array | null;
+
+
+  // #region CONSTRUCTOR
+  // -------------------
+
+  /**
+   * Create a snapshot of a graph.
+   * @param x a graph
+   * @param fw weight function (w, u, v), to also store edge weights as numbers
+   */
+  constructor(x: ReadonlyGraph<V, E>, fw: WeightFunction<E> | null=null) {
+    var S = x.span();
+    this._V = x.vertexValue(-1);
+    this._E = x.edgeValue(-1, -1);
+    this._n = x.order();
+    this._m = x.size();
+    this._directed = x.isDirected();
+    this._exists = new Uint8Array(S);
+    this._values = new Array(S).fill(this._V);
+    // Build rows (out-edges), with targets sorted.
+    var M = 0;
+    x.forEachVertex(u => M += x.degree(u));
+    this._offsets = new Int32Array(S+1);
+    this._targets = new Int32Array(M);
+    this._edgeValues = new Array(M);
+    for (var u=0, i=0; u<S; ++u) {
+      this._offsets[u] = i;
+      if (!x.hasVertex(u)) continue;
+      this._exists[u] = 1;
+      this._values[u] = x.vertexValue(u);
+      var es = x.edges(u).sort((a, b) => a[0] - b[0]);
+      for (var [v, w] of es) {
+        this._targets[i] = v;
+        this._edgeValues[i++] = w;
+      }
+    }
+    this._offsets[S] = M;
+    // Build columns (in-edges), with sources sorted.
+    this._inOffsets = new Int32Array(S+1);
+    this._sources = new Int32Array(M);
+    this._inEdgeValues = new Array(M);
+    for (var i=0; i<M; ++i)
+      ++this._inOffsets[this._targets[i]+1];
+    for (var v=0; v<S; ++v)
+      this._inOffsets[v+1] += this._inOffsets[v];
+    var fill = this._inOffsets.slice(0, S);
+    for (var u=0; u<S; ++u) {
+      for (var i=this._offsets[u], I=this._offsets[u+1]; i<I; ++i) {
+        var j = fill[this._targets[i]]++;
+        this._sources[j] = u;
+        this._inEdgeValues[j] = this._edgeValues[i];
+      }
+    }
+    this._weights = null;
+    this._inWeights = null;
+    if (!fw) return;
+    this._weights = new Float64Array(M);
+    this._inWeights = new Float64Array(M);
+    for (var u=0; u<S; ++u)
+      for (var i=this._offsets[u], I=this._offsets[u+1]; i<I; ++i)
+        this._weights[i] = fw(this._edgeValues[i], u, this._targets[i]);
+    for (var v=0; v<S; ++v)
+      for (var j=this._inOffsets[v], J=this._inOffsets[v+1]; j<J; ++j)
+        this._inWeights[j] = fw(this._inEdgeValues[j], this._sources[j], v);
+  }
+
+
+  /**
+   * Create a mutable copy of graph.
+   * @returns DiGraph with same vertices and edges (both directions of undirected edges)
+   */
+  toDiGraph(): DiGraph<V, E> {
+    var a = new DiGraph<V, E>(this._V, this._E);
+    this.forEachVertex((u, d) => a.addVertex(u, d));
+    this.forEachVertex(u => this.forEachEdge(u, (v, w) => a.addEdge(u, v, w)));
+    a.update();
+    return a;
+  }
+
+
+  /**
+   * Write a summary of graph, as in the C++ writeGraph().
+   * @param detailed whether to write each vertex, with its edges [false]
+   * @returns "order: |V| size: |E| [directed] {}" | with "u:d -> v:w ..." lines, if detailed
+   */
+  toString(detailed: boolean=false): string {
+    return writeGraph(this, detailed);
+  }
+  // #endregion
+
+
+  // #region ARRAYS
+  // --------------
+
+  /**
+   * Get the offsets of out-edges of each vertex.
+   * @returns [o₀, o₁, ..., oₛ] | edges of u are at [oᵤ, oᵤ₊₁)
+   */
+  offsets(): Int32Array {
+    return this._offsets;
+  }
+
+
+  /**
+   * Get the targets of all out-edges.
+   * @returns [v₀, v₁, ...] | sorted by source, then target
+   */
+  targets(): Int32Array {
+    return this._targets;
+  }
+
+
+  /**
+   * Get the weights of all out-edges, if stored.
+   * @returns [w₀, w₁, ...] | in order of targets()
+   */
+  weights(): Float64Array | null {
+    return this._weights;
+  }
+
+
+  /**
+   * Get the offsets of in-edges of each vertex.
+   * @returns [o₀, o₁, ..., oₛ] | in-edges of v are at [oᵥ, oᵥ₊₁)
+   */
+  inOffsets(): Int32Array {
+    return this._inOffsets;
+  }
+
+
+  /**
+   * Get the sources of all in-edges.
+   * @returns [u₀, u₁, ...] | sorted by target, then source
+   */
+  sources(): Int32Array {
+    return this._sources;
+  }
+
+
+  /**
+   * Get the weights of all in-edges, if stored.
+   * @returns [w₀, w₁, ...] | in order of sources()
+   */
+  inWeights(): Float64Array | null {
+    return this._inWeights;
+  }
+  // #endregion
+
+
+  // #region ABOUT
+  // -------------
+
+  /**
+   * Get the maximum vertex-id of graph.
+   * @returns s | s > v for all v ∈ V
+   */
+  span(): number {
+    return this._exists.length;
+  }
+
+
+  /**
+   * Get the number of vertices in graph.
+   * @returns |V|
+   */
+  order(): number {
+    return this._n;
+  }
+
+
+  /**
+   * Get the number of edges in graph.
+   * @returns |E|
+   */
+  size(): number {
+    return this._m;
+  }
+
+
+  /**
+   * Tell if graph is directed.
+   * @returns directed?
+   */
+  isDirected(): boolean {
+    return this._directed;
+  }
+
+
+  /**
+   * Check if graph has a vertex.
+   * @param v vertex
+   * @returns v ∈ V?
+   */
+  hasVertex(v: number): boolean {
+    return v>=0 && v<this.span() && this._exists[v]===1;
+  }
+
+
+  /**
+   * Check if graph has an edge.
+   * @param u source vertex
+   * @param v target vertex
+   * @returns [u, v] ∈ E?
+   */
+  hasEdge(u: number, v: number): boolean {
+    return this.hasVertex(u) && this.edgeIndex(u, v)>=0;
+  }
+
+
+  /**
+   * Get the index of an edge in targets().
+   * @param u source vertex
+   * @param v target vertex
+   * @returns i | targets()[i] = v, offsets()[u] ≤ i; -1 if [u, v] ∉ E
+   */
+  edgeIndex(u: number, v: number): number {
+    if (!this.hasVertex(u)) return -1;
+    var lo = this._offsets[u], hi = this._offsets[u+1]-1;
+    while (lo<=hi) {
+      var m = (lo + hi) >>> 1, t = this._targets[m];
+      if (t===v) return m;
+      if (t<v) lo = m+1;
+      else hi = m-1;
+    }
+    return -1;
+  }
+
+
+  /**
+   * Obtain the vertex IDs, and associated vertex data in graph.
+   * @returns [[v₀, d₀], [v₁, d₁], [v₂, d₂], ...] | vᵢ ∈ V
+   */
+  vertices(): [number, V][] {
+    return [...this.ivertices()];
+  }
+
+
+  /**
+   * List the vertex IDs, and associated vertex data in graph.
+   * @yields [v₀, d₀], [v₁, d₁], [v₂, d₂], ... | vᵢ ∈ V
+   */
+  *ivertices(): IterableIterator<[number, V]> {
+    for (var u=0, S=this.span(); u<S; ++u)
+      if (this._exists[u]) yield [u, this._values[u]];
+  }
+
+
+  /**
+   * Obtain the vertex IDs in graph.
+   * @returns [v₀, v₁, v₂, ...] | vᵢ ∈ V
+   */
+  vertexKeys(): number[] {
+    return [...this.ivertexKeys()];
+  }
+
+
+  /**
+   * List the vertex IDs in graph.
+   * @yields v₀, v₁, v₂, ... | vᵢ ∈ V
+   */
+  *ivertexKeys(): IterableIterator<number> {
+    for (var u=0, S=this.span(); u<S; ++u)
+      if (this._exists[u]) yield u;
+  }
+
+
+  /**
+   * Obtain the vertex data in graph.
+   * @returns [d₀, d₁, d₂, ...] | vᵢ ∈ V
+   */
+  vertexValues(): V[] {
+    return [...this.ivertexValues()];
+  }
+
+
+  /**
+   * List the vertex data in graph.
+   * @yields d₀, d₁, d₂, ... | vᵢ ∈ V
+   */
+  *ivertexValues(): IterableIterator<V> {
+    for (var u=0, S=this.span(); u<S; ++u)
+      if (this._exists[u]) yield this._values[u];
+  }
+
+
+  /**
+   * Obtain the vertex out-degrees in graph.
+   * @returns [D⁺₀, D⁺₁, D⁺₂, ...] | uᵢ ∈ V; D⁺ᵢ = |edges(uᵢ)|
+   */
+  degrees(): number[] {
+    return [...this.idegrees()];
+  }
+
+
+  /**
+   * List the vertex out-degrees in graph.
+   * @yields D⁺₀, D⁺₁, D⁺₂, ... | uᵢ ∈ V; D⁺ᵢ = |edges(uᵢ)|
+   */
+  *idegrees(): IterableIterator<number> {
+    for (var u=0, S=this.span(); u<S; ++u)
+      if (this._exists[u]) yield this.degree(u);
+  }
+
+
+  /**
+   * Obtain the vertex in-degrees in graph.
+   * @returns [D⁻₀, D⁻₁, D⁻₂, ...] | vᵢ ∈ V; D⁻ᵢ = |inEdges(vᵢ)|
+   */
+  inDegrees(): number[] {
+    return [...this.iinDegrees()];
+  }
+
+
+  /**
+   * List the vertex in-degrees in graph.
+   * @yields D⁻₀, D⁻₁, D⁻₂, ... | vᵢ ∈ V; D⁻ᵢ = |inEdges(vᵢ)|
+   */
+  *iinDegrees(): IterableIterator<number> {
+    for (var v=0, S=this.span(); v<S; ++v)
+      if (this._exists[v]) yield this.inDegree(v);
+  }
+
+
+  /**
+   * Obtain the outgoing edge IDs, and associated edge weights for the given vertex in graph.
+   * @param u source vertex
+   * @returns [[v₀, w₀], [v₁, w₁], [v₂, w₂], ...] | [u, vᵢ] ∈ E; wᵢ = w(u, vᵢ)
+   */
+  edges(u: number): [number, E][] {
+    return [...this.iedges(u)];
+  }
+
+
+  /**
+   * List the outgoing edge IDs, and associated edge weights for the given vertex in graph.
+   * @param u source vertex
+   * @yields [v₀, w₀], [v₁, w₁], [v₂, w₂], ... | [u, vᵢ] ∈ E; wᵢ = w(u, vᵢ)
+   */
+  *iedges(u: number): IterableIterator<[number, E]> {
+    if (!this.hasVertex(u)) return;
+    for (var i=this._offsets[u], I=this._offsets[u+1]; i<I; ++i)
+      yield [this._targets[i], this._edgeValues[i]];
+  }
+
+
+  /**
+   * Obtain the outgoing edge IDs for the given vertex in graph.
+   * @param u source vertex
+   * @returns [v₀, v₁, v₂, ...] | [u, vᵢ] ∈ E
+   */
+  edgeKeys(u: number): number[] {
+    if (!this.hasVertex(u)) return [];
+    return Array.from(this._targets.subarray(this._offsets[u], this._offsets[u+1]));
+  }
+
+
+  /**
+   * List the outgoing edge IDs for the given vertex in graph.
+   * @param u source vertex
+   * @yields v₀, v₁, v₂, ... | [u, vᵢ] ∈ E
+   */
+  *iedgeKeys(u: number): IterableIterator<number> {
+    if (!this.hasVertex(u)) return;
+    yield* this._targets.subarray(this._offsets[u], this._offsets[u+1]);
+  }
+
+
+  /**
+   * Obtain the outgoing edge weights for the given vertex in graph.
+   * @param u source vertex
+   * @returns [w₀, w₁, w₂, ...] | [u, vᵢ] ∈ E; wᵢ = w(u, vᵢ)
+   */
+  edgeValues(u: number): E[] {
+    if (!this.hasVertex(u)) return [];
+    return this._edgeValues.slice(this._offsets[u], this._offsets[u+1]);
+  }
+
+
+  /**
+   * List the outgoing edge weights for the given vertex in graph.
+   * @param u source vertex
+   * @yields w₀, w₁, w₂, ... | [u, vᵢ] ∈ E; wᵢ = w(u, vᵢ)
+   */
+  *iedgeValues(u: number): IterableIterator<E> {
+    if (!this.hasVertex(u)) return;
+    for (var i=this._offsets[u], I=this._offsets[u+1]; i<I; ++i)
+      yield this._edgeValues[i];
+  }
+
+
+  /**
+   * Obtain the incoming edge IDs, and associated edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @returns [[u₀, w₀], [u₁, w₁], [u₂, w₂], ...] | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  inEdges(v: number): [number, E][] {
+    return [...this.iinEdges(v)];
+  }
+
+
+  /**
+   * List the incoming edge IDs, and associated edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @yields [u₀, w₀], [u₁, w₁], [u₂, w₂], ... | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  *iinEdges(v: number): IterableIterator<[number, E]> {
+    if (!this.hasVertex(v)) return;
+    for (var j=this._inOffsets[v], J=this._inOffsets[v+1]; j<J; ++j)
+      yield [this._sources[j], this._inEdgeValues[j]];
+  }
+
+
+  /**
+   * Obtain the incoming edge IDs for the given vertex in graph.
+   * @param v target vertex
+   * @returns [u₀, u₁, u₂, ...] | [uᵢ, v] ∈ E
+   */
+  inEdgeKeys(v: number): number[] {
+    if (!this.hasVertex(v)) return [];
+    return Array.from(this._sources.subarray(this._inOffsets[v], this._inOffsets[v+1]));
+  }
+
+
+  /**
+   * List the incoming edge IDs for the given vertex in graph.
+   * @param v target vertex
+   * @yields u₀, u₁, u₂, ... | [uᵢ, v] ∈ E
+   */
+  *iinEdgeKeys(v: number): IterableIterator<number> {
+    if (!this.hasVertex(v)) return;
+    yield* this._sources.subarray(this._inOffsets[v], this._inOffsets[v+1]);
+  }
+
+
+  /**
+   * Obtain the incoming edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @returns [w₀, w₁, w₂, ...] | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  inEdgeValues(v: number): E[] {
+    if (!this.hasVertex(v)) return [];
+    return this._inEdgeValues.slice(this._inOffsets[v], this._inOffsets[v+1]);
+  }
+
+
+  /**
+   * List the incoming edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @yields w₀, w₁, w₂, ... | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  *iinEdgeValues(v: number): IterableIterator<E> {
+    if (!this.hasVertex(v)) return;
+    for (var j=this._inOffsets[v], J=this._inOffsets[v+1]; j<J; ++j)
+      yield this._inEdgeValues[j];
+  }
+
+
+  /**
+   * Get the out-degree of a vertex in graph.
+   * @param u source vertex
+   * @returns D⁺ᵤ = |edges(u)|
+   */
+  degree(u: number): number {
+    if (!this.hasVertex(u)) return 0;
+    return this._offsets[u+1] - this._offsets[u];
+  }
+
+
+  /**
+   * Get the in-degree of a vertex in graph.
+   * @param v target vertex
+   * @returns D⁻ᵥ = |inEdges(v)|
+   */
+  inDegree(v: number): number {
+    if (!this.hasVertex(v)) return 0;
+    return this._inOffsets[v+1] - this._inOffsets[v];
+  }
+  // #endregion
+
+
+  // #region FOR EACH
+  // ----------------
+
+  /**
+   * Call a function for each vertex in graph.
+   * @param fn process function (v, d)
+   */
+  forEachVertex(fn: (v: number, d: V) => void): void {
+    for (var v=0, S=this.span(); v<S; ++v)
+      if (this._exists[v]) fn(v, this._values[v]);
+  }
+
+
+  /**
+   * Call a function for each outgoing edge of a vertex in graph.
+   * @param u source vertex
+   * @param fn process function (v, w)
+   */
+  forEachEdge(u: number, fn: (v: number, w: E) => void): void {
+    if (!this.hasVertex(u)) return;
+    for (var i=this._offsets[u], I=this._offsets[u+1]; i<I; ++i)
+      fn(this._targets[i], this._edgeValues[i]);
+  }
+
+
+  /**
+   * Call a function for each incoming edge of a vertex in graph.
+   * @param v target vertex
+   * @param fn process function (u, w)
+   */
+  forEachInEdge(v: number, fn: (u: number, w: E) => void): void {
+    if (!this.hasVertex(v)) return;
+    for (var j=this._inOffsets[v], J=this._inOffsets[v+1]; j<J; ++j)
+      fn(this._sources[j], this._inEdgeValues[j]);
+  }
+  // #endregion
+
+
+  // #region ACCESS
+  // --------------
+
+  /**
+   * Get the data associated with a vertex in graph.
+   * @param v vertex
+   * @returns dᵥ | v ∈ V
+   */
+  vertexValue(v: number): V {
+    return this.hasVertex(v)? this._values[v] : this._V;
+  }
+
+
+  /**
+   * Get the weight of an edge in graph.
+   * @param u source vertex
+   * @param v target vertex
+   * @returns wᵤᵥ | [u, v] ∈ E
+   */
+  edgeValue(u: number, v: number): E {
+    var i = this.edgeIndex(u, v);
+    return i>=0? this._edgeValues[i] : this._E;
+  }
+  // #endregion
+}
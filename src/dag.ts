@@ -0,0 +1,226 @@
+import {ReadonlyGraph, WeightFunction, DiGraph, edgeWeight} from "./index";
+import {ibfs} from "./traverse";
+import {MinHeap} from "./_heap";
+
+
+
+
+// #region TYPES
+// =============
+
+/**
+ * Compare two vertices, to order them.
+ * @param u a vertex
+ * @param v another vertex
+ * @returns u<v: -ve, u=v: 0, u>v: +ve
+ */
+export type CompareFunction = (u: number, v: number) => number;
+
+
+/** Topological order of a graph. */
+export interface TopologicalOrder {
+  /** Vertices, each before all of its out-neighbours (partial if cyclic). */
+  order: number[];
+  /** A cycle in the graph, if it is not acyclic. */
+  cycle: number[] | null;
+}
+
+
+/** Longest path in a directed acyclic graph. */
+export interface LongestPath {
+  /** Total weight of path. */
+  length: number;
+  /** Vertices along the path. */
+  path: number[];
+}
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/** Create an empty graph with the same default values. */
+function emptyLike<V, E>(x: ReadonlyGraph<V, E>): DiGraph<V, E> {
+  return new DiGraph<V, E>(x.vertexValue(-1), x.edgeValue(-1, -1));
+}
+
+
+/** Find a cycle among the given vertices, each with an in-edge from another. */
+function findCycle<V, E>(x: ReadonlyGraph<V, E>, remaining: Uint8Array, s: number): number[] {
+  // Walk back along in-edges until a vertex repeats.
+  var seen = new Map<number, number>(), walk: number[] = [];
+  for (var u=s; !seen.has(u);) {
+    seen.set(u, walk.length);
+    walk.push(u);
+    u = x.inEdgeKeys(u).find(t => remaining[t]===1)!;
+  }
+  return walk.slice(seen.get(u)).reverse();
+}
+
+
+/** Get topological order of graph, or throw if it has a cycle. */
+function topologicalOrderOrThrow<V, E>(x: ReadonlyGraph<V, E>): number[] {
+  var a = topologicalSort(x);
+  if (a.cycle) throw new Error("Graph has a cycle: " + a.cycle.join(" -> "));
+  return a.order;
+}
+// #endregion
+
+
+
+
+// #region TOPOLOGICAL SORT
+// ========================
+
+/**
+ * Sort vertices of a graph in topological order (Kahn's algorithm).
+ * @param x a graph
+ * @param fc compare function to pick among ready vertices (u, v)
+ * @returns {order, cycle}
+ */
+export function topologicalSort<V, E>(x: ReadonlyGraph<V, E>, fc: CompareFunction | null=null): TopologicalOrder {
+  var S = x.span(), ks = x.vertexKeys();
+  var degrees   = new Int32Array(S);
+  var remaining = new Uint8Array(S);
+  var heap  = fc? new MinHeap(fc) : null;
+  var queue: number[] = [], order: number[] = [];
+  for (var u of ks) {
+    degrees[u]   = x.inDegree(u);
+    remaining[u] = 1;
+    if (degrees[u]>0) continue;
+    if (heap) heap.push(u, 0);
+    else queue.push(u);
+  }
+  for (var i=0; heap? !heap.isEmpty() : i<queue.length; ++i) {
+    var u = heap? heap.pop() : queue[i];
+    remaining[u] = 0;
+    order.push(u);
+    x.forEachEdge(u, v => {
+      if (--degrees[v]>0) return;
+      if (heap) heap.push(v, 0);
+      else queue.push(v);
+    });
+  }
+  if (order.length===ks.length) return {order, cycle: null};
+  var s = ks.find(u => remaining[u]===1)!;
+  return {order, cycle: findCycle(x, remaining, s)};
+}
+
+
+/**
+ * Check if a graph is a directed acyclic graph.
+ * @param x a graph
+ * @returns true if graph has no cycle
+ */
+export function isAcyclic<V, E>(x: ReadonlyGraph<V, E>): boolean {
+  return topologicalSort(x).cycle===null;
+}
+// #endregion
+
+
+
+
+// #region DAG
+// ===========
+
+/**
+ * Find the longest path in a directed acyclic graph.
+ * @param x a graph
+ * @param fw weight function (w, u, v)
+ * @returns {length, path}
+ */
+export function longestPath<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E>=edgeWeight): LongestPath {
+  var S = x.span(), order = topologicalOrderOrThrow(x);
+  var distances = new Float64Array(S);
+  var parents   = new Int32Array(S).fill(-1);
+  var t = -1;
+  for (var u of order) {
+    var du = distances[u];
+    if (t<0 || du>distances[t]) t = u;
+    x.forEachEdge(u, (v, w) => {
+      var dv = du + fw(w, u, v);
+      if (dv<=distances[v]) return;
+      distances[v] = dv;
+      parents[v]   = u;
+    });
+  }
+  if (t<0) return {length: 0, path: []};
+  var path: number[] = [];
+  for (var v=t; v>=0; v=parents[v])
+    path.push(v);
+  return {length: distances[t], path: path.reverse()};
+}
+
+
+/**
+ * Find the transitive reduction of a directed acyclic graph.
+ * @param x a graph
+ * @returns G' | [u, v] ∈ E' if [u, v] ∈ E and v is not reachable from u otherwise
+ */
+export function transitiveReduction<V, E>(x: ReadonlyGraph<V, E>): DiGraph<V, E> {
+  topologicalOrderOrThrow(x);
+  var y = emptyLike(x);
+  x.forEachVertex((u, d) => y.addVertex(u, d));
+  var mark = new Int32Array(x.span()).fill(-1);
+  x.forEachVertex(u => {
+    // Mark vertices reachable from u through a path of length ≥ 2.
+    var stack: number[] = [];
+    x.forEachEdge(u, v => x.forEachEdge(v, t => {
+      if (mark[t]===u) return;
+      mark[t] = u;
+      stack.push(t);
+    }));
+    while (stack.length>0) {
+      x.forEachEdge(stack.pop()!, t => {
+        if (mark[t]===u) return;
+        mark[t] = u;
+        stack.push(t);
+      });
+    }
+    x.forEachEdge(u, (v, w) => { if (mark[v]!==u) y.addEdge(u, v, w); });
+  });
+  y.update();
+  return y;
+}
+
+
+/**
+ * Find the transitive closure of a graph.
+ * @param x a graph
+ * @returns G' | [u, v] ∈ E' if v is reachable from u; w'(u, v) = w(u, v)
+ */
+export function transitiveClosure<V, E>(x: ReadonlyGraph<V, E>): DiGraph<V, E> {
+  var y = emptyLike(x);
+  x.forEachVertex((u, d) => y.addVertex(u, d));
+  x.forEachVertex(u => {
+    for (var v of ibfs(x, x.edgeKeys(u)))
+      y.addEdge(u, v, x.edgeValue(u, v));
+  });
+  y.update();
+  return y;
+}
+
+
+/**
+ * Find the vertices from which a vertex is reachable.
+ * @param x a graph
+ * @param v target vertex
+ * @returns {u₀, u₁, ...} | v is reachable from uᵢ; uᵢ ≠ v unless on a cycle
+ */
+export function ancestors<V, E>(x: ReadonlyGraph<V, E>, v: number): Set<number> {
+  return new Set(ibfs(x, x.inEdgeKeys(v), {direction: "in"}));
+}
+
+
+/**
+ * Find the vertices reachable from a vertex.
+ * @param x a graph
+ * @param u source vertex
+ * @returns {v₀, v₁, ...} | vᵢ is reachable from u; vᵢ ≠ u unless on a cycle
+ */
+export function descendants<V, E>(x: ReadonlyGraph<V, E>, u: number): Set<number> {
+  return new Set(ibfs(x, x.edgeKeys(u)));
+}
+// #endregion
@@ -0,0 +1,241 @@
+import {ReadonlyGraph, DiGraph, Graph} from "./index";
+import {Attributes} from "./xml";
+import {buildGraph} from "./_build";
+
+
+
+
+// #region TYPES
+// =============
+
+/** Options for writing a graph as DOT. */
+export interface WriteDotOptions<V, E> {
+  /** Name of graph [none]. */
+  name?: string;
+  /** Attributes of graph, such as rankdir [none]. */
+  graphAttributes?: Attributes;
+  /** Get the attributes of a vertex, such as label, color, shape [none]. */
+  vertexAttributes?: (d: V, v: number) => Attributes;
+  /** Get the attributes of an edge, such as label, color, style [none]. */
+  edgeAttributes?: (w: E, u: number, v: number) => Attributes;
+}
+
+
+/** Options for reading a graph from DOT. */
+export interface ReadDotOptions<V, E> {
+  /** Get the vertex data from its attributes, and id in file [attributes]. */
+  vertexValue?: (a: Attributes, id: string) => V;
+  /** Get the edge weight from its attributes, and source and target ids in file [attributes]. */
+  edgeValue?: (a: Attributes, source: string, target: string) => E;
+  /** Default vertex data of graph [vertexValue({}, "")]. */
+  vertexDefault?: V;
+  /** Default edge weight of graph [edgeValue({}, "", "")]. */
+  edgeDefault?: E;
+}
+
+
+/** A token of DOT text, with its kind (id, quoted id, or punctuation). */
+type DotToken = ["id" | "quoted" | "punct", string];
+
+
+/** Default attributes of vertices and edges, in a graph or subgraph. */
+interface DotScope {
+  /** Default vertex attributes. */
+  node: Attributes;
+  /** Default edge attributes. */
+  edge: Attributes;
+}
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/** Write an ID in DOT, quoted if needed. */
+function dotId(s: string): string {
+  if (/^([A-Za-z_][A-Za-z_0-9]*|-?(\.[0-9]+|[0-9]+(\.[0-9]*)?))$/.test(s) && !/^(node|edge|graph|digraph|subgraph|strict)$/i.test(s)) return s;
+  return "\"" + s.replace(/"/g, "\\\"") + "\"";
+}
+
+
+/** Write an attribute list in DOT, if not empty. */
+function dotAttributes(a: Attributes | null): string {
+  var ts: string[] = [];
+  if (a) for (var k in a)
+    ts.push(dotId(k) + "=" + dotId(String(a[k])));
+  return ts.length>0? " [" + ts.join(", ") + "]" : "";
+}
+
+
+/** Split DOT text into tokens. */
+function tokenizeDot(text: string): DotToken[] {
+  var rskip   = /(?:\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/|(?<=^|\n)[ \t]*#[^\n]*)+/y;
+  var rpunct  = /->|--|[{}\[\];,=:]/y;
+  var rquoted = /"((?:[^"\\]|\\[\s\S])*)"/y;
+  var rid     = /[A-Za-z_\u0080-\uffff][A-Za-z_0-9\u0080-\uffff]*|-?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)/y;
+  var a: DotToken[] = [], m: RegExpExecArray | null;
+  for (var i=0, N=text.length; i<N;) {
+    rskip.lastIndex = i;
+    if (rskip.exec(text)) { i = rskip.lastIndex; continue; }
+    rpunct.lastIndex = i;
+    if ((m = rpunct.exec(text))) { a.push(["punct", m[0]]); i = rpunct.lastIndex; continue; }
+    rquoted.lastIndex = i;
+    if ((m = rquoted.exec(text))) {
+      var s = m[1].replace(/\\\r?\n/g, "").replace(/\\"/g, "\"");
+      // Join quoted strings concatenated with "+".
+      if (a.length>=2 && a[a.length-1][1]==="+" && a[a.length-2][0]==="quoted") { a.pop(); a[a.length-1][1] += s; }
+      else a.push(["quoted", s]);
+      i = rquoted.lastIndex;
+      continue;
+    }
+    if (text[i]==="+") { a.push(["punct", "+"]); ++i; continue; }
+    if (text[i]==="<") {
+      // HTML string, with nested <...>.
+      for (var d=0, j=i; j<N; ++j) {
+        if (text[j]==="<") ++d;
+        else if (text[j]===">" && --d===0) break;
+      }
+      if (j>=N) throw new Error("Unterminated DOT HTML string");
+      a.push(["quoted", text.slice(i+1, j)]);
+      i = j+1;
+      continue;
+    }
+    rid.lastIndex = i;
+    if ((m = rid.exec(text))) { a.push(["id", m[0]]); i = rid.lastIndex; continue; }
+    throw new Error("Unexpected DOT character: " + text[i]);
+  }
+  return a;
+}
+// #endregion
+
+
+
+
+// #region DOT
+// ===========
+
+/**
+ * Write a graph as DOT (Graphviz).
+ * @param x a graph
+ * @param opt write options {name, graphAttributes, vertexAttributes, edgeAttributes}
+ * @returns "digraph {...}" if directed, "graph {...}" otherwise
+ */
+export function writeDot<V, E>(x: ReadonlyGraph<V, E>, opt: WriteDotOptions<V, E>={}): string {
+  var fv = opt.vertexAttributes, fe = opt.edgeAttributes;
+  var directed = x.isDirected(), op = directed? " -> " : " -- ";
+  var a = (directed? "digraph" : "graph") + (opt.name!=null? " " + dotId(opt.name) : "") + " {\n";
+  var ga = opt.graphAttributes;
+  if (ga) for (var k in ga)
+    a += `  ${dotId(k)}=${dotId(String(ga[k]))};\n`;
+  x.forEachVertex((u, d) => a += `  ${u}${dotAttributes(fv? fv(d, u) : null)};\n`);
+  x.forEachVertex(u => x.forEachEdge(u, (v, w) => {
+    if (directed || u<=v) a += `  ${u}${op}${v}${dotAttributes(fe? fe(w, u, v) : null)};\n`;
+  }));
+  return a + "}\n";
+}
+
+
+/**
+ * Read a graph from DOT (Graphviz), with subgraphs flattened.
+ * @param text DOT text
+ * @param opt read options {vertexValue, edgeValue, vertexDefault, edgeDefault}
+ * @returns DiGraph if digraph, Graph otherwise; with vertex and edge attributes
+ */
+export function readDot<V=Attributes, E=Attributes>(text: string, opt: ReadDotOptions<V, E>={}): DiGraph<V, E> | Graph<V, E> {
+  var ts = tokenizeDot(text), i = 0;
+  var vs = new Map<string, Attributes>(), es: [string, string, Attributes][] = [];
+  var peek = (k=0): DotToken => ts[i+k] || ["punct", ""];
+  var isKeyword = (t: DotToken, s: string) => t[0]==="id" && t[1].toLowerCase()===s;
+  var expect = (s: string) => {
+    if (peek()[1]!==s || peek()[0]==="quoted") throw new Error("Expected in DOT: " + s + ", found: " + peek()[1]);
+    ++i;
+  };
+  var readId = () => {
+    var t = peek();
+    if (t[0]==="punct") throw new Error("Expected ID in DOT, found: " + t[1]);
+    ++i;
+    return t[1];
+  };
+  var readAttributes = () => {
+    var a: Attributes = {};
+    while (peek()[1]==="[" && peek()[0]==="punct") {
+      ++i;
+      while (peek()[1]!=="]") {
+        var k = readId();
+        expect("=");
+        a[k] = readId();
+        if (peek()[1]===";" || peek()[1]===",") ++i;
+      }
+      ++i;
+    }
+    return a;
+  };
+  var addVertex = (id: string, scope: DotScope) => {
+    if (!vs.has(id)) vs.set(id, Object.assign({}, scope.node));
+  };
+  // Read an edge endpoint (vertex or subgraph), and return its vertices.
+  var readEndpoint = (scope: DotScope): string[] => {
+    var t = peek();
+    if (isKeyword(t, "subgraph") || (t[0]==="punct" && t[1]==="{")) {
+      if (isKeyword(t, "subgraph")) ++i;
+      if (peek()[1]!=="{") ++i;
+      expect("{");
+      var ids = readStatements({node: Object.assign({}, scope.node), edge: Object.assign({}, scope.edge)});
+      expect("}");
+      return ids;
+    }
+    var id = readId();
+    // Ignore port and compass point.
+    while (peek()[1]===":" && peek()[0]==="punct") { ++i; readId(); }
+    addVertex(id, scope);
+    return [id];
+  };
+  // Read statements of a graph or subgraph, and return the vertices mentioned.
+  var readStatements = (scope: DotScope): string[] => {
+    var ids: string[] = [];
+    while (i<ts.length && !(peek()[0]==="punct" && peek()[1]==="}")) {
+      var t = peek();
+      if (t[0]==="punct" && t[1]===";") { ++i; continue; }
+      if ((isKeyword(t, "graph") || isKeyword(t, "node") || isKeyword(t, "edge")) && peek(1)[1]==="[") {
+        ++i;
+        var a = readAttributes();
+        if (isKeyword(t, "node")) Object.assign(scope.node, a);
+        if (isKeyword(t, "edge")) Object.assign(scope.edge, a);
+        continue;
+      }
+      if (t[0]!=="punct" && peek(1)[0]==="punct" && peek(1)[1]==="=") { i += 3; continue; }
+      var chain = [readEndpoint(scope)];
+      while (peek()[0]==="punct" && (peek()[1]==="->" || peek()[1]==="--")) {
+        ++i;
+        chain.push(readEndpoint(scope));
+      }
+      var a = readAttributes();
+      for (var c of chain)
+        ids.push(...c);
+      if (chain.length===1) {
+        for (var id of chain[0])
+          Object.assign(vs.get(id)!, a);
+        continue;
+      }
+      for (var j=1; j<chain.length; ++j)
+        for (var s of chain[j-1])
+          for (var d of chain[j])
+            es.push([s, d, Object.assign({}, scope.edge, a)]);
+    }
+    return ids;
+  };
+  if (isKeyword(peek(), "strict")) ++i;
+  var directed = isKeyword(peek(), "digraph");
+  if (!directed && !isKeyword(peek(), "graph")) throw new Error("Expected DOT graph or digraph, found: " + peek()[1]);
+  ++i;
+  if (peek()[1]!=="{" || peek()[0]!=="punct") ++i;
+  expect("{");
+  readStatements({node: {}, edge: {}});
+  expect("}");
+  var fv = opt.vertexValue || (a => a as unknown as V);
+  var fe = opt.edgeValue   || (a => a as unknown as E);
+  return buildGraph(directed, {}, {}, [...vs], es, fv, fe, opt.vertexDefault, opt.edgeDefault);
+}
+// #endregion
@@ -0,0 +1,495 @@
+import {ReadonlyGraph, WeightFunction, DiGraph, edgeWeight} from "./index";
+import {neighbours} from "./traverse";
+import {MinHeap} from "./_heap";
+
+
+
+
+// #region TYPES
+// =============
+
+/** Maximum flow from a source to a sink, with a minimum cut. */
+export interface MaxFlow<V> {
+  /** Total flow from source to sink. */
+  value: number;
+  /** Flow on each edge with positive flow, in its direction of flow (other edges are absent). */
+  flows: DiGraph<V, number>;
+  /** Vertices on source side of minimum cut (reachable from source in residual graph). */
+  sourceSide: number[];
+  /** Saturated edges from source side to sink side, forming the minimum cut. */
+  cutEdges: [number, number][];
+}
+
+
+/** Minimum cost maximum flow from a source to a sink. */
+export interface MinCostFlow<V> extends MaxFlow<V> {
+  /** Total cost of flow. */
+  cost: number;
+}
+
+
+/** Maximum matching of a bipartite graph. */
+export interface Matching {
+  /** Number of matched pairs. */
+  size: number;
+  /** Vertex matched with each vertex (-1 if unmatched, or not a vertex). */
+  mates: Int32Array;
+}
+
+
+/**
+ * Residual network of a graph, with arcs in pairs (arc i, and its reverse i^1).
+ * Edges of a directed graph have reverse arcs of zero capacity, and
+ * those of an undirected graph have reverse arcs of the same capacity (unless split, with costs).
+ */
+interface Network {
+  /** First arc from each vertex (-1 if none). */
+  heads: Int32Array;
+  /** Next arc from the same vertex (-1 if none). */
+  nexts: Int32Array;
+  /** Target vertex of each arc. */
+  targets: Int32Array;
+  /** Original capacity of each arc. */
+  capacities: Float64Array;
+  /** Residual capacity of each arc. */
+  residuals: Float64Array;
+  /** Cost per unit of flow on each arc. */
+  costs: Float64Array;
+}
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/** Build the residual network of a graph, with capacities (and costs). */
+function createNetwork<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E>, fk: WeightFunction<E> | null=null): Network {
+  var directed = x.isDirected(), M = 0;
+  // With costs, each direction of an undirected edge needs its own pair of arcs.
+  var split = fk!=null && !directed;
+  x.forEachVertex(u => x.forEachEdge(u, v => { if (directed || u<v) M += split? 4 : 2; }));
+  var a: Network = {
+    heads:      new Int32Array(x.span()).fill(-1),
+    nexts:      new Int32Array(M),
+    targets:    new Int32Array(M),
+    capacities: new Float64Array(M),
+    residuals:  new Float64Array(M),
+    costs:      new Float64Array(M),
+  };
+  var i = 0;
+  var addArc = (u: number, v: number, c: number, k: number) => {
+    a.targets[i] = v;
+    a.capacities[i] = a.residuals[i] = c;
+    a.costs[i] = k;
+    a.nexts[i] = a.heads[u];
+    a.heads[u] = i++;
+  };
+  x.forEachVertex(u => x.forEachEdge(u, (v, w) => {
+    if (!directed && u>=v) return;
+    var c = fw(w, u, v), k = fk? fk(w, u, v) : 0;
+    addArc(u, v, c, k);
+    addArc(v, u, directed || split? 0 : c, -k);
+    if (!split) return;
+    addArc(v, u, c, k);
+    addArc(u, v, 0, -k);
+  }));
+  return a;
+}
+
+
+/** Ensure source and sink are distinct vertices of a graph. */
+function checkTerminals<V, E>(x: ReadonlyGraph<V, E>, s: number, t: number): void {
+  if (!x.hasVertex(s)) throw new Error("Source is not a vertex: " + s);
+  if (!x.hasVertex(t)) throw new Error("Sink is not a vertex: " + t);
+  if (s===t) throw new Error("Source and sink must be distinct: " + s);
+}
+
+
+/** Find a path from source to sink in residual network, as the arc into each vertex (-1 if unreached). */
+function bfsPath(a: Network, s: number, t: number): Int32Array {
+  var via = new Int32Array(a.heads.length).fill(-1);
+  var queue = [s], seen = new Uint8Array(a.heads.length);
+  seen[s] = 1;
+  for (var q=0; q<queue.length && !seen[t]; ++q) {
+    var u = queue[q];
+    for (var i=a.heads[u]; i>=0; i=a.nexts[i]) {
+      var v = a.targets[i];
+      if (seen[v] || a.residuals[i]<=0) continue;
+      seen[v] = 1;
+      via[v] = i;
+      queue.push(v);
+    }
+  }
+  return via;
+}
+
+
+/** Push flow along a path (given by arc into each vertex), and return the amount pushed. */
+function augmentPath(a: Network, via: Int32Array, s: number, t: number): number {
+  var f = Infinity;
+  for (var v=t; v!==s; v=a.targets[via[v]^1])
+    f = Math.min(f, a.residuals[via[v]]);
+  for (var v=t; v!==s; v=a.targets[via[v]^1]) {
+    a.residuals[via[v]]   -= f;
+    a.residuals[via[v]^1] += f;
+  }
+  return f;
+}
+
+
+/** Get the flows and minimum cut of a residual network, after a maximum flow. */
+function flowResult<V, E>(x: ReadonlyGraph<V, E>, a: Network, s: number, value: number): MaxFlow<V> {
+  var directed = x.isDirected(), S = x.span();
+  var flows = new DiGraph<V, number>(x.vertexValue(-1), 0);
+  x.forEachVertex((u, d) => flows.addVertex(u, d));
+  for (var i=0, I=a.targets.length; i<I; i+=2) {
+    var u = a.targets[i^1], v = a.targets[i];
+    // Flow of an undirected edge is negative, if it goes from v to u.
+    var f = a.capacities[i] - a.residuals[i];
+    if (f>0) flows.addEdge(u, v, f);
+    else if (f<0 && !directed) flows.addEdge(v, u, -f);
+  }
+  flows.update();
+  // Vertices reachable from source in residual network form the source side.
+  var side = new Uint8Array(S), sourceSide = [s];
+  side[s] = 1;
+  for (var q=0; q<sourceSide.length; ++q) {
+    var u = sourceSide[q];
+    for (var i=a.heads[u]; i>=0; i=a.nexts[i]) {
+      var v = a.targets[i];
+      if (side[v] || a.residuals[i]<=0) continue;
+      side[v] = 1;
+      sourceSide.push(v);
+    }
+  }
+  sourceSide.sort((u, v) => u - v);
+  var cutEdges: [number, number][] = [];
+  for (var i=0, I=a.targets.length; i<I; ++i) {
+    if (a.capacities[i]<=0) continue;
+    var u = a.targets[i^1], v = a.targets[i];
+    if (side[u] && !side[v]) cutEdges.push([u, v]);
+  }
+  return {value, flows, sourceSide, cutEdges};
+}
+// #endregion
+
+
+
+
+// #region MAXIMUM FLOW
+// ====================
+
+/**
+ * Find a maximum flow from source to sink (Edmonds-Karp algorithm).
+ * @param x a graph (undirected edges carry flow either way)
+ * @param s source vertex
+ * @param t sink vertex
+ * @param fw capacity function (w, u, v)
+ * @returns {value, flows, sourceSide, cutEdges}
+ */
+export function edmondsKarp<V, E>(x: ReadonlyGraph<V, E>, s: number, t: number, fw: WeightFunction<E>=edgeWeight): MaxFlow<V> {
+  checkTerminals(x, s, t);
+  var a = createNetwork(x, fw), value = 0;
+  for (var via=bfsPath(a, s, t); via[t]>=0; via=bfsPath(a, s, t))
+    value += augmentPath(a, via, s, t);
+  return flowResult(x, a, s, value);
+}
+
+
+/**
+ * Find a maximum flow from source to sink (Dinic's algorithm).
+ * @param x a graph (undirected edges carry flow either way)
+ * @param s source vertex
+ * @param t sink vertex
+ * @param fw capacity function (w, u, v)
+ * @returns {value, flows, sourceSide, cutEdges}
+ */
+export function dinic<V, E>(x: ReadonlyGraph<V, E>, s: number, t: number, fw: WeightFunction<E>=edgeWeight): MaxFlow<V> {
+  checkTerminals(x, s, t);
+  var a = createNetwork(x, fw), value = 0;
+  var S = x.span();
+  var levels = new Int32Array(S);
+  var via = new Int32Array(S);
+  while (true) {
+    // Build level graph with BFS from source.
+    levels.fill(-1);
+    levels[s] = 0;
+    var queue = [s];
+    for (var q=0; q<queue.length; ++q) {
+      var u = queue[q];
+      for (var i=a.heads[u]; i>=0; i=a.nexts[i]) {
+        var v = a.targets[i];
+        if (levels[v]>=0 || a.residuals[i]<=0) continue;
+        levels[v] = levels[u] + 1;
+        queue.push(v);
+      }
+    }
+    if (levels[t]<0) break;
+    // Find a blocking flow with DFS, remembering the current arc of each vertex.
+    var next = a.heads.slice();
+    var u = s;
+    while (true) {
+      if (u===t) {
+        value += augmentPath(a, via, s, t);
+        u = s;
+        continue;
+      }
+      var i = next[u];
+      while (i>=0 && (a.residuals[i]<=0 || levels[a.targets[i]]!==levels[u]+1))
+        i = next[u] = a.nexts[i];
+      if (i>=0) {
+        via[a.targets[i]] = i;
+        u = a.targets[i];
+        continue;
+      }
+      // Dead end, so remove u from level graph, and retreat.
+      if (u===s) break;
+      levels[u] = -1;
+      u = a.targets[via[u]^1];
+      next[u] = a.nexts[next[u]];
+    }
+  }
+  return flowResult(x, a, s, value);
+}
+
+
+/**
+ * Find a maximum flow from source to sink (FIFO push-relabel algorithm, with global relabelling).
+ * @param x a graph (undirected edges carry flow either way)
+ * @param s source vertex
+ * @param t sink vertex
+ * @param fw capacity function (w, u, v)
+ * @returns {value, flows, sourceSide, cutEdges}
+ */
+export function pushRelabel<V, E>(x: ReadonlyGraph<V, E>, s: number, t: number, fw: WeightFunction<E>=edgeWeight): MaxFlow<V> {
+  checkTerminals(x, s, t);
+  var a = createNetwork(x, fw);
+  var S = x.span();
+  var heights = new Int32Array(S);
+  var excess  = new Float64Array(S);
+  var next = a.heads.slice();
+  var queue: number[] = [];
+  var push = (i: number, f: number) => {
+    var u = a.targets[i^1], v = a.targets[i];
+    a.residuals[i]   -= f;
+    a.residuals[i^1] += f;
+    excess[u] -= f;
+    if (excess[v]<=0 && f>0 && v!==s && v!==t) queue.push(v);
+    excess[v] += f;
+  };
+  // Set each height to residual distance to sink (or to source, plus S), with BFS.
+  var label = (r: number) => {
+    var bfs = [r];
+    for (var b=0; b<bfs.length; ++b) {
+      var v = bfs[b];
+      for (var j=a.heads[v]; j>=0; j=a.nexts[j]) {
+        var u = a.targets[j];
+        if (heights[u]<2*S || a.residuals[j^1]<=0) continue;
+        heights[u] = heights[v] + 1;
+        bfs.push(u);
+      }
+    }
+  };
+  var globalRelabel = () => {
+    heights.fill(2*S);
+    heights[s] = S;
+    heights[t] = 0;
+    label(t);
+    label(s);
+    next.set(a.heads);
+  };
+  // Saturate all arcs from source.
+  for (var i=a.heads[s]; i>=0; i=a.nexts[i])
+    if (a.residuals[i]>0) push(i, a.residuals[i]);
+  globalRelabel();
+  for (var q=0, relabels=0; q<queue.length; ++q) {
+    var u = queue[q];
+    // Discharge u, relabelling it when it has no admissible arc left.
+    while (excess[u]>0) {
+      var i = next[u];
+      if (i<0) {
+        if (++relabels>=S) { globalRelabel(); relabels = 0; continue; }
+        var h = Infinity;
+        for (var j=a.heads[u]; j>=0; j=a.nexts[j])
+          if (a.residuals[j]>0) h = Math.min(h, heights[a.targets[j]]);
+        heights[u] = h + 1;
+        next[u] = a.heads[u];
+        continue;
+      }
+      var v = a.targets[i];
+      if (a.residuals[i]>0 && heights[u]===heights[v]+1) push(i, Math.min(excess[u], a.residuals[i]));
+      else next[u] = a.nexts[i];
+    }
+    // Free processed entries of queue, now and then.
+    if (q>=65536) { queue.splice(0, q+1); q = -1; }
+  }
+  return flowResult(x, a, s, excess[t]);
+}
+
+
+/**
+ * Find a maximum flow of minimum cost from source to sink (successive shortest paths).
+ * @param x a graph (without negative-cost cycles; undirected edges carry flow either way)
+ * @param s source vertex
+ * @param t sink vertex
+ * @param fk cost function, per unit of flow (w, u, v)
+ * @param fw capacity function (w, u, v)
+ * @returns {value, cost, flows, sourceSide, cutEdges}
+ */
+export function minCostMaxFlow<V, E>(x: ReadonlyGraph<V, E>, s: number, t: number, fk: WeightFunction<E>, fw: WeightFunction<E>=edgeWeight): MinCostFlow<V> {
+  checkTerminals(x, s, t);
+  if (!x.isDirected()) {
+    var negative = false;
+    x.forEachVertex(u => x.forEachEdge(u, (v, w) => { if (fk(w, u, v)<0) negative = true; }));
+    if (negative) throw new Error("Undirected edges with negative cost form negative-cost cycles");
+  }
+  var a = createNetwork(x, fw, fk);
+  var S = x.span(), M = a.targets.length;
+  // Vertex potentials keep reduced costs non-negative (start with Bellman-Ford).
+  var potentials = new Float64Array(S).fill(Infinity);
+  potentials[s] = 0;
+  for (var k=1, changed=true; k<S && changed; ++k) {
+    changed = false;
+    for (var i=0; i<M; ++i) {
+      var u = a.targets[i^1], v = a.targets[i];
+      if (a.residuals[i]<=0 || potentials[u]===Infinity) continue;
+      if (potentials[u] + a.costs[i] >= potentials[v]) continue;
+      potentials[v] = potentials[u] + a.costs[i];
+      changed = true;
+    }
+  }
+  for (var v=0; v<S; ++v)
+    if (potentials[v]===Infinity) potentials[v] = 0;
+  var value = 0, cost = 0;
+  var distances = new Float64Array(S);
+  var via = new Int32Array(S);
+  var heap = new MinHeap();
+  while (true) {
+    // Find shortest path by reduced cost (Dijkstra).
+    distances.fill(Infinity);
+    via.fill(-1);
+    distances[s] = 0;
+    heap.clear();
+    heap.push(s, 0);
+    while (!heap.isEmpty()) {
+      var d = heap.peekPriority(), u = heap.pop();
+      if (d>distances[u]) continue;
+      for (var i=a.heads[u]; i>=0; i=a.nexts[i]) {
+        if (a.residuals[i]<=0) continue;
+        var v = a.targets[i];
+        var dv = d + a.costs[i] + potentials[u] - potentials[v];
+        if (dv>=distances[v]) continue;
+        distances[v] = dv;
+        via[v] = i;
+        heap.push(v, dv);
+      }
+    }
+    if (distances[t]===Infinity) break;
+    for (var v=0; v<S; ++v)
+      if (distances[v]<Infinity) potentials[v] += distances[v];
+    var f = augmentPath(a, via, s, t);
+    value += f;
+    for (var v=t; v!==s; v=a.targets[via[v]^1])
+      cost += f * a.costs[via[v]];
+  }
+  var b = flowResult(x, a, s, value);
+  return {value, cost, flows: b.flows, sourceSide: b.sourceSide, cutEdges: b.cutEdges};
+}
+// #endregion
+
+
+
+
+// #region MATCHING
+// ================
+
+/**
+ * Find a maximum matching of a bipartite graph (Hopcroft-Karp algorithm).
+ * @param x a bipartite graph (edge directions are ignored)
+ * @param left vertices on one side [found by 2-colouring]
+ * @returns {size, mates}
+ */
+export function hopcroftKarp<V, E>(x: ReadonlyGraph<V, E>, left: number[] | null=null): Matching {
+  var S = x.span();
+  var adjacent: number[][] = [];
+  x.forEachVertex(u => adjacent[u] = neighbours(x, u, "both"));
+  // Split vertices into two sides, by 2-colouring each component (if needed).
+  var sides = new Int8Array(S).fill(-1);
+  if (left) {
+    x.forEachVertex(u => sides[u] = 1);
+    for (var u of left)
+      if (x.hasVertex(u)) sides[u] = 0;
+  }
+  else x.forEachVertex(r => {
+    if (sides[r]>=0) return;
+    sides[r] = 0;
+    var stack = [r];
+    while (stack.length>0) {
+      var u = stack.pop()!;
+      for (var v of adjacent[u]) {
+        if (sides[v]===sides[u]) throw new Error("Graph is not bipartite, at edge: " + u + ", " + v);
+        if (sides[v]>=0) continue;
+        sides[v] = 1 - sides[u];
+        stack.push(v);
+      }
+    }
+  });
+  var us: number[] = [];
+  x.forEachVertex(u => {
+    if (sides[u]!==0) return;
+    us.push(u);
+    for (var v of adjacent[u])
+      if (sides[v]===0) throw new Error("Edge within one side of bipartite graph: " + u + ", " + v);
+  });
+  var mates = new Int32Array(S).fill(-1), size = 0;
+  var levels = new Int32Array(S);
+  var next = new Int32Array(S);
+  var path: number[] = [];
+  while (true) {
+    // Layer left vertices by BFS from the free ones, along alternating paths.
+    var queue: number[] = [], found = false;
+    levels.fill(-1);
+    for (var u of us)
+      if (mates[u]<0) { levels[u] = 0; queue.push(u); }
+    for (var q=0; q<queue.length; ++q) {
+      var u = queue[q];
+      for (var v of adjacent[u]) {
+        var w = mates[v];
+        if (w<0) found = true;
+        else if (levels[w]<0) { levels[w] = levels[u] + 1; queue.push(w); }
+      }
+    }
+    if (!found) break;
+    // Find vertex-disjoint shortest augmenting paths with DFS.
+    next.fill(0);
+    for (var r of us) {
+      if (mates[r]>=0) continue;
+      path.length = 0;
+      path.push(r);
+      while (path.length>0) {
+        var u = path[path.length-1], vs = adjacent[u];
+        if (next[u]>=vs.length) {
+          levels[u] = -1;
+          path.pop();
+          continue;
+        }
+        var v = vs[next[u]++], w = mates[v];
+        if (w>=0 && levels[w]!==levels[u]+1) continue;
+        if (w>=0) { path.push(w); continue; }
+        // Augment: flip matching along path, ending at free vertex v.
+        for (var j=path.length-1; j>=0; --j) {
+          var p = path[j], m = mates[p];
+          mates[p] = v;
+          mates[v] = p;
+          v = m;
+        }
+        ++size;
+        break;
+      }
+    }
+  }
+  return {size, mates};
+}
+// #endregion
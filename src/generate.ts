@@ -0,0 +1,355 @@
+import {MutableGraph} from "./index";
+import {createRandom} from "./_random";
+
+
+
+
+// #region TYPES
+// =============
+
+/** Options for generating a graph. */
+export interface GenerateOptions<V, E> {
+  /** Seed for random choices, where used [0]. */
+  seed?: number;
+  /** Get the data of a vertex [default vertex data]. */
+  vertexValue?: (v: number) => V;
+  /** Get the weight of an edge [default edge weight]. */
+  edgeValue?: (u: number, v: number) => E;
+}
+
+
+/** Options for generating a grid graph. */
+export interface GridOptions<V, E> extends GenerateOptions<V, E> {
+  /** Whether to wrap around rows and columns, as a torus [false]. */
+  periodic?: boolean;
+}
+
+
+/** Options for generating an R-MAT graph. */
+export interface RmatOptions<V, E> extends GenerateOptions<V, E> {
+  /** Probability of an edge falling in top-left quadrant [0.57]. */
+  a?: number;
+  /** Probability of an edge falling in top-right quadrant [0.19]. */
+  b?: number;
+  /** Probability of an edge falling in bottom-left quadrant [0.19]. */
+  c?: number;
+}
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/** Add vertices [0, n) to a graph. */
+function addVertices<V, E>(x: MutableGraph<V, E>, n: number, opt: GenerateOptions<V, E>): void {
+  var fv = opt.vertexValue, _V = x.vertexValue(-1);
+  for (var u=0; u<n; ++u)
+    x.addVertex(u, fv? fv(u) : _V);
+}
+
+
+/** Get a function to add an edge to a graph, with its weight. */
+function edgeAdder<V, E>(x: MutableGraph<V, E>, opt: GenerateOptions<V, E>): (u: number, v: number) => void {
+  var fe = opt.edgeValue, _E = x.edgeValue(-1, -1);
+  return (u, v) => x.addEdge(u, v, fe? fe(u, v) : _E);
+}
+
+
+/** Get a random integer in [0, n). */
+function randomInt(fr: () => number, n: number): number {
+  return Math.floor(fr() * n);
+}
+// #endregion
+
+
+
+
+// #region CLASSIC
+// ===============
+
+/**
+ * Generate a complete graph.
+ * @param x target graph
+ * @param n number of vertices
+ * @param opt generate options {vertexValue, edgeValue}
+ * @returns x | [u, v] ∈ E for all u ≠ v (both directions, if directed)
+ */
+export function completeGraph<V, E, G extends MutableGraph<V, E>>(x: G, n: number, opt: GenerateOptions<V, E>={}): G {
+  var directed = x.isDirected(), add = edgeAdder(x, opt);
+  addVertices(x, n, opt);
+  for (var u=0; u<n; ++u) {
+    for (var v=u+1; v<n; ++v) {
+      add(u, v);
+      if (directed) add(v, u);
+    }
+  }
+  x.update();
+  return x;
+}
+
+
+/**
+ * Generate a path graph.
+ * @param x target graph
+ * @param n number of vertices
+ * @param opt generate options {vertexValue, edgeValue}
+ * @returns x | [u, u+1] ∈ E (one direction only, if directed)
+ */
+export function pathGraph<V, E, G extends MutableGraph<V, E>>(x: G, n: number, opt: GenerateOptions<V, E>={}): G {
+  var add = edgeAdder(x, opt);
+  addVertices(x, n, opt);
+  for (var u=0; u+1<n; ++u)
+    add(u, u+1);
+  x.update();
+  return x;
+}
+
+
+/**
+ * Generate a cycle graph.
+ * @param x target graph
+ * @param n number of vertices
+ * @param opt generate options {vertexValue, edgeValue}
+ * @returns x | [u, (u+1) mod n] ∈ E (one direction only, if directed)
+ */
+export function cycleGraph<V, E, G extends MutableGraph<V, E>>(x: G, n: number, opt: GenerateOptions<V, E>={}): G {
+  var add = edgeAdder(x, opt);
+  addVertices(x, n, opt);
+  for (var u=0; u+1<n; ++u)
+    add(u, u+1);
+  if (n>1) add(n-1, 0);
+  x.update();
+  return x;
+}
+
+
+/**
+ * Generate a star graph.
+ * @param x target graph
+ * @param n number of vertices (including center 0)
+ * @param opt generate options {vertexValue, edgeValue}
+ * @returns x | [0, v] ∈ E for all v ≠ 0 (outward only, if directed)
+ */
+export function starGraph<V, E, G extends MutableGraph<V, E>>(x: G, n: number, opt: GenerateOptions<V, E>={}): G {
+  var add = edgeAdder(x, opt);
+  addVertices(x, n, opt);
+  for (var v=1; v<n; ++v)
+    add(0, v);
+  x.update();
+  return x;
+}
+
+
+/**
+ * Generate a 2D grid (lattice) graph.
+ * @param x target graph
+ * @param rows number of rows
+ * @param cols number of columns
+ * @param opt grid options {periodic, vertexValue, edgeValue}
+ * @returns x | vertex r×cols + c; edges to right and lower neighbours (one direction only, if directed)
+ */
+export function gridGraph<V, E, G extends MutableGraph<V, E>>(x: G, rows: number, cols: number, opt: GridOptions<V, E>={}): G {
+  var add = edgeAdder(x, opt);
+  addVertices(x, rows * cols, opt);
+  for (var r=0; r<rows; ++r) {
+    for (var c=0; c<cols; ++c) {
+      var u = r*cols + c;
+      if (c+1<cols) add(u, u+1);
+      else if (opt.periodic && cols>2) add(u, r*cols);
+      if (r+1<rows) add(u, u+cols);
+      else if (opt.periodic && rows>2) add(u, c);
+    }
+  }
+  x.update();
+  return x;
+}
+// #endregion
+
+
+
+
+// #region RANDOM
+// ==============
+
+/**
+ * Generate an Erdős–Rényi random graph G(n, p).
+ * @param x target graph
+ * @param n number of vertices
+ * @param p probability of each edge (u ≠ v)
+ * @param opt generate options {seed, vertexValue, edgeValue}
+ * @returns x | each ordered pair [u, v] is an edge with probability p, if directed
+ */
+export function erdosRenyiGraph<V, E, G extends MutableGraph<V, E>>(x: G, n: number, p: number, opt: GenerateOptions<V, E>={}): G {
+  var fr = createRandom(opt.seed || 0), add = edgeAdder(x, opt);
+  var directed = x.isDirected();
+  addVertices(x, n, opt);
+  if (p>0 && n>1) {
+    // Skip over pairs with geometric jumps (Batagelj & Brandes).
+    var P = directed? n*(n-1) : n*(n-1)/2, lp = Math.log(1-p);
+    for (var k = -1;;) {
+      k += 1 + (p<1? Math.floor(Math.log(1-fr()) / lp) : 0);
+      if (k>=P) break;
+      if (directed) {
+        var u = Math.floor(k/(n-1)), j = k % (n-1);
+        add(u, j<u? j : j+1);
+      }
+      else {
+        // Pair k is (v, w) with w < v, in order of v.
+        var v = Math.floor((1 + Math.sqrt(1 + 8*k)) / 2);
+        while (v*(v-1)/2>k) --v;
+        while ((v+1)*v/2<=k) ++v;
+        add(v, k - v*(v-1)/2);
+      }
+    }
+  }
+  x.update();
+  return x;
+}
+
+
+/**
+ * Generate a uniform random graph G(n, m).
+ * @param x target graph
+ * @param n number of vertices
+ * @param m number of edges (u ≠ v)
+ * @param opt generate options {seed, vertexValue, edgeValue}
+ * @returns x | m ordered pairs [u, v] as edges, if directed
+ */
+export function randomGraph<V, E, G extends MutableGraph<V, E>>(x: G, n: number, m: number, opt: GenerateOptions<V, E>={}): G {
+  var fr = createRandom(opt.seed || 0), add = edgeAdder(x, opt);
+  var directed = x.isDirected();
+  var P = directed? n*(n-1) : n*(n-1)/2;
+  if (m>P) throw new Error("Too many edges for G(n, m): " + m + " > " + P);
+  addVertices(x, n, opt);
+  // Pick the edges to add, or those to leave out (if m is more than half).
+  var pick = m<=P/2? m : P-m, picked = new Set<number>();
+  var key = (u: number, v: number) => directed || u<v? u*n + v : v*n + u;
+  while (picked.size<pick) {
+    var u = randomInt(fr, n), v = randomInt(fr, n);
+    if (u!==v) picked.add(key(u, v));
+  }
+  if (pick===m) {
+    for (var k of picked)
+      add(Math.floor(k/n), k % n);
+  }
+  else {
+    for (var u=0; u<n; ++u)
+      for (var v=directed? 0 : u+1; v<n; ++v)
+        if (u!==v && !picked.has(key(u, v))) add(u, v);
+  }
+  x.update();
+  return x;
+}
+
+
+/**
+ * Generate a Barabási–Albert preferential attachment graph.
+ * @param x target graph
+ * @param n number of vertices
+ * @param m number of edges from each new vertex to existing ones
+ * @param opt generate options {seed, vertexValue, edgeValue}
+ * @returns x | starts with a star on m+1 vertices; edges from each new vertex (one direction only, if directed)
+ */
+export function barabasiAlbertGraph<V, E, G extends MutableGraph<V, E>>(x: G, n: number, m: number, opt: GenerateOptions<V, E>={}): G {
+  if (m<1 || m>=n) throw new Error("Invalid Barabási–Albert edges per vertex: " + m);
+  var fr = createRandom(opt.seed || 0), add = edgeAdder(x, opt);
+  addVertices(x, n, opt);
+  // Each vertex appears once per incident edge, for sampling by degree.
+  var repeated: number[] = [];
+  for (var v=1; v<=m; ++v) {
+    add(v, 0);
+    repeated.push(0, v);
+  }
+  var targets = new Set<number>();
+  for (var u=m+1; u<n; ++u) {
+    targets.clear();
+    while (targets.size<m)
+      targets.add(repeated[randomInt(fr, repeated.length)]);
+    for (var v of targets) {
+      add(u, v);
+      repeated.push(u, v);
+    }
+  }
+  x.update();
+  return x;
+}
+
+
+/**
+ * Generate a Watts–Strogatz small-world graph.
+ * @param x target graph
+ * @param n number of vertices
+ * @param k number of nearest neighbours in ring (even)
+ * @param p probability of rewiring each edge
+ * @param opt generate options {seed, vertexValue, edgeValue}
+ * @returns x | n×k/2 edges [u, v] with u < v (one direction only, if directed)
+ */
+export function wattsStrogatzGraph<V, E, G extends MutableGraph<V, E>>(x: G, n: number, k: number, p: number, opt: GenerateOptions<V, E>={}): G {
+  if (k>=n) throw new Error("Invalid Watts–Strogatz neighbours: " + k);
+  var fr = createRandom(opt.seed || 0), add = edgeAdder(x, opt);
+  // Build ring lattice, with each vertex joined to k/2 neighbours on each side.
+  var adj: Set<number>[] = [];
+  for (var u=0; u<n; ++u)
+    adj.push(new Set());
+  for (var j=1; j<=k/2; ++j) {
+    for (var u=0; u<n; ++u) {
+      adj[u].add((u+j) % n);
+      adj[(u+j) % n].add(u);
+    }
+  }
+  // Rewire each edge [u, u+j] to [u, w], with w chosen at random.
+  for (var j=1; j<=k/2; ++j) {
+    for (var u=0; u<n; ++u) {
+      var v = (u+j) % n;
+      if (fr()<p && adj[u].size<n-1) {
+        var w = randomInt(fr, n);
+        while (w===u || adj[u].has(w))
+          w = randomInt(fr, n);
+        adj[u].delete(v); adj[v].delete(u);
+        adj[u].add(w);    adj[w].add(u);
+      }
+    }
+  }
+  // Add the final edges, each once.
+  addVertices(x, n, opt);
+  for (var u=0; u<n; ++u)
+    for (var v of adj[u])
+      if (u<v) add(u, v);
+  x.update();
+  return x;
+}
+
+
+/**
+ * Generate an R-MAT (recursive matrix, or Kronecker) random graph.
+ * @param x target graph
+ * @param scale log₂ of number of vertices
+ * @param edgeFactor number of edges sampled per vertex (duplicates merge)
+ * @param opt R-MAT options {a, b, c, seed, vertexValue, edgeValue}
+ * @returns x
+ */
+export function rmatGraph<V, E, G extends MutableGraph<V, E>>(x: G, scale: number, edgeFactor: number, opt: RmatOptions<V, E>={}): G {
+  var a = opt.a==null? 0.57 : opt.a;
+  var b = opt.b==null? 0.19 : opt.b;
+  var c = opt.c==null? 0.19 : opt.c;
+  var fr = createRandom(opt.seed || 0), add = edgeAdder(x, opt);
+  var n = 2**scale, m = edgeFactor * n;
+  addVertices(x, n, opt);
+  for (var i=0; i<m; ++i) {
+    // Descend into one quadrant of the adjacency matrix per bit.
+    var u = 0, v = 0;
+    for (var bit=n>>>1; bit>0; bit>>>=1) {
+      var r = fr();
+      if (r<a) continue;
+      if (r<a+b) v |= bit;
+      else if (r<a+b+c) u |= bit;
+      else { u |= bit; v |= bit; }
+    }
+    add(u, v);
+  }
+  x.update();
+  return x;
+}
+// #endregion
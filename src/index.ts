@@ -1,15 +1,241 @@
+export * from "./traverse";
+export * from "./paths";
+export * from "./components";
+export * from "./dag";
+export * from "./centrality";
+export * from "./community";
+export * from "./csr";
+export * from "./keyed";
+export * from "./text";
+export * from "./sparse";
+export * from "./xml";
+export * from "./dot";
+export * from "./generate";
+export * from "./transform";
+export * from "./view";
+export * from "./spanning";
+export * from "./flow";
+export {LazyBitset, MapBitset} from "./_bitset";
+export {createRandom} from "./_random";
+export {UnionFind} from "./_unionfind";
+import {CsrGraph} from "./csr";
+import {writeGraph} from "./text";
+
+
+
+
 // #region TYPES
 // =============
 
-// #region HELPERS
-// ---------------
+// #region INTERFACES
+// ------------------
+
+/** A graph whose vertices and edges can be read. */
+export interface ReadonlyGraph<V, E> {
+  /** Get the maximum vertex-id of graph. */
+  span(): number;
+  /** Get the number of vertices in graph. */
+  order(): number;
+  /** Get the number of edges in graph. */
+  size(): number;
+  /** Tell if graph is directed. */
+  isDirected(): boolean;
+  /** Check if graph has a vertex. */
+  hasVertex(v: number): boolean;
+  /** Check if graph has an edge. */
+  hasEdge(u: number, v: number): boolean;
+  /** Obtain the vertex IDs, and associated vertex data in graph. */
+  vertices(): [number, V][];
+  /** List the vertex IDs, and associated vertex data in graph. */
+  ivertices(): IterableIterator<[number, V]>;
+  /** Obtain the vertex IDs in graph. */
+  vertexKeys(): number[];
+  /** List the vertex IDs in graph. */
+  ivertexKeys(): IterableIterator<number>;
+  /** Obtain the vertex data in graph. */
+  vertexValues(): V[];
+  /** List the vertex data in graph. */
+  ivertexValues(): IterableIterator<V>;
+  /** Obtain the vertex out-degrees in graph. */
+  degrees(): number[];
+  /** List the vertex out-degrees in graph. */
+  idegrees(): IterableIterator<number>;
+  /** Obtain the vertex in-degrees in graph. */
+  inDegrees(): number[];
+  /** List the vertex in-degrees in graph. */
+  iinDegrees(): IterableIterator<number>;
+  /** Obtain the outgoing edge IDs, and associated edge weights for the given vertex in graph. */
+  edges(u: number): [number, E][];
+  /** List the outgoing edge IDs, and associated edge weights for the given vertex in graph. */
+  iedges(u: number): IterableIterator<[number, E]>;
+  /** Obtain the outgoing edge IDs for the given vertex in graph. */
+  edgeKeys(u: number): number[];
+  /** List the outgoing edge IDs for the given vertex in graph. */
+  iedgeKeys(u: number): IterableIterator<number>;
+  /** Obtain the outgoing edge weights for the given vertex in graph. */
+  edgeValues(u: number): E[];
+  /** List the outgoing edge weights for the given vertex in graph. */
+  iedgeValues(u: number): IterableIterator<E>;
+  /** Obtain the incoming edge IDs, and associated edge weights for the given vertex in graph. */
+  inEdges(v: number): [number, E][];
+  /** List the incoming edge IDs, and associated edge weights for the given vertex in graph. */
+  iinEdges(v: number): IterableIterator<[number, E]>;
+  /** Obtain the incoming edge IDs for the given vertex in graph. */
+  inEdgeKeys(v: number): number[];
+  /** List the incoming edge IDs for the given vertex in graph. */
+  iinEdgeKeys(v: number): IterableIterator<number>;
+  /** Obtain the incoming edge weights for the given vertex in graph. */
+  inEdgeValues(v: number): E[];
+  /** List the incoming edge weights for the given vertex in graph. */
+  iinEdgeValues(v: number): IterableIterator<E>;
+  /** Get the out-degree of a vertex in graph. */
+  degree(u: number): number;
+  /** Get the in-degree of a vertex in graph. */
+  inDegree(v: number): number;
+  /** Call a function for each vertex in graph. */
+  forEachVertex(fn: (v: number, d: V) => void): void;
+  /** Call a function for each outgoing edge of a vertex in graph. */
+  forEachEdge(u: number, fn: (v: number, w: E) => void): void;
+  /** Call a function for each incoming edge of a vertex in graph. */
+  forEachInEdge(v: number, fn: (u: number, w: E) => void): void;
+  /** Get the data associated with a vertex in graph (default data if v ∉ V, without throwing; algorithms read it with v = -1). */
+  vertexValue(v: number): V;
+  /** Get the weight of an edge in graph (default weight if [u, v] ∉ E, without throwing; algorithms read it with u = v = -1). */
+  edgeValue(u: number, v: number): E;
+}
+
+
+/** A graph whose vertices and edges can be read, and changed. */
+export interface MutableGraph<V, E> extends ReadonlyGraph<V, E> {
+  /** Set the data associated with a vertex in graph. */
+  setVertexValue(v: number, d: V): void;
+  /** Set the weight of an edge in graph. */
+  setEdgeValue(u: number, v: number, w: E): void;
+  /** Clear the graph. */
+  clear(): void;
+  /** Apply changes to the graph. */
+  update(): void;
+  /** Add a vertex to graph (throws if v is not a non-negative integer). */
+  addVertex(v: number, d: V): void;
+  /** Remove a vertex from graph. */
+  removeVertex(v: number): void;
+  /** Add an edge to graph (and its vertices, if missing). */
+  addEdge(u: number, v: number, w: E): void;
+  /** Remove an edge from graph. */
+  removeEdge(u: number, v: number): void;
+  /** Remove all outgoing edges of a vertex from graph. */
+  removeEdges(u: number): void;
+  /** Remove all incoming edges of a vertex from graph. */
+  removeInEdges(v: number): void;
+}
+
+
+/**
+ * Get the weight of an edge, as a number.
+ * @param w edge value
+ * @param u source vertex
+ * @param v target vertex
+ * @returns weight of [u, v]
+ */
+export type WeightFunction<E> = (w: E, u: number, v: number) => number;
+
+
+/** A set of keys with associated values, used to store the edges of a vertex. */
+export interface Bitset<K, T> {
+  /** Get the number of elements in bitset. */
+  size(): number;
+  /** Check if bitset is empty. */
+  isEmpty(): boolean;
+  /** Get the keys of bitset. */
+  keys(): K[];
+  /** List the keys of bitset. */
+  ikeys(): IterableIterator<K>;
+  /** Get the values of bitset. */
+  values(): T[];
+  /** List the values of bitset. */
+  ivalues(): IterableIterator<T>;
+  /** Get the entries of bitset. */
+  entries(): [K, T][];
+  /** List the entries of bitset. */
+  ientries(): IterableIterator<[K, T]>;
+  /** Call a function for each key in bitset. */
+  forEachKey(fn: (k: K) => void): void;
+  /** Call a function for each key and value in bitset. */
+  forEach(fn: (k: K, v: T) => void): void;
+  /** Check if bitset has key. */
+  has(k: K): boolean;
+  /** Get the value of key in bitset. */
+  get(k: K, _v: T): T;
+  /** Set the value of key in bitset. */
+  set(k: K, v: T): void;
+  /** Clear the bitset. */
+  clear(): void;
+  /** Add a key and associated value to bitset. */
+  add(k: K, v: T): void;
+  /** Remove a key from bitset. */
+  remove(k: K): void;
+  /** Apply the changes to bitset. */
+  update(): void;
+}
+
+
+/**
+ * Create an empty bitset, to store the edges of a vertex.
+ * LazyPairBitset and LazyBitset defer changes until update(), and keep keys sorted;
+ * MapBitset applies changes immediately, and keeps keys in order of addition.
+ * A graph updates its bitsets in its own update(), so they hold the same edges after it.
+ * @returns bitset of (target vertex, edge weight)
+ */
+export type BitsetFactory<T> = () => Bitset<number, T>;
+// #endregion
+
+
+
+
+// #region FUNCTIONS
+// -----------------
+
+/**
+ * Get the weight of an edge, when edge value is a number.
+ * @param w edge value
+ * @returns +w
+ */
+export function edgeWeight<E>(w: E): number {
+  return Number(w);
+}
+// #endregion
+
+
+
+
+// #region BITSET
+// --------------
+
+/** Size above which a bitset also keeps a hash index of its keys. */
+const HASHED_SIZE = 4096;
+
 
 /** A bitset where keys (numbers) have associated values, and are lazily updated. */
-class LazyPairBitset<T> {
+export class LazyPairBitset<T> implements Bitset<number, T> {
   private _size:    number   = 0;
   private _removed: number[] = [];
   private _keys:    number[] = [];
   private _values:    T[]    = [];
+  private _index: Map<number, number> | null = null;
+  private _hashedSize: number;
+
+
+  // #region CONSTRUCTOR
+  // -------------------
+
+  /**
+   * Create a new bitset.
+   * @param hashedSize size above which keys are also hash indexed [4096]
+   */
+  constructor(hashedSize: number=HASHED_SIZE) {
+    this._hashedSize = hashedSize;
+  }
+  // #endregion
 
 
   // #region ABOUT
@@ -145,7 +371,7 @@ class LazyPairBitset<T> {
    * @returns kᵢ = k for some i; false otherwise; [kᵢ, vᵢ] ∈ this
    */
   has(k: number): boolean {
-    return this._keys.slice(0, this._size).indexOf(k) != -1;
+    return this.indexOf(k) != -1;
   }
 
 
@@ -155,7 +381,19 @@ class LazyPairBitset<T> {
    * @returns i | kᵢ = k; i = -1 otherwise; [kᵢ, vᵢ] ∈ this
    */
   indexOf(k: number): number {
-    return this._keys.indexOf(k);
+    if (this._index) {
+      var i = this._index.get(k);
+      return i==null? -1 : i;
+    }
+    // Binary search in the committed (sorted) keys.
+    var ks = this._keys, lo = 0, hi = this._size-1;
+    while (lo<=hi) {
+      var m = (lo + hi) >>> 1;
+      if (ks[m]===k) return m;
+      if (ks[m]<k) lo = m+1;
+      else hi = m-1;
+    }
+    return -1;
   }
 
 
@@ -197,9 +435,11 @@ class LazyPairBitset<T> {
    * Clear the bitset.
    */
   clear(): void {
-    this._keys  .length = 0;
-    this._values.length = 0;
-    this._size = 0;
+    this._keys   .length = 0;
+    this._values .length = 0;
+    this._removed.length = 0;
+    this._size  = 0;
+    this._index = null;
   }
 
 
@@ -222,7 +462,7 @@ class LazyPairBitset<T> {
    */
   set(k: number, v: T): void {
     let i = this.indexOf(k);
-    if (i<=0) return;
+    if (i<0) return;
     this._values[i] = v;
   }
 
@@ -233,6 +473,7 @@ class LazyPairBitset<T> {
    * @param v value
    */
   add(k: number, v: T): void {
+    if (this._removed.length>0) this._updateRemove();
     this._keys  .push(k);
     this._values.push(v);
   }
@@ -243,16 +484,88 @@ class LazyPairBitset<T> {
    * @param k key
    */
   remove(k: number): void {
+    if (this._keys.length>this._size) this._updateAdd();
     this._removed.push(k);
   }
 
 
   /**
-   * TODO: Apply the changes to bitset.
+   * Apply the pending removals to bitset.
+   */
+  private _updateRemove(): void {
+    var R = this._removed.length;
+    if (R===0) return;
+    var rkeys = this._removed.sort((a, b) => a - b);
+    var ks = this._keys, vs = this._values;
+    var i = 0, j = 0, n = 0, N = this._size;
+    while (i<N) {
+      while (j<R && rkeys[j]<ks[i]) ++j;
+      if (j<R && rkeys[j]===ks[i]) { ++i; continue; }
+      ks[n] = ks[i];
+      vs[n] = vs[i];
+      ++i; ++n;
+    }
+    ks.length = n;
+    vs.length = n;
+    this._removed.length = 0;
+    this._size = n;
+    this._updateIndex();
+  }
+
+
+  /**
+   * Apply the pending additions to bitset.
+   */
+  private _updateAdd(): void {
+    var N = this._size, A = this._keys.length - N;
+    if (A===0) return;
+    var ks = this._keys, vs = this._values;
+    // Sort pending entries by key (stable, so the last add of a key wins).
+    var is: number[] = [];
+    for (var a=N; a<N+A; ++a)
+      is.push(a);
+    is.sort((a, b) => ks[a] - ks[b]);
+    // Merge committed and pending entries.
+    var rkeys: number[] = [], rvalues: T[] = [];
+    var i = 0, j = 0;
+    while (i<N || j<A) {
+      var k = j<A? ks[is[j]] : 0;
+      if (j>=A || (i<N && ks[i]<k)) {
+        rkeys  .push(ks[i]);
+        rvalues.push(vs[i++]);
+        continue;
+      }
+      if (i<N && ks[i]===k) ++i;
+      while (j+1<A && ks[is[j+1]]===k) ++j;
+      rkeys  .push(k);
+      rvalues.push(vs[is[j++]]);
+    }
+    this._keys   = rkeys;
+    this._values = rvalues;
+    this._size   = rkeys.length;
+    this._updateIndex();
+  }
+
+
+  /**
+   * Rebuild the hash index of keys, if bitset is large.
+   */
+  private _updateIndex(): void {
+    var N = this._size;
+    if (N<this._hashedSize) { this._index = null; return; }
+    var index = new Map<number, number>();
+    for (var i=0; i<N; ++i)
+      index.set(this._keys[i], i);
+    this._index = index;
+  }
+
+
+  /**
+   * Apply the changes to bitset.
    */
   update(): void {
-    // Remove keys from bitset.
-    // And then, compact the bitset by merging keys[0..size-1] and keys[size..], and values.
+    this._updateRemove();
+    this._updateAdd();
   }
   // #endregion
 }
@@ -264,16 +577,16 @@ class LazyPairBitset<T> {
 // #region GRAPH
 // -------------
 
-/** A directed graph that is lazily updated. */
-class DiGraph<V, E> {
-  private _V: V;
-  private _E: E;
-  private _n: number;
-  private _m: number;
-  private _exists: boolean[];
-  private _values: V[];
-  private _to:   LazyPairBitset<E>[];
-  private _from: LazyPairBitset<E>[];
+/** A directed graph that memorizes only out-edges, and is lazily updated. */
+export class OutDiGraph<V, E> implements MutableGraph<V, E> {
+  protected _V: V;
+  protected _E: E;
+  protected _n: number;
+  protected _m: number;
+  protected _exists: boolean[];
+  protected _values: V[];
+  protected _to: Bitset<number, E>[];
+  protected _fb: BitsetFactory<E>;
 
 
   // #region CONSTRUCTOR
@@ -283,16 +596,17 @@ class DiGraph<V, E> {
    * Create a new graph.
    * @param _V default vertex data
    * @param _E default edge weight
+   * @param _fb edge storage factory [LazyPairBitset]
    */
-  constructor(_V: V, _E: E) {
+  constructor(_V: V, _E: E, _fb: BitsetFactory<E>=() => new LazyPairBitset<E>()) {
     this._V = _V;
     this._E = _E;
+    this._fb = _fb;
     this._n = 0;
     this._m = 0;
     this._exists = [];
     this._values = [];
     this._to     = [];
-    this._from   = [];
   }
   // #endregion
 
@@ -342,7 +656,7 @@ class DiGraph<V, E> {
    * @returns v ∈ V?
    */
   hasVertex(v: number): boolean {
-    return v<this.span() && this._exists[v];
+    return v>=0 && v<this.span() && this._exists[v];
   }
 
 
@@ -452,7 +766,7 @@ class DiGraph<V, E> {
   inDegrees(): number[] {
     var a: number[] = [];
     for (var v=0, S=this.span(); v<S; ++v)
-      if (this._exists[v]) a.push(this._from[v].size());
+      if (this._exists[v]) a.push(this.inDegree(v));
     return a;
   }
 
@@ -463,7 +777,7 @@ class DiGraph<V, E> {
    */
   *iinDegrees(): IterableIterator<number> {
     for (var v=0, S=this.span(); v<S; ++v)
-      if (this._exists[v]) yield this._from[v].size();
+      if (this._exists[v]) yield this.inDegree(v);
   }
 
 
@@ -539,8 +853,7 @@ class DiGraph<V, E> {
    * @returns [[u₀, w₀], [u₁, w₁], [u₂, w₂], ...] | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
    */
   inEdges(v: number): [number, E][] {
-    if (!this.hasVertex(v)) return [];
-    return this._from[v].entries();
+    return [...this.iinEdges(v)];
   }
 
 
@@ -551,7 +864,8 @@ class DiGraph<V, E> {
    */
   *iinEdges(v: number): IterableIterator<[number, E]> {
     if (!this.hasVertex(v)) return;
-    yield* this._from[v].ientries();
+    for (var u=0, S=this.span(); u<S; ++u)
+      if (this._exists[u] && this._to[u].has(v)) yield [u, this._to[u].get(v, this._E)];
   }
 
 
@@ -561,8 +875,7 @@ class DiGraph<V, E> {
    * @returns [u₀, u₁, u₂, ...] | [vᵢ, u] ∈ E
    */
   inEdgeKeys(v: number): number[] {
-    if (!this.hasVertex(v)) return [];
-    return this._from[v].keys();
+    return [...this.iinEdgeKeys(v)];
   }
 
 
@@ -573,7 +886,8 @@ class DiGraph<V, E> {
    */
   *iinEdgeKeys(v: number): IterableIterator<number> {
     if (!this.hasVertex(v)) return;
-    yield* this._from[v].ikeys();
+    for (var u=0, S=this.span(); u<S; ++u)
+      if (this._exists[u] && this._to[u].has(v)) yield u;
   }
 
 
@@ -583,8 +897,7 @@ class DiGraph<V, E> {
    * @returns [w₀, w₁, w₂, ...] | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
    */
   inEdgeValues(v: number): E[] {
-    if (!this.hasVertex(v)) return [];
-    return this._from[v].values();
+    return [...this.iinEdgeValues(v)];
   }
 
 
@@ -595,7 +908,8 @@ class DiGraph<V, E> {
    */
   *iinEdgeValues(v: number): IterableIterator<E> {
     if (!this.hasVertex(v)) return;
-    yield* this._from[v].ivalues();
+    for (var u=0, S=this.span(); u<S; ++u)
+      if (this._exists[u] && this._to[u].has(v)) yield this._to[u].get(v, this._E);
   }
 
 
@@ -617,7 +931,10 @@ class DiGraph<V, E> {
    */
   inDegree(v: number): number {
     if (!this.hasVertex(v)) return 0;
-    return this._from[v].size();
+    var a = 0;
+    for (var u=0, S=this.span(); u<S; ++u)
+      if (this._exists[u] && this._to[u].has(v)) ++a;
+    return a;
   }
   // #endregion
 
@@ -653,7 +970,8 @@ class DiGraph<V, E> {
    */
   forEachInEdge(v: number, fn: (u: number, w: E) => void): void {
     if (!this.hasVertex(v)) return;
-    this._from[v].forEach(fn);
+    for (var u=0, S=this.span(); u<S; ++u)
+      if (this._exists[u] && this._to[u].has(v)) fn(u, this._to[u].get(v, this._E));
   }
   // #endregion
 
@@ -702,8 +1020,27 @@ class DiGraph<V, E> {
    */
   setEdgeValue(u: number, v: number, w: E): void {
     if (!this.hasEdge(u, v)) return;
-    this._to[u]  .set(v, w);
-    this._from[v].set(u, w);
+    this._to[u].set(v, w);
+  }
+
+
+  /**
+   * Take an immutable compressed sparse row snapshot of (updated) graph.
+   * @param fw weight function (w, u, v), to also store edge weights as numbers
+   * @returns CSR/CSC graph with same vertices and edges
+   */
+  snapshot(fw: WeightFunction<E> | null=null): CsrGraph<V, E> {
+    return new CsrGraph(this, fw);
+  }
+
+
+  /**
+   * Write a summary of graph, as in the C++ writeGraph().
+   * @param detailed whether to write each vertex, with its edges [false]
+   * @returns "order: |V| size: |E| [directed] {}" | with "u:d -> v:w ..." lines, if detailed
+   */
+  toString(detailed: boolean=false): string {
+    return writeGraph(this, detailed);
   }
   // #endregion
 
@@ -720,7 +1057,6 @@ class DiGraph<V, E> {
     this._exists.length = 0;
     this._values.length = 0;
     this._to    .length = 0;
-    this._from  .length = 0;
   }
 
 
@@ -734,12 +1070,10 @@ class DiGraph<V, E> {
     this._exists.length = r;
     this._values.length = r;
     this._to    .length = r;
-    this._from  .length = r;
     for (var v=S; v<s; ++v) {
       this._exists[v] = false;
       this._values[v] = this._V;
-      this._to  [v] = new LazyPairBitset<E>();
-      this._from[v] = new LazyPairBitset<E>();
+      this._to[v] = this._fb();
     }
   }
 
@@ -751,8 +1085,7 @@ class DiGraph<V, E> {
     var n = 0, m = 0;
     for (var v=0, S=this._exists.length; v<S; ++v) {
       if (!this._exists[v]) continue;
-      this._to  [v].update();
-      this._from[v].update();
+      this._to[v].update();
       m += this._to[v].size();
       ++n;
     }
@@ -763,17 +1096,17 @@ class DiGraph<V, E> {
 
   /**
    * Add a vertex to graph.
-   * @param v vertex
+   * @param v vertex (throws if not a non-negative integer)
    * @param d vertex data
    */
   addVertex(v: number, d: V): void {
     var S = this._exists.length;
     if (this.hasVertex(v)) return;
+    if (!Number.isInteger(v) || v<0) throw new Error("Invalid vertex: " + v);
     if (v>=S) this.respan(v+1);
     this._exists[v] = true;
     this._values[v] = d;
-    this._to  [v] = new LazyPairBitset<E>();
-    this._from[v] = new LazyPairBitset<E>();
+    this._to[v] = this._fb();
   }
 
 
@@ -783,10 +1116,10 @@ class DiGraph<V, E> {
    */
   removeVertex(v: number): void {
     if (!this.hasVertex(v)) return;
+    this.removeEdges(v);
+    this.removeInEdges(v);
     this._exists[v] = false;
     this._values[v] = this._V;
-    this._to  [v].clear();
-    this._from[v].clear();
   }
 
 
@@ -799,9 +1132,464 @@ class DiGraph<V, E> {
   addEdge(u: number, v: number, w: E): void {
     if (!this.hasVertex(u)) this.addVertex(u, this._V);  // PERF: Optimize this away.
     if (!this.hasVertex(v)) this.addVertex(v, this._V);  // PERF: Optimize this away.
-    this._to  [u].add(v, w);
+    this._to[u].add(v, w);
+  }
+
+
+  /**
+   * Remove an edge from graph.
+   * @param u source vertex
+   * @param v target vertex
+   */
+  removeEdge(u: number, v: number): void {
+    if (!this.hasVertex(u) || !this.hasVertex(v)) return;
+    this._to[u].remove(v);
+  }
+
+
+  /**
+   * Remove all outgoing edges of a vertex from graph.
+   * @param u source vertex
+   */
+  removeEdges(u: number): void {
+    if (!this.hasVertex(u)) return;
+    this._to[u].clear();
+  }
+
+
+  /**
+   * Remove all incoming edges of a vertex from graph.
+   * @param v target vertex
+   */
+  removeInEdges(v: number): void {
+    if (!this.hasVertex(v)) return;
+    for (var u=0, S=this.span(); u<S; ++u)
+      if (this._exists[u]) this._to[u].remove(v);
+  }
+  // #endregion
+}
+
+
+
+
+/** A directed graph that memorizes in- and out-edges, and is lazily updated. */
+export class DiGraph<V, E> extends OutDiGraph<V, E> {
+  protected _from: Bitset<number, E>[];
+
+
+  // #region CONSTRUCTOR
+  // -------------------
+
+  /**
+   * Create a new graph.
+   * @param _V default vertex data
+   * @param _E default edge weight
+   * @param _fb edge storage factory [LazyPairBitset]
+   */
+  constructor(_V: V, _E: E, _fb?: BitsetFactory<E>) {
+    super(_V, _E, _fb);
+    this._from = [];
+  }
+  // #endregion
+
+
+  // #region ABOUT
+  // -------------
+
+  /**
+   * Obtain the incoming edge IDs, and associated edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @returns [[u₀, w₀], [u₁, w₁], [u₂, w₂], ...] | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  inEdges(v: number): [number, E][] {
+    if (!this.hasVertex(v)) return [];
+    return this._from[v].entries();
+  }
+
+
+  /**
+   * List the incoming edge IDs, and associated edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @yields [u₀, w₀], [u₁, w₁], [u₂, w₂], ... | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  *iinEdges(v: number): IterableIterator<[number, E]> {
+    if (!this.hasVertex(v)) return;
+    yield* this._from[v].ientries();
+  }
+
+
+  /**
+   * Obtain the incoming edge IDs for the given vertex in graph.
+   * @param v target vertex
+   * @returns [u₀, u₁, u₂, ...] | [vᵢ, u] ∈ E
+   */
+  inEdgeKeys(v: number): number[] {
+    if (!this.hasVertex(v)) return [];
+    return this._from[v].keys();
+  }
+
+
+  /**
+   * List the incoming edge IDs for the given vertex in graph.
+   * @param v target vertex
+   * @yields u₀, u₁, u₂, ... | [uᵢ, v] ∈ E
+   */
+  *iinEdgeKeys(v: number): IterableIterator<number> {
+    if (!this.hasVertex(v)) return;
+    yield* this._from[v].ikeys();
+  }
+
+
+  /**
+   * Obtain the incoming edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @returns [w₀, w₁, w₂, ...] | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  inEdgeValues(v: number): E[] {
+    if (!this.hasVertex(v)) return [];
+    return this._from[v].values();
+  }
+
+
+  /**
+   * List the incoming edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @yields w₀, w₁, w₂, ... | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  *iinEdgeValues(v: number): IterableIterator<E> {
+    if (!this.hasVertex(v)) return;
+    yield* this._from[v].ivalues();
+  }
+
+
+  /**
+   * Get the in-degree of a vertex in graph.
+   * @param v target vertex
+   * @returns D⁻ᵥ = |inEdges(v)|
+   */
+  inDegree(v: number): number {
+    if (!this.hasVertex(v)) return 0;
+    return this._from[v].size();
+  }
+  // #endregion
+
+
+  // #region FOR EACH
+  // ----------------
+
+  /**
+   * Call a function for each incoming edge of a vertex in graph.
+   * @param v target vertex
+   * @param fn process function (u, w)
+   */
+  forEachInEdge(v: number, fn: (u: number, w: E) => void): void {
+    if (!this.hasVertex(v)) return;
+    this._from[v].forEach(fn);
+  }
+  // #endregion
+
+
+  // #region ACCESS
+  // --------------
+
+  /**
+   * Set the weight of an edge in graph.
+   * @param u source vertex
+   * @param v target vertex
+   * @param w weight
+   */
+  setEdgeValue(u: number, v: number, w: E): void {
+    if (!this.hasEdge(u, v)) return;
+    this._to[u]  .set(v, w);
+    this._from[v].set(u, w);
+  }
+  // #endregion
+
+
+  // #region UPDATE
+  // --------------
+
+  /**
+   * Clear the graph.
+   */
+  clear(): void {
+    super.clear();
+    this._from.length = 0;
+  }
+
+
+  /**
+   * Adjust the span of graph.
+   * @param s new span
+   */
+  respan(s: number): void {
+    var S = this._from.length;
+    super.respan(s);
+    this._from.length = Math.min(s, S);
+    for (var v=S; v<s; ++v)
+      this._from[v] = this._fb();
+  }
+
+
+  /**
+   * Apply changes to the graph.
+   */
+  update(): void {
+    for (var v=0, S=this.span(); v<S; ++v)
+      if (this._exists[v]) this._from[v].update();
+    super.update();
+  }
+
+
+  /**
+   * Add a vertex to graph.
+   * @param v vertex
+   * @param d vertex data
+   */
+  addVertex(v: number, d: V): void {
+    if (this.hasVertex(v)) return;
+    super.addVertex(v, d);
+    this._from[v] = this._fb();
+  }
+
+
+  /**
+   * Add an edge to graph.
+   * @param u source vertex
+   * @param v target vertex
+   * @param w edge weight
+   */
+  addEdge(u: number, v: number, w: E): void {
+    super.addEdge(u, v, w);
     this._from[v].add(u, w);
   }
+
+
+  /**
+   * Remove an edge from graph.
+   * @param u source vertex
+   * @param v target vertex
+   */
+  removeEdge(u: number, v: number): void {
+    if (!this.hasVertex(u) || !this.hasVertex(v)) return;
+    this._to  [u].remove(v);
+    this._from[v].remove(u);
+  }
+
+
+  /**
+   * Remove all outgoing edges of a vertex from graph.
+   * @param u source vertex
+   */
+  removeEdges(u: number): void {
+    if (!this.hasVertex(u)) return;
+    this._to[u].update();
+    this._to[u].forEachKey(v => this._from[v].remove(u));
+    this._to[u].clear();
+  }
+
+
+  /**
+   * Remove all incoming edges of a vertex from graph.
+   * @param v target vertex
+   */
+  removeInEdges(v: number): void {
+    if (!this.hasVertex(v)) return;
+    this._from[v].update();
+    this._from[v].forEachKey(u => this._to[u].remove(v));
+    this._from[v].clear();
+  }
+
+
+  /**
+   * Reverse all edges of graph, in place.
+   */
+  reverse(): void {
+    this.update();
+    var to = this._to;
+    this._to   = this._from;
+    this._from = to;
+  }
+  // #endregion
+}
+
+
+
+
+/** An undirected graph that is lazily updated. */
+export class Graph<V, E> extends OutDiGraph<V, E> {
+
+  // #region ABOUT
+  // -------------
+
+  /**
+   * Tell if graph is directed.
+   * @returns false
+   */
+  isDirected(): boolean {
+    return false;
+  }
+
+
+  /**
+   * Obtain the incoming edge IDs, and associated edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @returns edges(v)
+   */
+  inEdges(v: number): [number, E][] {
+    return this.edges(v);
+  }
+
+
+  /**
+   * List the incoming edge IDs, and associated edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @yields iedges(v)
+   */
+  iinEdges(v: number): IterableIterator<[number, E]> {
+    return this.iedges(v);
+  }
+
+
+  /**
+   * Obtain the incoming edge IDs for the given vertex in graph.
+   * @param v target vertex
+   * @returns edgeKeys(v)
+   */
+  inEdgeKeys(v: number): number[] {
+    return this.edgeKeys(v);
+  }
+
+
+  /**
+   * List the incoming edge IDs for the given vertex in graph.
+   * @param v target vertex
+   * @yields iedgeKeys(v)
+   */
+  iinEdgeKeys(v: number): IterableIterator<number> {
+    return this.iedgeKeys(v);
+  }
+
+
+  /**
+   * Obtain the incoming edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @returns edgeValues(v)
+   */
+  inEdgeValues(v: number): E[] {
+    return this.edgeValues(v);
+  }
+
+
+  /**
+   * List the incoming edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @yields iedgeValues(v)
+   */
+  iinEdgeValues(v: number): IterableIterator<E> {
+    return this.iedgeValues(v);
+  }
+
+
+  /**
+   * Get the in-degree of a vertex in graph.
+   * @param v target vertex
+   * @returns degree(v)
+   */
+  inDegree(v: number): number {
+    return this.degree(v);
+  }
+  // #endregion
+
+
+  // #region FOR EACH
+  // ----------------
+
+  /**
+   * Call a function for each incoming edge of a vertex in graph.
+   * @param v target vertex
+   * @param fn process function (u, w)
+   */
+  forEachInEdge(v: number, fn: (u: number, w: E) => void): void {
+    this.forEachEdge(v, fn);
+  }
+  // #endregion
+
+
+  // #region ACCESS
+  // --------------
+
+  /**
+   * Set the weight of an edge in graph.
+   * @param u one vertex
+   * @param v other vertex
+   * @param w weight
+   */
+  setEdgeValue(u: number, v: number, w: E): void {
+    super.setEdgeValue(u, v, w);
+    super.setEdgeValue(v, u, w);
+  }
+  // #endregion
+
+
+  // #region UPDATE
+  // --------------
+
+  /**
+   * Apply changes to the graph.
+   */
+  update(): void {
+    super.update();
+    // Self-loops are stored once, other edges twice.
+    var l = 0;
+    for (var u=0, S=this.span(); u<S; ++u)
+      if (this._exists[u] && this._to[u].has(u)) ++l;
+    this._m = (this._m + l)/2;
+  }
+
+
+  /**
+   * Add an edge to graph.
+   * @param u one vertex
+   * @param v other vertex
+   * @param w edge weight
+   */
+  addEdge(u: number, v: number, w: E): void {
+    super.addEdge(u, v, w);
+    if (u!==v) super.addEdge(v, u, w);
+  }
+
+
+  /**
+   * Remove an edge from graph.
+   * @param u one vertex
+   * @param v other vertex
+   */
+  removeEdge(u: number, v: number): void {
+    super.removeEdge(u, v);
+    if (u!==v) super.removeEdge(v, u);
+  }
+
+
+  /**
+   * Remove all edges of a vertex from graph.
+   * @param u vertex
+   */
+  removeEdges(u: number): void {
+    if (!this.hasVertex(u)) return;
+    this._to[u].update();
+    this._to[u].forEachKey(v => { if (v!==u) this._to[v].remove(u); });
+    this._to[u].clear();
+  }
+
+
+  /**
+   * Remove all edges of a vertex from graph.
+   * @param v vertex
+   */
+  removeInEdges(v: number): void {
+    this.removeEdges(v);
+  }
   // #endregion
 }
 // #endregion
@@ -0,0 +1,600 @@
+import {MutableGraph} from "./index";
+import {writeGraph} from "./text";
+
+
+
+
+/** A graph with vertices identified by arbitrary keys, interned to compact vertex ids of a core graph. */
+export class KeyedGraph<K, V, E> {
+  private _x: MutableGraph<V, E>;
+  private _ids: Map<K, number>;
+  private _keys: K[];
+  private _free: number[];
+
+
+  // #region CONSTRUCTOR
+  // -------------------
+
+  /**
+   * Create a new keyed graph.
+   * @param x core graph, with integer vertex ids (should be empty)
+   */
+  constructor(x: MutableGraph<V, E>) {
+    this._x = x;
+    this._ids  = new Map();
+    this._keys = [];
+    this._free = [];
+  }
+  // #endregion
+
+
+  // #region KEYS
+  // ------------
+
+  /**
+   * Get the core graph, to run algorithms on.
+   * @returns graph with vertex ids
+   */
+  graph(): MutableGraph<V, E> {
+    return this._x;
+  }
+
+
+  /**
+   * Get the vertex id of a key.
+   * @param k vertex key
+   * @returns id of k; -1 if k ∉ V
+   */
+  id(k: K): number {
+    var v = this._ids.get(k);
+    return v==null? -1 : v;
+  }
+
+
+  /**
+   * Get the key of a vertex id.
+   * @param v vertex id
+   * @returns key of v; undefined if v ∉ V
+   */
+  key(v: number): K | undefined {
+    return this._x.hasVertex(v)? this._keys[v] : undefined;
+  }
+
+
+  /**
+   * Translate vertex ids to keys.
+   * @param vs vertex ids
+   * @returns [k₀, k₁, ...] | kᵢ = key(vᵢ)
+   */
+  keysOf(vs: Iterable<number>): K[] {
+    var a: K[] = [];
+    for (var v of vs)
+      a.push(this._keys[v]);
+    return a;
+  }
+
+
+  /**
+   * Translate keys to vertex ids.
+   * @param ks vertex keys
+   * @returns [v₀, v₁, ...] | vᵢ = id(kᵢ)
+   */
+  idsOf(ks: Iterable<K>): number[] {
+    var a: number[] = [];
+    for (var k of ks)
+      a.push(this.id(k));
+    return a;
+  }
+
+
+  /**
+   * Translate a result indexed by vertex id to one by key.
+   * @param a values indexed by vertex id
+   * @returns {k₀: a[v₀], k₁: a[v₁], ...} | vᵢ ∈ V; kᵢ = key(vᵢ)
+   */
+  toKeyMap<T>(a: ArrayLike<T>): Map<K, T> {
+    var m = new Map<K, T>();
+    this._x.forEachVertex(v => m.set(this._keys[v], a[v]));
+    return m;
+  }
+  // #endregion
+
+
+  // #region ABOUT
+  // -------------
+
+  /**
+   * Get the number of vertices in graph.
+   * @returns |V|
+   */
+  order(): number {
+    return this._x.order();
+  }
+
+
+  /**
+   * Get the number of edges in graph.
+   * @returns |E|
+   */
+  size(): number {
+    return this._x.size();
+  }
+
+
+  /**
+   * Tell if graph is directed.
+   * @returns directed?
+   */
+  isDirected(): boolean {
+    return this._x.isDirected();
+  }
+
+
+  /**
+   * Check if graph has a vertex.
+   * @param k vertex key
+   * @returns k ∈ V?
+   */
+  hasVertex(k: K): boolean {
+    return this._ids.has(k);
+  }
+
+
+  /**
+   * Check if graph has an edge.
+   * @param a source vertex key
+   * @param b target vertex key
+   * @returns [a, b] ∈ E?
+   */
+  hasEdge(a: K, b: K): boolean {
+    var u = this.id(a), v = this.id(b);
+    return u>=0 && v>=0 && this._x.hasEdge(u, v);
+  }
+
+
+  /**
+   * Obtain the vertex keys, and associated vertex data in graph.
+   * @returns [[k₀, d₀], [k₁, d₁], [k₂, d₂], ...] | kᵢ ∈ V
+   */
+  vertices(): [K, V][] {
+    return [...this.ivertices()];
+  }
+
+
+  /**
+   * List the vertex keys, and associated vertex data in graph.
+   * @yields [k₀, d₀], [k₁, d₁], [k₂, d₂], ... | kᵢ ∈ V
+   */
+  *ivertices(): IterableIterator<[K, V]> {
+    for (var [v, d] of this._x.ivertices())
+      yield [this._keys[v], d];
+  }
+
+
+  /**
+   * Obtain the vertex keys in graph.
+   * @returns [k₀, k₁, k₂, ...] | kᵢ ∈ V
+   */
+  vertexKeys(): K[] {
+    return this.keysOf(this._x.ivertexKeys());
+  }
+
+
+  /**
+   * List the vertex keys in graph.
+   * @yields k₀, k₁, k₂, ... | kᵢ ∈ V
+   */
+  *ivertexKeys(): IterableIterator<K> {
+    for (var v of this._x.ivertexKeys())
+      yield this._keys[v];
+  }
+
+
+  /**
+   * Obtain the vertex data in graph.
+   * @returns [d₀, d₁, d₂, ...] | kᵢ ∈ V
+   */
+  vertexValues(): V[] {
+    return this._x.vertexValues();
+  }
+
+
+  /**
+   * List the vertex data in graph.
+   * @yields d₀, d₁, d₂, ... | kᵢ ∈ V
+   */
+  ivertexValues(): IterableIterator<V> {
+    return this._x.ivertexValues();
+  }
+
+
+  /**
+   * Obtain the vertex out-degrees in graph.
+   * @returns [D⁺₀, D⁺₁, D⁺₂, ...] | kᵢ ∈ V; D⁺ᵢ = |edges(kᵢ)|
+   */
+  degrees(): number[] {
+    return this._x.degrees();
+  }
+
+
+  /**
+   * List the vertex out-degrees in graph.
+   * @yields D⁺₀, D⁺₁, D⁺₂, ... | kᵢ ∈ V; D⁺ᵢ = |edges(kᵢ)|
+   */
+  idegrees(): IterableIterator<number> {
+    return this._x.idegrees();
+  }
+
+
+  /**
+   * Obtain the vertex in-degrees in graph.
+   * @returns [D⁻₀, D⁻₁, D⁻₂, ...] | kᵢ ∈ V; D⁻ᵢ = |inEdges(kᵢ)|
+   */
+  inDegrees(): number[] {
+    return this._x.inDegrees();
+  }
+
+
+  /**
+   * List the vertex in-degrees in graph.
+   * @yields D⁻₀, D⁻₁, D⁻₂, ... | kᵢ ∈ V; D⁻ᵢ = |inEdges(kᵢ)|
+   */
+  iinDegrees(): IterableIterator<number> {
+    return this._x.iinDegrees();
+  }
+
+
+  /**
+   * Obtain the outgoing edge keys, and associated edge weights for the given vertex in graph.
+   * @param a source vertex key
+   * @returns [[b₀, w₀], [b₁, w₁], [b₂, w₂], ...] | [a, bᵢ] ∈ E; wᵢ = w(a, bᵢ)
+   */
+  edges(a: K): [K, E][] {
+    return [...this.iedges(a)];
+  }
+
+
+  /**
+   * List the outgoing edge keys, and associated edge weights for the given vertex in graph.
+   * @param a source vertex key
+   * @yields [b₀, w₀], [b₁, w₁], [b₂, w₂], ... | [a, bᵢ] ∈ E; wᵢ = w(a, bᵢ)
+   */
+  *iedges(a: K): IterableIterator<[K, E]> {
+    var u = this.id(a);
+    if (u<0) return;
+    for (var [v, w] of this._x.iedges(u))
+      yield [this._keys[v], w];
+  }
+
+
+  /**
+   * Obtain the outgoing edge keys for the given vertex in graph.
+   * @param a source vertex key
+   * @returns [b₀, b₁, b₂, ...] | [a, bᵢ] ∈ E
+   */
+  edgeKeys(a: K): K[] {
+    var u = this.id(a);
+    return u<0? [] : this.keysOf(this._x.iedgeKeys(u));
+  }
+
+
+  /**
+   * List the outgoing edge keys for the given vertex in graph.
+   * @param a source vertex key
+   * @yields b₀, b₁, b₂, ... | [a, bᵢ] ∈ E
+   */
+  *iedgeKeys(a: K): IterableIterator<K> {
+    var u = this.id(a);
+    if (u<0) return;
+    for (var v of this._x.iedgeKeys(u))
+      yield this._keys[v];
+  }
+
+
+  /**
+   * Obtain the outgoing edge weights for the given vertex in graph.
+   * @param a source vertex key
+   * @returns [w₀, w₁, w₂, ...] | [a, bᵢ] ∈ E; wᵢ = w(a, bᵢ)
+   */
+  edgeValues(a: K): E[] {
+    var u = this.id(a);
+    return u<0? [] : this._x.edgeValues(u);
+  }
+
+
+  /**
+   * List the outgoing edge weights for the given vertex in graph.
+   * @param a source vertex key
+   * @yields w₀, w₁, w₂, ... | [a, bᵢ] ∈ E; wᵢ = w(a, bᵢ)
+   */
+  *iedgeValues(a: K): IterableIterator<E> {
+    var u = this.id(a);
+    if (u<0) return;
+    yield* this._x.iedgeValues(u);
+  }
+
+
+  /**
+   * Obtain the incoming edge keys, and associated edge weights for the given vertex in graph.
+   * @param b target vertex key
+   * @returns [[a₀, w₀], [a₁, w₁], [a₂, w₂], ...] | [aᵢ, b] ∈ E; wᵢ = w(aᵢ, b)
+   */
+  inEdges(b: K): [K, E][] {
+    return [...this.iinEdges(b)];
+  }
+
+
+  /**
+   * List the incoming edge keys, and associated edge weights for the given vertex in graph.
+   * @param b target vertex key
+   * @yields [a₀, w₀], [a₁, w₁], [a₂, w₂], ... | [aᵢ, b] ∈ E; wᵢ = w(aᵢ, b)
+   */
+  *iinEdges(b: K): IterableIterator<[K, E]> {
+    var v = this.id(b);
+    if (v<0) return;
+    for (var [u, w] of this._x.iinEdges(v))
+      yield [this._keys[u], w];
+  }
+
+
+  /**
+   * Obtain the incoming edge keys for the given vertex in graph.
+   * @param b target vertex key
+   * @returns [a₀, a₁, a₂, ...] | [aᵢ, b] ∈ E
+   */
+  inEdgeKeys(b: K): K[] {
+    var v = this.id(b);
+    return v<0? [] : this.keysOf(this._x.iinEdgeKeys(v));
+  }
+
+
+  /**
+   * List the incoming edge keys for the given vertex in graph.
+   * @param b target vertex key
+   * @yields a₀, a₁, a₂, ... | [aᵢ, b] ∈ E
+   */
+  *iinEdgeKeys(b: K): IterableIterator<K> {
+    var v = this.id(b);
+    if (v<0) return;
+    for (var u of this._x.iinEdgeKeys(v))
+      yield this._keys[u];
+  }
+
+
+  /**
+   * Obtain the incoming edge weights for the given vertex in graph.
+   * @param b target vertex key
+   * @returns [w₀, w₁, w₂, ...] | [aᵢ, b] ∈ E; wᵢ = w(aᵢ, b)
+   */
+  inEdgeValues(b: K): E[] {
+    var v = this.id(b);
+    return v<0? [] : this._x.inEdgeValues(v);
+  }
+
+
+  /**
+   * List the incoming edge weights for the given vertex in graph.
+   * @param b target vertex key
+   * @yields w₀, w₁, w₂, ... | [aᵢ, b] ∈ E; wᵢ = w(aᵢ, b)
+   */
+  *iinEdgeValues(b: K): IterableIterator<E> {
+    var v = this.id(b);
+    if (v<0) return;
+    yield* this._x.iinEdgeValues(v);
+  }
+
+
+  /**
+   * Get the out-degree of a vertex in graph.
+   * @param a source vertex key
+   * @returns D⁺ₐ = |edges(a)|
+   */
+  degree(a: K): number {
+    var u = this.id(a);
+    return u<0? 0 : this._x.degree(u);
+  }
+
+
+  /**
+   * Get the in-degree of a vertex in graph.
+   * @param b target vertex key
+   * @returns D⁻ᵦ = |inEdges(b)|
+   */
+  inDegree(b: K): number {
+    var v = this.id(b);
+    return v<0? 0 : this._x.inDegree(v);
+  }
+
+
+  /**
+   * Write a summary of graph, with vertex keys.
+   * @param detailed whether to write each vertex, with its edges [false]
+   * @returns "order: |V| size: |E| [directed] {}" | with "a:d -> b:w ..." lines, if detailed
+   */
+  toString(detailed: boolean=false): string {
+    return writeGraph(this._x, detailed, v => this._keys[v]);
+  }
+  // #endregion
+
+
+  // #region FOR EACH
+  // ----------------
+
+  /**
+   * Call a function for each vertex in graph.
+   * @param fn process function (k, d)
+   */
+  forEachVertex(fn: (k: K, d: V) => void): void {
+    this._x.forEachVertex((v, d) => fn(this._keys[v], d));
+  }
+
+
+  /**
+   * Call a function for each outgoing edge of a vertex in graph.
+   * @param a source vertex key
+   * @param fn process function (b, w)
+   */
+  forEachEdge(a: K, fn: (b: K, w: E) => void): void {
+    var u = this.id(a);
+    if (u>=0) this._x.forEachEdge(u, (v, w) => fn(this._keys[v], w));
+  }
+
+
+  /**
+   * Call a function for each incoming edge of a vertex in graph.
+   * @param b target vertex key
+   * @param fn process function (a, w)
+   */
+  forEachInEdge(b: K, fn: (a: K, w: E) => void): void {
+    var v = this.id(b);
+    if (v>=0) this._x.forEachInEdge(v, (u, w) => fn(this._keys[u], w));
+  }
+  // #endregion
+
+
+  // #region ACCESS
+  // --------------
+
+  /**
+   * Get the data associated with a vertex in graph.
+   * @param k vertex key
+   * @returns dₖ | k ∈ V
+   */
+  vertexValue(k: K): V {
+    return this._x.vertexValue(this.id(k));
+  }
+
+
+  /**
+   * Set the data associated with a vertex in graph.
+   * @param k vertex key
+   * @param d data
+   */
+  setVertexValue(k: K, d: V): void {
+    var v = this.id(k);
+    if (v>=0) this._x.setVertexValue(v, d);
+  }
+
+
+  /**
+   * Get the weight of an edge in graph.
+   * @param a source vertex key
+   * @param b target vertex key
+   * @returns wₐᵦ | [a, b] ∈ E
+   */
+  edgeValue(a: K, b: K): E {
+    return this._x.edgeValue(this.id(a), this.id(b));
+  }
+
+
+  /**
+   * Set the weight of an edge in graph.
+   * @param a source vertex key
+   * @param b target vertex key
+   * @param w weight
+   */
+  setEdgeValue(a: K, b: K, w: E): void {
+    var u = this.id(a), v = this.id(b);
+    if (u>=0 && v>=0) this._x.setEdgeValue(u, v, w);
+  }
+  // #endregion
+
+
+  // #region UPDATE
+  // --------------
+
+  /**
+   * Clear the graph.
+   */
+  clear(): void {
+    this._x.clear();
+    this._ids.clear();
+    this._keys.length = 0;
+    this._free.length = 0;
+  }
+
+
+  /**
+   * Apply changes to the graph.
+   */
+  update(): void {
+    this._x.update();
+  }
+
+
+  /**
+   * Add a vertex to graph.
+   * @param k vertex key
+   * @param d vertex data
+   * @returns vertex id of k
+   */
+  addVertex(k: K, d: V): number {
+    var v = this.id(k);
+    if (v>=0) return v;
+    // Reuse ids of removed vertices, to keep them compact.
+    v = this._free.length>0? this._free.pop()! : this._keys.length;
+    this._ids.set(k, v);
+    this._keys[v] = k;
+    this._x.addVertex(v, d);
+    return v;
+  }
+
+
+  /**
+   * Remove a vertex from graph.
+   * @param k vertex key
+   */
+  removeVertex(k: K): void {
+    var v = this.id(k);
+    if (v<0) return;
+    this._x.removeVertex(v);
+    this._ids.delete(k);
+    this._free.push(v);
+  }
+
+
+  /**
+   * Add an edge to graph.
+   * @param a source vertex key
+   * @param b target vertex key
+   * @param w edge weight
+   */
+  addEdge(a: K, b: K, w: E): void {
+    var _V = this._x.vertexValue(-1);
+    var u = this.addVertex(a, _V);
+    var v = this.addVertex(b, _V);
+    this._x.addEdge(u, v, w);
+  }
+
+
+  /**
+   * Remove an edge from graph.
+   * @param a source vertex key
+   * @param b target vertex key
+   */
+  removeEdge(a: K, b: K): void {
+    var u = this.id(a), v = this.id(b);
+    if (u>=0 && v>=0) this._x.removeEdge(u, v);
+  }
+
+
+  /**
+   * Remove all outgoing edges of a vertex from graph.
+   * @param a source vertex key
+   */
+  removeEdges(a: K): void {
+    var u = this.id(a);
+    if (u>=0) this._x.removeEdges(u);
+  }
+
+
+  /**
+   * Remove all incoming edges of a vertex from graph.
+   * @param b target vertex key
+   */
+  removeInEdges(b: K): void {
+    var v = this.id(b);
+    if (v>=0) this._x.removeInEdges(v);
+  }
+  // #endregion
+}
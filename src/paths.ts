@@ -0,0 +1,359 @@
+import {ReadonlyGraph, WeightFunction, edgeWeight} from "./index";
+import {sourcesArray} from "./traverse";
+import {MinHeap} from "./_heap";
+
+
+
+
+// #region TYPES
+// =============
+
+/** Shortest paths from one or more sources, indexed by vertex id. */
+export interface ShortestPaths {
+  /** Distance of each vertex from the sources (∞ if unreachable). */
+  distances: Float64Array;
+  /** Previous vertex on the shortest path to each vertex (-1 if none). */
+  parents: Int32Array;
+}
+
+
+/** Shortest paths from Bellman-Ford algorithm. */
+export interface BellmanFordPaths extends ShortestPaths {
+  /** A negative cycle reachable from the sources, if any. */
+  negativeCycle: number[] | null;
+}
+
+
+/**
+ * Estimate the distance from a vertex to the target.
+ * @param v vertex
+ * @returns h(v) ≤ distance of target from v
+ */
+export type HeuristicFunction = (v: number) => number;
+
+
+/** Shortest paths between all pairs of vertices, as span × span matrices. */
+export interface DistanceMatrix {
+  /** Span of the graph (number of rows and columns). */
+  span: number;
+  /** Distance from u to v at [u*span + v] (∞ if unreachable). */
+  distances: Float64Array;
+  /** Previous vertex on the shortest path from u to v at [u*span + v] (-1 if none). */
+  parents: Int32Array;
+}
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/** Create an empty shortest paths result for a graph. */
+function createPaths<V, E>(x: ReadonlyGraph<V, E>): ShortestPaths {
+  var S = x.span();
+  var distances = new Float64Array(S).fill(Infinity);
+  var parents   = new Int32Array(S).fill(-1);
+  return {distances, parents};
+}
+
+
+
+/**
+ * Obtain the path to a vertex, from shortest paths.
+ * @param a shortest paths
+ * @param v target vertex
+ * @returns [s, ..., v] | s is a source; [] if v is unreachable; throws if path runs into a negative cycle
+ */
+export function tracePath(a: ShortestPaths, v: number): number[] {
+  if (!(a.distances[v] < Infinity)) return [];
+  var path: number[] = [], S = a.parents.length;
+  for (var u=v; u>=0; u=a.parents[u]) {
+    // A simple path has at most span vertices.
+    if (path.length>=S) throw new Error("Path runs into a negative cycle, to vertex: " + v);
+    path.push(u);
+  }
+  return path.reverse();
+}
+
+
+/**
+ * Obtain the path between two vertices, from a distance matrix.
+ * @param a distance matrix
+ * @param u source vertex
+ * @param v target vertex
+ * @returns [u, ..., v]; [] if v is unreachable from u; throws if path runs into a negative cycle
+ */
+export function traceMatrixPath(a: DistanceMatrix, u: number, v: number): number[] {
+  var S = a.span, i = u*S;
+  if (!(a.distances[i+v] < Infinity)) return [];
+  var path: number[] = [];
+  for (var t=v; t>=0; t=a.parents[i+t]) {
+    // A simple path has at most span vertices.
+    if (path.length>=S) throw new Error("Path runs into a negative cycle, from vertex: " + u + " to: " + v);
+    path.push(t);
+  }
+  return path.reverse();
+}
+// #endregion
+
+
+
+
+// #region SINGLE-SOURCE
+// =====================
+
+/**
+ * Find shortest paths from source(s), with non-negative edge weights.
+ * @param x a graph
+ * @param us source vertex(es)
+ * @param fw weight function (w, u, v)
+ * @returns {distances, parents}
+ */
+export function dijkstra<V, E>(x: ReadonlyGraph<V, E>, us: number | number[], fw: WeightFunction<E>=edgeWeight): ShortestPaths {
+  var a = createPaths(x);
+  var {distances, parents} = a;
+  var done = new Uint8Array(x.span());
+  var heap = new MinHeap();
+  for (var s of sourcesArray(us)) {
+    if (!x.hasVertex(s)) continue;
+    distances[s] = 0;
+    heap.push(s, 0);
+  }
+  while (!heap.isEmpty()) {
+    var u = heap.pop();
+    if (done[u]) continue;
+    done[u] = 1;
+    var du = distances[u];
+    x.forEachEdge(u, (v, w) => {
+      var dv = du + fw(w, u, v);
+      if (dv >= distances[v]) return;
+      distances[v] = dv;
+      parents[v]   = u;
+      heap.push(v, dv);
+    });
+  }
+  return a;
+}
+
+
+/**
+ * Find shortest paths from source(s), with arbitrary edge weights.
+ * @param x a graph
+ * @param us source vertex(es)
+ * @param fw weight function (w, u, v)
+ * @returns {distances, parents, negativeCycle}
+ */
+export function bellmanFord<V, E>(x: ReadonlyGraph<V, E>, us: number | number[], fw: WeightFunction<E>=edgeWeight): BellmanFordPaths {
+  var {distances, parents} = createPaths(x);
+  var ks = x.vertexKeys(), N = ks.length;
+  for (var s of sourcesArray(us))
+    if (x.hasVertex(s)) distances[s] = 0;
+  // Relax all edges, until no distance changes (at most |V| - 1 rounds).
+  var changed = -1;
+  for (var i=0; i<N; ++i) {
+    changed = -1;
+    for (var u of ks) {
+      var du = distances[u];
+      if (du===Infinity) continue;
+      x.forEachEdge(u, (v, w) => {
+        var dv = du + fw(w, u, v);
+        if (dv >= distances[v]) return;
+        distances[v] = dv;
+        parents[v]   = u;
+        changed = v;
+      });
+    }
+    if (changed<0) break;
+  }
+  // A change in the |V|th round means there is a negative cycle.
+  var negativeCycle = changed>=0? findCycle(parents, changed, N) : null;
+  return {distances, parents, negativeCycle};
+}
+
+
+/** Find the cycle in parent pointers, from a vertex leading into it. */
+function findCycle(parents: Int32Array, v: number, N: number): number[] {
+  for (var i=0; i<N; ++i)
+    v = parents[v];
+  var cycle = [v];
+  for (var u=parents[v]; u!==v; u=parents[u])
+    cycle.push(u);
+  return cycle.reverse();
+}
+// #endregion
+
+
+
+
+// #region POINT-TO-POINT
+// ======================
+
+/**
+ * Find the shortest path between two vertices, guided by a heuristic.
+ * @param x a graph
+ * @param s source vertex
+ * @param t target vertex
+ * @param fh heuristic function (v), consistent with edge weights
+ * @param fw weight function (w, u, v)
+ * @returns {distances, parents} | settled vertices only
+ */
+export function astar<V, E>(x: ReadonlyGraph<V, E>, s: number, t: number, fh: HeuristicFunction, fw: WeightFunction<E>=edgeWeight): ShortestPaths {
+  var a = createPaths(x);
+  var {distances, parents} = a;
+  var done = new Uint8Array(x.span());
+  var heap = new MinHeap();
+  if (!x.hasVertex(s)) return a;
+  distances[s] = 0;
+  heap.push(s, fh(s));
+  while (!heap.isEmpty()) {
+    var u = heap.pop();
+    if (done[u]) continue;
+    if (u===t) break;
+    done[u] = 1;
+    var du = distances[u];
+    x.forEachEdge(u, (v, w) => {
+      var dv = du + fw(w, u, v);
+      if (dv >= distances[v]) return;
+      distances[v] = dv;
+      parents[v]   = u;
+      heap.push(v, dv + fh(v));
+    });
+  }
+  return a;
+}
+// #endregion
+
+
+
+
+// #region ALL-PAIRS
+// =================
+
+/**
+ * Find shortest paths between all pairs of vertices, suited to dense graphs.
+ * @param x a graph
+ * @param fw weight function (w, u, v)
+ * @returns {span, distances, parents} | d(u, u) < 0 if u is on a negative cycle
+ */
+export function floydWarshall<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E>=edgeWeight): DistanceMatrix {
+  var S = x.span(), ks = x.vertexKeys();
+  var distances = new Float64Array(S*S).fill(Infinity);
+  var parents   = new Int32Array(S*S).fill(-1);
+  for (var u of ks) {
+    var i = u*S;
+    distances[i+u] = 0;
+    x.forEachEdge(u, (v, w) => {
+      var d = fw(w, u, v);
+      if (d >= distances[i+v]) return;
+      distances[i+v] = d;
+      parents[i+v]   = u;
+    });
+  }
+  for (var k of ks) {
+    var r = k*S;
+    for (var u of ks) {
+      var i = u*S, dk = distances[i+k];
+      if (dk===Infinity) continue;
+      for (var v of ks) {
+        var d = dk + distances[r+v];
+        if (d >= distances[i+v]) continue;
+        distances[i+v] = d;
+        parents[i+v]   = parents[r+v];
+      }
+    }
+  }
+  return {span: S, distances, parents};
+}
+
+
+/**
+ * Find shortest paths between all pairs of vertices, suited to sparse graphs.
+ * @param x a graph
+ * @param fw weight function (w, u, v)
+ * @returns {span, distances, parents}
+ */
+export function johnson<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E>=edgeWeight): DistanceMatrix {
+  var S = x.span(), ks = x.vertexKeys();
+  // Find vertex potentials, as if from a new vertex joined to all others.
+  var b = bellmanFord(x, ks, fw);
+  if (b.negativeCycle) throw new Error("Graph has a negative cycle: " + b.negativeCycle.join(" -> "));
+  var h = b.distances;
+  var fr: WeightFunction<E> = (w, u, v) => fw(w, u, v) + h[u] - h[v];
+  var distances = new Float64Array(S*S).fill(Infinity);
+  var parents   = new Int32Array(S*S).fill(-1);
+  for (var u of ks) {
+    var a = dijkstra(x, u, fr), i = u*S;
+    for (var v of ks) {
+      if (a.distances[v]===Infinity) continue;
+      distances[i+v] = a.distances[v] - h[u] + h[v];
+      parents[i+v]   = a.parents[v];
+    }
+  }
+  return {span: S, distances, parents};
+}
+// #endregion
+
+
+
+
+// #region DISTANCE MEASURES
+// =========================
+
+/**
+ * Find the eccentricity of each vertex in a graph.
+ * @param x a graph
+ * @param a distance matrix of graph
+ * @returns [e₀, e₁, ...] | eᵤ = max(d(u, v)) for all v ∈ V; ∞ for u ∉ V
+ */
+export function eccentricities<V, E>(x: ReadonlyGraph<V, E>, a: DistanceMatrix): Float64Array {
+  var S = a.span, ks = x.vertexKeys();
+  var e = new Float64Array(S).fill(Infinity);
+  for (var u of ks) {
+    var i = u*S, m = 0;
+    for (var v of ks)
+      m = Math.max(m, a.distances[i+v]);
+    e[u] = m;
+  }
+  return e;
+}
+
+
+/**
+ * Find the diameter of a graph.
+ * @param x a graph
+ * @param a distance matrix of graph
+ * @returns max(eᵤ) for all u ∈ V
+ */
+export function diameter<V, E>(x: ReadonlyGraph<V, E>, a: DistanceMatrix): number {
+  var e = eccentricities(x, a), m = 0;
+  x.forEachVertex(u => m = Math.max(m, e[u]));
+  return m;
+}
+
+
+/**
+ * Find the radius of a graph.
+ * @param x a graph
+ * @param a distance matrix of graph
+ * @returns min(eᵤ) for all u ∈ V
+ */
+export function radius<V, E>(x: ReadonlyGraph<V, E>, a: DistanceMatrix): number {
+  var e = eccentricities(x, a), m = Infinity;
+  x.forEachVertex(u => m = Math.min(m, e[u]));
+  return m;
+}
+
+
+/**
+ * Find the center of a graph.
+ * @param x a graph
+ * @param a distance matrix of graph
+ * @returns [u₀, u₁, ...] | eᵤᵢ = radius
+ */
+export function center<V, E>(x: ReadonlyGraph<V, E>, a: DistanceMatrix): number[] {
+  var e = eccentricities(x, a), m = Infinity;
+  x.forEachVertex(u => m = Math.min(m, e[u]));
+  return x.vertexKeys().filter(u => e[u]===m);
+}
+// #endregion
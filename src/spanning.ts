@@ -0,0 +1,168 @@
+import {ReadonlyGraph, WeightFunction, Graph, edgeWeight} from "./index";
+import {UnionFind} from "./_unionfind";
+import {MinHeap} from "./_heap";
+
+
+
+
+// #region TYPES
+// =============
+
+/** Minimum spanning tree (or forest, if disconnected) of a graph. */
+export interface SpanningForest<V, E> {
+  /** Undirected graph with all vertices, and edges of the tree. */
+  graph: Graph<V, E>;
+  /** Total weight of edges in the tree. */
+  weight: number;
+}
+
+
+/** Edges of a graph (each undirected edge once), as parallel lists. */
+interface EdgeLists<E> {
+  /** Source vertices. */
+  sources: number[];
+  /** Target vertices. */
+  targets: number[];
+  /** Edge values. */
+  values: E[];
+  /** Edge weights. */
+  weights: number[];
+}
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/** List the edges of a graph, ignoring direction and self-loops. */
+function edgeLists<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E>): EdgeLists<E> {
+  var directed = x.isDirected();
+  var a: EdgeLists<E> = {sources: [], targets: [], values: [], weights: []};
+  x.forEachVertex(u => x.forEachEdge(u, (v, w) => {
+    if (u===v || (!directed && u>v)) return;
+    a.sources.push(u);
+    a.targets.push(v);
+    a.values.push(w);
+    a.weights.push(fw(w, u, v));
+  }));
+  return a;
+}
+
+
+/** Create a forest with the vertices of a graph, and no edges. */
+function emptyForest<V, E>(x: ReadonlyGraph<V, E>): SpanningForest<V, E> {
+  var y = new Graph<V, E>(x.vertexValue(-1), x.edgeValue(-1, -1));
+  x.forEachVertex((u, d) => y.addVertex(u, d));
+  return {graph: y, weight: 0};
+}
+// #endregion
+
+
+
+
+// #region MINIMUM SPANNING TREE
+// =============================
+
+/**
+ * Find a minimum spanning forest of a graph (Kruskal's algorithm).
+ * @param x a graph (edge directions are ignored)
+ * @param fw weight function (w, u, v)
+ * @returns {graph, weight} | graph has edges of minimum total weight that connect each component
+ */
+export function kruskal<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E>=edgeWeight): SpanningForest<V, E> {
+  var a = emptyForest(x), y = a.graph;
+  var {sources, targets, values, weights} = edgeLists(x, fw);
+  var is = sources.map((_, i) => i).sort((i, j) => weights[i] - weights[j] || i - j);
+  var sets = new UnionFind(x.span());
+  for (var i of is) {
+    if (!sets.union(sources[i], targets[i])) continue;
+    y.addEdge(sources[i], targets[i], values[i]);
+    a.weight += weights[i];
+  }
+  y.update();
+  return a;
+}
+
+
+/**
+ * Find a minimum spanning forest of a graph (Prim's algorithm).
+ * @param x a graph (edge directions are ignored)
+ * @param fw weight function (w, u, v)
+ * @returns {graph, weight} | graph has edges of minimum total weight that connect each component
+ */
+export function prim<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E>=edgeWeight): SpanningForest<V, E> {
+  var a = emptyForest(x), y = a.graph;
+  var S = x.span(), directed = x.isDirected();
+  var done = new Uint8Array(S);
+  var costs = new Float64Array(S).fill(Infinity);
+  var parents = new Int32Array(S).fill(-1);
+  var values: E[] = new Array(S);
+  var heap = new MinHeap();
+  // Relax the edge [u, v] (or [v, u], if reversed) of the tree.
+  var relax = (u: number, v: number, w: E, reversed: boolean) => {
+    if (done[v]) return;
+    var c = reversed? fw(w, v, u) : fw(w, u, v);
+    if (c>=costs[v]) return;
+    costs[v]   = c;
+    parents[v] = u;
+    values[v]  = w;
+    heap.push(v, c);
+  };
+  x.forEachVertex(s => {
+    if (done[s]) return;
+    heap.push(s, 0);
+    while (!heap.isEmpty()) {
+      var u = heap.pop();
+      if (done[u]) continue;
+      done[u] = 1;
+      if (parents[u]>=0) {
+        y.addEdge(parents[u], u, values[u]);
+        a.weight += costs[u];
+      }
+      x.forEachEdge(u, (v, w) => relax(u, v, w, false));
+      if (directed) x.forEachInEdge(u, (v, w) => relax(u, v, w, true));
+    }
+  });
+  y.update();
+  return a;
+}
+
+
+/**
+ * Find a minimum spanning forest of a graph (Borůvka's algorithm).
+ * @param x a graph (edge directions are ignored)
+ * @param fw weight function (w, u, v)
+ * @returns {graph, weight} | graph has edges of minimum total weight that connect each component
+ */
+export function boruvka<V, E>(x: ReadonlyGraph<V, E>, fw: WeightFunction<E>=edgeWeight): SpanningForest<V, E> {
+  var a = emptyForest(x), y = a.graph;
+  var {sources, targets, values, weights} = edgeLists(x, fw);
+  var S = x.span(), M = sources.length;
+  var sets = new UnionFind(S);
+  var cheapest = new Int32Array(S);
+  // Edge i comes before edge j, with ties broken by index (to avoid cycles).
+  var before = (i: number, j: number) => j<0 || weights[i]<weights[j] || (weights[i]===weights[j] && i<j);
+  for (var merged=true; merged;) {
+    merged = false;
+    cheapest.fill(-1);
+    // Find the cheapest edge leaving each component.
+    for (var i=0; i<M; ++i) {
+      var r = sets.find(sources[i]), s = sets.find(targets[i]);
+      if (r===s) continue;
+      if (before(i, cheapest[r])) cheapest[r] = i;
+      if (before(i, cheapest[s])) cheapest[s] = i;
+    }
+    for (var r=0; r<S; ++r) {
+      var i = cheapest[r];
+      if (i<0 || !sets.union(sources[i], targets[i])) continue;
+      y.addEdge(sources[i], targets[i], values[i]);
+      a.weight += weights[i];
+      merged = true;
+    }
+  }
+  y.update();
+  return a;
+}
+// #endregion
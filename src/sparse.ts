@@ -0,0 +1,324 @@
+import {ReadonlyGraph, DiGraph, Graph} from "./index";
+import {WriteTextOptions} from "./text";
+
+
+
+
+// #region TYPES
+// =============
+
+/** Text to read, as a string or a stream of chunks (such as a Node readable stream). */
+export type TextSource = string | AsyncIterable<string | Uint8Array>;
+
+
+/**
+ * Report progress of reading a file.
+ * @param done number of entries read
+ * @param total number of entries in file (-1 if unknown)
+ */
+export type ProgressFunction = (done: number, total: number) => void;
+
+
+/** Options for reading a sparse graph file. */
+export interface ReadSparseOptions {
+  /** Function to report progress, called every 65536 entries, and at the end. */
+  progress?: ProgressFunction;
+}
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/** List batches of lines in text, as they become available. */
+async function* readLines(source: TextSource): AsyncIterableIterator<string[]> {
+  if (typeof source==="string") { yield source.split(/\r?\n/); return; }
+  var decoder = new TextDecoder(), rest = "";
+  for await (var chunk of source) {
+    var ls = (rest + (typeof chunk==="string"? chunk : decoder.decode(chunk, {stream: true}))).split(/\r?\n/);
+    rest = ls.pop()!;
+    yield ls;
+  }
+  rest += decoder.decode();
+  if (rest.length>0) yield [rest];
+}
+
+
+/** Parse an integer field on a line of a file, or throw if not in [min, max]. */
+function parseInteger(s: string, name: string, ln: number, min: number=0, max: number=Infinity): number {
+  var a = Number(s);
+  if (!Number.isInteger(a) || a<min || a>max) throw new Error("Invalid " + name + " on line " + ln + ": " + s);
+  return a;
+}
+
+
+/** Parse a (finite) number field on a line of a file, or throw. */
+function parseNumber(s: string, name: string, ln: number): number {
+  var a = Number(s);
+  if (s==null || s.length===0 || !Number.isFinite(a)) throw new Error("Invalid " + name + " on line " + ln + ": " + s);
+  return a;
+}
+
+
+/** Create a graph with vertices [0, n), to read into. */
+function createGraph(directed: boolean, n: number): DiGraph<number, number> | Graph<number, number> {
+  var x = directed? new DiGraph<number, number>(0, 1) : new Graph<number, number>(0, 1);
+  for (var u=0; u<n; ++u)
+    x.addVertex(u, 0);
+  return x;
+}
+// #endregion
+
+
+
+
+// #region MATRIX MARKET
+// =====================
+
+/**
+ * Read a Matrix Market (coordinate) file as a graph.
+ * @param source text of file
+ * @param opt read options {progress}
+ * @returns DiGraph if general (or skew-symmetric), Graph if symmetric; with 0-based vertex ids
+ */
+export async function readMtx(source: TextSource, opt: ReadSparseOptions={}): Promise<DiGraph<number, number> | Graph<number, number>> {
+  var x: DiGraph<number, number> | Graph<number, number> | null = null;
+  var header = false, pattern = false, symmetric = false, skew = false;
+  var fp = opt.progress, done = 0, total = -1, rows = 0, cols = 0, ln = 0;
+  for await (var ls of readLines(source)) {
+    for (var l of ls) {
+      ++ln;
+      if (!header) {
+        header = true;
+        var [banner, object, format, field, symmetry] = l.trim().toLowerCase().split(/\s+/);
+        if (banner!=="%%matrixmarket" || object!=="matrix") throw new Error("Invalid Matrix Market header: " + l);
+        if (format!=="coordinate") throw new Error("Unsupported Matrix Market format: " + format);
+        if (field==="complex" || symmetry==="hermitian") throw new Error("Unsupported Matrix Market field: " + field + " " + symmetry);
+        pattern   = field==="pattern";
+        symmetric = symmetry==="symmetric";
+        skew      = symmetry==="skew-symmetric";
+        continue;
+      }
+      var t = l.trim();
+      if (t.length===0 || t[0]==="%") continue;
+      var ts = t.split(/\s+/);
+      if (!x) {
+        rows = parseInteger(ts[0], "rows", ln);
+        cols = parseInteger(ts[1], "columns", ln);
+        x = createGraph(!symmetric, Math.max(rows, cols));
+        total = parseInteger(ts[2], "entries", ln);
+        continue;
+      }
+      var u = parseInteger(ts[0], "row", ln, 1, rows) - 1;
+      var v = parseInteger(ts[1], "column", ln, 1, cols) - 1;
+      var w = pattern? 1 : parseNumber(ts[2], "weight", ln);
+      x.addEdge(u, v, w);
+      if (skew && u!==v) x.addEdge(v, u, -w);
+      if (fp && (++done & 0xFFFF)===0) fp(done, total);
+    }
+  }
+  if (!x) throw new Error("Missing Matrix Market size line");
+  x.update();
+  if (fp) fp(done, total);
+  return x;
+}
+
+
+/**
+ * List the lines of a Matrix Market (coordinate) file for a graph.
+ * @param x a graph
+ * @param opt write options {weights}
+ * @yields header, size line, and "u v [w]" lines with 1-based vertex ids
+ */
+export function* iwriteMtx<V, E>(x: ReadonlyGraph<V, E>, opt: WriteTextOptions={}): IterableIterator<string> {
+  var weights = opt.weights==null? true : opt.weights;
+  var directed = x.isDirected(), S = x.span();
+  // Symmetric matrices store only the lower triangle (u ≥ v).
+  var M = 0;
+  x.forEachVertex(u => x.forEachEdge(u, v => { if (directed || u>=v) ++M; }));
+  yield `%%MatrixMarket matrix coordinate ${weights? "real" : "pattern"} ${directed? "general" : "symmetric"}`;
+  yield `${S} ${S} ${M}`;
+  for (var u=0; u<S; ++u) {
+    for (var [v, w] of x.iedges(u)) {
+      if (!directed && u<v) continue;
+      yield weights? `${u+1} ${v+1} ${w}` : `${u+1} ${v+1}`;
+    }
+  }
+}
+
+
+/**
+ * Write a Matrix Market (coordinate) file for a graph.
+ * @param x a graph
+ * @param opt write options {weights}
+ * @returns text of file
+ */
+export function writeMtx<V, E>(x: ReadonlyGraph<V, E>, opt: WriteTextOptions={}): string {
+  return [...iwriteMtx(x, opt)].join("\n") + "\n";
+}
+// #endregion
+
+
+
+
+// #region SNAP
+// ============
+
+/**
+ * Read a SNAP edge list file as a graph.
+ * @param source text of file, with "# Undirected graph ..." header for an undirected graph
+ * @param opt read options {progress}
+ * @returns DiGraph, or Graph if undirected
+ */
+export async function readSnap(source: TextSource, opt: ReadSparseOptions={}): Promise<DiGraph<number, number> | Graph<number, number>> {
+  var x: DiGraph<number, number> | Graph<number, number> | null = null;
+  var directed = true;
+  var fp = opt.progress, done = 0, total = -1, ln = 0;
+  for await (var ls of readLines(source)) {
+    for (var l of ls) {
+      ++ln;
+      var t = l.trim();
+      if (t.length===0) continue;
+      if (t[0]==="#") {
+        if (x) continue;
+        if (/^#\s*undirected/i.test(t)) directed = false;
+        var m = /Edges:\s*(\d+)/.exec(t);
+        if (m) total = Number(m[1]);
+        continue;
+      }
+      if (!x) x = createGraph(directed, 0);
+      var ts = t.split(/\s+/);
+      var u = parseInteger(ts[0], "vertex", ln);
+      var v = parseInteger(ts[1], "vertex", ln);
+      x.addEdge(u, v, ts.length>2? parseNumber(ts[2], "weight", ln) : 1);
+      if (fp && (++done & 0xFFFF)===0) fp(done, total);
+    }
+  }
+  if (!x) x = createGraph(directed, 0);
+  x.update();
+  if (fp) fp(done, total);
+  return x;
+}
+
+
+/**
+ * List the lines of a SNAP edge list file for a graph.
+ * @param x a graph
+ * @param opt write options {weights}
+ * @yields header comments, and tab-separated "u v [w]" lines (once per undirected edge)
+ */
+export function* iwriteSnap<V, E>(x: ReadonlyGraph<V, E>, opt: WriteTextOptions={}): IterableIterator<string> {
+  var weights = opt.weights==null? false : opt.weights;
+  var directed = x.isDirected();
+  yield `# ${directed? "Directed" : "Undirected"} graph`;
+  yield `# Nodes: ${x.order()} Edges: ${x.size()}`;
+  yield weights? "# FromNodeId\tToNodeId\tWeight" : "# FromNodeId\tToNodeId";
+  for (var u of x.ivertexKeys()) {
+    for (var [v, w] of x.iedges(u)) {
+      if (!directed && u>v) continue;
+      yield weights? `${u}\t${v}\t${w}` : `${u}\t${v}`;
+    }
+  }
+}
+
+
+/**
+ * Write a SNAP edge list file for a graph.
+ * @param x a graph
+ * @param opt write options {weights [false]}
+ * @returns text of file
+ */
+export function writeSnap<V, E>(x: ReadonlyGraph<V, E>, opt: WriteTextOptions={}): string {
+  return [...iwriteSnap(x, opt)].join("\n") + "\n";
+}
+// #endregion
+
+
+
+
+// #region METIS
+// =============
+
+/**
+ * Read a METIS graph file as an undirected graph.
+ * @param source text of file
+ * @param opt read options {progress}
+ * @returns Graph with 0-based vertex ids, first vertex weight as vertex data, and edge weights
+ */
+export async function readMetis(source: TextSource, opt: ReadSparseOptions={}): Promise<Graph<number, number>> {
+  var x: Graph<number, number> | null = null;
+  var hasSizes = false, hasWeights = false, hasEdgeWeights = false, ncon = 0;
+  var N = 0, u = 0;
+  var fp = opt.progress, done = 0, total = -1, ln = 0;
+  for await (var ls of readLines(source)) {
+    for (var l of ls) {
+      ++ln;
+      var t = l.trim();
+      if (t[0]==="%") continue;
+      if (!x) {
+        if (t.length===0) continue;
+        var hs = t.split(/\s+/), fmt = (hs[2] || "0").padStart(3, "0");
+        N = parseInteger(hs[0], "vertices", ln);
+        hasSizes       = fmt[0]==="1";
+        hasWeights     = fmt[1]==="1";
+        hasEdgeWeights = fmt[2]==="1";
+        ncon = hasWeights? (hs[3]? parseInteger(hs[3], "constraints", ln) : 1) : 0;
+        x = new Graph<number, number>(0, 1);
+        for (var v=0; v<N; ++v)
+          x.addVertex(v, 0);
+        total = 2 * parseInteger(hs[1], "edges", ln);
+        continue;
+      }
+      // Each line (even if empty) lists the neighbours of a vertex.
+      if (u>=N) continue;
+      var ts = t.length>0? t.split(/\s+/) : [], i = 0;
+      if (hasSizes) ++i;
+      if (ncon>0) x.setVertexValue(u, parseNumber(ts[i], "vertex weight", ln));
+      i += ncon;
+      while (i<ts.length) {
+        var v = parseInteger(ts[i++], "vertex", ln, 1, N) - 1;
+        x.addEdge(u, v, hasEdgeWeights? parseNumber(ts[i++], "weight", ln) : 1);
+        if (fp && (++done & 0xFFFF)===0) fp(done, total);
+      }
+      ++u;
+    }
+  }
+  if (!x) throw new Error("Missing METIS header line");
+  x.update();
+  if (fp) fp(done, total);
+  return x;
+}
+
+
+/**
+ * List the lines of a METIS graph file for an undirected graph.
+ * @param x an undirected graph (without self-loops)
+ * @param opt write options {weights}
+ * @yields header "n m [fmt]", and a line of 1-based neighbours (with weights) for each vertex in [0, span)
+ */
+export function* iwriteMetis<V, E>(x: ReadonlyGraph<V, E>, opt: WriteTextOptions={}): IterableIterator<string> {
+  if (x.isDirected()) throw new Error("METIS format needs an undirected graph");
+  var weights = opt.weights==null? true : opt.weights;
+  var S = x.span();
+  yield weights? `${S} ${x.size()} 001` : `${S} ${x.size()}`;
+  for (var u=0; u<S; ++u) {
+    var a: string[] = [];
+    for (var [v, w] of x.iedges(u))
+      a.push(weights? `${v+1} ${w}` : `${v+1}`);
+    yield a.join(" ");
+  }
+}
+
+
+/**
+ * Write a METIS graph file for an undirected graph.
+ * @param x an undirected graph (without self-loops)
+ * @param opt write options {weights}
+ * @returns text of file
+ */
+export function writeMetis<V, E>(x: ReadonlyGraph<V, E>, opt: WriteTextOptions={}): string {
+  return [...iwriteMetis(x, opt)].join("\n") + "\n";
+}
+// #endregion
@@ -0,0 +1,238 @@
+import {ReadonlyGraph, MutableGraph, DiGraph, Graph} from "./index";
+import {forEachEdgeOnce} from "./_edges";
+
+
+
+
+// #region TYPES
+// =============
+
+/** Options for reading a text graph format. */
+export interface ReadTextOptions {
+  /** Characters that start a comment line ["#%"]. */
+  comments?: string;
+}
+
+
+/** Options for writing a text graph format. */
+export interface WriteTextOptions {
+  /** Whether to write edge weights [true]. */
+  weights?: boolean;
+}
+
+
+/** A graph in JSON form. */
+export interface GraphJson<V, E> {
+  /** Whether graph is directed. */
+  directed: boolean;
+  /** Default vertex data. */
+  vertexValue: V;
+  /** Default edge weight. */
+  edgeValue: E;
+  /** Vertices, with their data. */
+  vertices: [number, V][];
+  /** Edges, with their weights (once per undirected edge). */
+  edges: [number, number, E][];
+}
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/** List the tokens of each non-empty, non-comment line of text. */
+function* textLines(text: string, opt: ReadTextOptions): IterableIterator<string[]> {
+  var comments = opt.comments==null? "#%" : opt.comments;
+  for (var line of text.split(/\r?\n/)) {
+    var l = line.trim();
+    if (l.length===0 || comments.includes(l[0])) continue;
+    yield l.split(/\s+/);
+  }
+}
+
+
+/** Parse a vertex id, or throw. */
+function parseVertex(s: string): number {
+  var v = Number(s);
+  if (!Number.isInteger(v) || v<0) throw new Error("Invalid vertex: " + s);
+  return v;
+}
+// #endregion
+
+
+
+
+// #region SUMMARY
+// ===============
+
+/**
+ * Write a summary of a graph, as in the C++ writeGraph().
+ * @param x a graph
+ * @param detailed whether to write each vertex, with its edges [false]
+ * @param fk key function, to label each vertex (v) [v]
+ * @returns "order: |V| size: |E| [directed] {}" | with "u:d -> v:w ..." lines, if detailed
+ */
+export function writeGraph<V, E>(x: ReadonlyGraph<V, E>, detailed: boolean=false, fk: (v: number) => unknown=v => v): string {
+  var a = "order: " + x.order() + " size: " + x.size();
+  a += x.isDirected()? " [directed]" : " [undirected]";
+  if (!detailed) return a + " {}";
+  a += " {\n";
+  x.forEachVertex((u, d) => {
+    a += fk(u) + ":" + d + " ->";
+    x.forEachEdge(u, (v, w) => a += " " + fk(v) + ":" + w);
+    a += "\n";
+  });
+  return a + "}";
+}
+// #endregion
+
+
+
+
+// #region EDGE LIST
+// =================
+
+/**
+ * Read an edge list into a graph.
+ * @param x target graph
+ * @param text lines of "u v [w]", or "u" for a vertex alone
+ * @param opt read options {comments}
+ * @returns x
+ */
+export function readEdgeList<V, G extends MutableGraph<V, number>>(x: G, text: string, opt: ReadTextOptions={}): G {
+  var _V = x.vertexValue(-1), _E = x.edgeValue(-1, -1);
+  for (var ts of textLines(text, opt)) {
+    var u = parseVertex(ts[0]);
+    if (ts.length===1) { x.addVertex(u, _V); continue; }
+    var v = parseVertex(ts[1]);
+    x.addEdge(u, v, ts.length>2? Number(ts[2]) : _E);
+  }
+  x.update();
+  return x;
+}
+
+
+/**
+ * Write the edge list of a graph.
+ * @param x a graph
+ * @param opt write options {weights}
+ * @returns lines of "u v [w]", and "u" for vertices without edges
+ */
+export function writeEdgeList<V, E>(x: ReadonlyGraph<V, E>, opt: WriteTextOptions={}): string {
+  var weights = opt.weights==null? true : opt.weights;
+  var a: string[] = [];
+  x.forEachVertex(u => {
+    if (x.degree(u)===0 && x.inDegree(u)===0) a.push(String(u));
+  });
+  forEachEdgeOnce(x, (u, v, w) => a.push(weights? `${u} ${v} ${w}` : `${u} ${v}`));
+  return a.join("\n") + (a.length>0? "\n" : "");
+}
+// #endregion
+
+
+
+
+// #region ADJACENCY LIST
+// ======================
+
+/**
+ * Read an adjacency list into a graph.
+ * @param x target graph
+ * @param text lines of "u v₀[:w₀] v₁[:w₁] ..."
+ * @param opt read options {comments}
+ * @returns x
+ */
+export function readAdjacencyList<V, G extends MutableGraph<V, number>>(x: G, text: string, opt: ReadTextOptions={}): G {
+  var _V = x.vertexValue(-1), _E = x.edgeValue(-1, -1);
+  for (var ts of textLines(text, opt)) {
+    var u = parseVertex(ts[0]);
+    x.addVertex(u, _V);
+    for (var i=1; i<ts.length; ++i) {
+      var [s, w] = ts[i].split(":");
+      x.addEdge(u, parseVertex(s), w==null? _E : Number(w));
+    }
+  }
+  x.update();
+  return x;
+}
+
+
+/**
+ * Write the adjacency list of a graph.
+ * @param x a graph
+ * @param opt write options {weights}
+ * @returns lines of "u v₀[:w₀] v₁[:w₁] ...", one per vertex
+ */
+export function writeAdjacencyList<V, E>(x: ReadonlyGraph<V, E>, opt: WriteTextOptions={}): string {
+  var weights = opt.weights==null? true : opt.weights;
+  var a = "";
+  x.forEachVertex(u => {
+    a += u;
+    x.forEachEdge(u, (v, w) => a += weights? ` ${v}:${w}` : ` ${v}`);
+    a += "\n";
+  });
+  return a;
+}
+// #endregion
+
+
+
+
+// #region JSON
+// ============
+
+/**
+ * Convert a graph to JSON form.
+ * @param x a graph
+ * @returns {directed, vertexValue, edgeValue, vertices, edges}
+ */
+export function toJson<V, E>(x: ReadonlyGraph<V, E>): GraphJson<V, E> {
+  var edges: [number, number, E][] = [];
+  forEachEdgeOnce(x, (u, v, w) => edges.push([u, v, w]));
+  return {
+    directed:    x.isDirected(),
+    vertexValue: x.vertexValue(-1),
+    edgeValue:   x.edgeValue(-1, -1),
+    vertices:    x.vertices(),
+    edges,
+  };
+}
+
+
+/**
+ * Convert JSON form to a graph.
+ * @param a {directed, vertexValue, edgeValue, vertices, edges}
+ * @returns DiGraph if directed, Graph otherwise
+ */
+export function fromJson<V, E>(a: GraphJson<V, E>): DiGraph<V, E> | Graph<V, E> {
+  var x = a.directed? new DiGraph<V, E>(a.vertexValue, a.edgeValue) : new Graph<V, E>(a.vertexValue, a.edgeValue);
+  for (var [u, d] of a.vertices)
+    x.addVertex(u, d);
+  for (var [u, v, w] of a.edges)
+    x.addEdge(u, v, w);
+  x.update();
+  return x;
+}
+
+
+/**
+ * Write a graph as JSON, keeping vertex data, edge weights, and directedness.
+ * @param x a graph (with JSON-serializable data and weights)
+ * @returns JSON text
+ */
+export function writeJson<V, E>(x: ReadonlyGraph<V, E>): string {
+  return JSON.stringify(toJson(x));
+}
+
+
+/**
+ * Read a graph from JSON, as written by writeJson().
+ * @param text JSON text
+ * @returns DiGraph if directed, Graph otherwise
+ */
+export function readJson<V, E>(text: string): DiGraph<V, E> | Graph<V, E> {
+  return fromJson<V, E>(JSON.parse(text));
+}
+// #endregion
@@ -0,0 +1,246 @@
+import {ReadonlyGraph, OutDiGraph, DiGraph, Graph} from "./index";
+import {forEachEdgeOnce} from "./_edges";
+
+
+
+
+// #region TYPES
+// =============
+
+/**
+ * Merge two conflicting values, such as vertex data or edge weights.
+ * @param a value in first graph
+ * @param b value in second graph
+ * @returns merged value
+ */
+export type MergeFunction<T> = (a: T, b: T) => T;
+
+
+/**
+ * Tell if a vertex should be kept.
+ * @param v vertex
+ * @param d vertex data
+ */
+export type VertexTestFunction<V> = (v: number, d: V) => boolean;
+
+
+/**
+ * Tell if an edge should be kept.
+ * @param u source vertex
+ * @param v target vertex
+ * @param w edge weight
+ */
+export type EdgeTestFunction<E> = (u: number, v: number, w: E) => boolean;
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/** Create an empty graph with the same default values, directed or not. */
+function emptyLike<V, E>(x: ReadonlyGraph<V, E>, directed: boolean=x.isDirected()): DiGraph<V, E> | Graph<V, E> {
+  var _V = x.vertexValue(-1), _E = x.edgeValue(-1, -1);
+  return directed? new DiGraph<V, E>(_V, _E) : new Graph<V, E>(_V, _E);
+}
+
+
+/** Ensure two graphs are both directed, or both undirected. */
+function checkKind<V, E>(x: ReadonlyGraph<V, E>, y: ReadonlyGraph<V, E>): void {
+  if (x.isDirected()!==y.isDirected()) throw new Error("Graphs must both be directed or undirected");
+}
+// #endregion
+
+
+
+
+// #region SUBGRAPH
+// ================
+
+/**
+ * Get the subgraph induced by a set of vertices.
+ * @param x a graph
+ * @param vs vertices to keep, or a test function (v, d)
+ * @returns x[vs] | edges of x with both ends in vs
+ */
+export function subgraph<V, E>(x: ReadonlyGraph<V, E>, vs: Iterable<number> | VertexTestFunction<V>): DiGraph<V, E> | Graph<V, E> {
+  var y = emptyLike(x);
+  var keep = new Uint8Array(x.span());
+  if (typeof vs==="function") x.forEachVertex((v, d) => { if (vs(v, d)) keep[v] = 1; });
+  else for (var v of vs)
+    if (x.hasVertex(v)) keep[v] = 1;
+  x.forEachVertex((v, d) => { if (keep[v]) y.addVertex(v, d); });
+  forEachEdgeOnce(x, (u, v, w) => {
+    if (keep[u] && keep[v]) y.addEdge(u, v, w);
+  });
+  y.update();
+  return y;
+}
+
+
+/**
+ * Get the subgraph with edges that pass a test (and all vertices).
+ * @param x a graph
+ * @param ft test function (u, v, w)
+ * @returns y | V(y) = V(x), E(y) = {[u, v] ∈ E(x) | ft(u, v, w)}
+ */
+export function edgeSubgraph<V, E>(x: ReadonlyGraph<V, E>, ft: EdgeTestFunction<E>): DiGraph<V, E> | Graph<V, E> {
+  var y = emptyLike(x);
+  x.forEachVertex((v, d) => y.addVertex(v, d));
+  forEachEdgeOnce(x, (u, v, w) => {
+    if (ft(u, v, w)) y.addEdge(u, v, w);
+  });
+  y.update();
+  return y;
+}
+// #endregion
+
+
+
+
+// #region CONVERT
+// ===============
+
+/**
+ * Get the transpose of a graph, with all edges reversed.
+ * @param x a graph
+ * @returns xᵀ | [v, u] ∈ E(xᵀ) for all [u, v] ∈ E(x); a copy if undirected
+ */
+export function transpose<V, E>(x: ReadonlyGraph<V, E>): DiGraph<V, E> | Graph<V, E> {
+  var y = emptyLike(x);
+  x.forEachVertex((v, d) => y.addVertex(v, d));
+  forEachEdgeOnce(x, (u, v, w) => y.addEdge(v, u, w));
+  y.update();
+  return y;
+}
+
+
+/**
+ * Convert a graph to an undirected graph.
+ * @param x a graph
+ * @param fm merge function for weights of [u, v] and [v, u] (a, b) [a]
+ * @returns y | [u, v] ∈ E(y) if [u, v] ∈ E(x) or [v, u] ∈ E(x)
+ */
+export function toUndirected<V, E>(x: ReadonlyGraph<V, E>, fm: MergeFunction<E>=(a, b) => a): Graph<V, E> {
+  var y = emptyLike(x, false) as Graph<V, E>;
+  x.forEachVertex((v, d) => y.addVertex(v, d));
+  x.forEachVertex(u => x.forEachEdge(u, (v, w) => {
+    if (u===v || !x.hasEdge(v, u)) y.addEdge(u, v, w);
+    else if (u<v) y.addEdge(u, v, fm(w, x.edgeValue(v, u)));
+  }));
+  y.update();
+  return y;
+}
+
+
+/**
+ * Map the vertex data and edge weights of a graph into a new graph of the same kind.
+ * @param x a graph
+ * @param fv map function for vertex data (d, v)
+ * @param fe map function for edge weights (w, u, v)
+ * @returns y | V(y) = V(x), E(y) = E(x); with default values mapped (with vertex -1)
+ */
+export function retype<V, E, V2, E2>(x: ReadonlyGraph<V, E>, fv: (d: V, v: number) => V2, fe: (w: E, u: number, v: number) => E2): OutDiGraph<V2, E2> {
+  var _V = fv(x.vertexValue(-1), -1), _E = fe(x.edgeValue(-1, -1), -1, -1);
+  var y: OutDiGraph<V2, E2>;
+  if (x instanceof Graph)            y = new Graph<V2, E2>(_V, _E);
+  else if (x instanceof DiGraph)     y = new DiGraph<V2, E2>(_V, _E);
+  else if (x instanceof OutDiGraph)  y = new OutDiGraph<V2, E2>(_V, _E);
+  else y = x.isDirected()? new DiGraph<V2, E2>(_V, _E) : new Graph<V2, E2>(_V, _E);
+  x.forEachVertex((v, d) => y.addVertex(v, fv(d, v)));
+  forEachEdgeOnce(x, (u, v, w) => y.addEdge(u, v, fe(w, u, v)));
+  y.update();
+  return y;
+}
+// #endregion
+
+
+
+
+// #region SET OPERATIONS
+// ======================
+
+/**
+ * Get the union of two graphs.
+ * @param x a graph
+ * @param y another graph (of same kind)
+ * @param fv merge function for data of common vertices (a, b) [a]
+ * @param fe merge function for weights of common edges (a, b) [a]
+ * @returns z | V(z) = V(x) ∪ V(y), E(z) = E(x) ∪ E(y)
+ */
+export function union<V, E>(x: ReadonlyGraph<V, E>, y: ReadonlyGraph<V, E>, fv: MergeFunction<V>=(a, b) => a, fe: MergeFunction<E>=(a, b) => a): DiGraph<V, E> | Graph<V, E> {
+  checkKind(x, y);
+  var z = emptyLike(x);
+  x.forEachVertex((v, d) => z.addVertex(v, y.hasVertex(v)? fv(d, y.vertexValue(v)) : d));
+  y.forEachVertex((v, d) => { if (!x.hasVertex(v)) z.addVertex(v, d); });
+  forEachEdgeOnce(x, (u, v, w) => z.addEdge(u, v, y.hasEdge(u, v)? fe(w, y.edgeValue(u, v)) : w));
+  forEachEdgeOnce(y, (u, v, w) => { if (!x.hasEdge(u, v)) z.addEdge(u, v, w); });
+  z.update();
+  return z;
+}
+
+
+/**
+ * Get the intersection of two graphs.
+ * @param x a graph
+ * @param y another graph (of same kind)
+ * @param fv merge function for data of common vertices (a, b) [a]
+ * @param fe merge function for weights of common edges (a, b) [a]
+ * @returns z | V(z) = V(x) ∩ V(y), E(z) = E(x) ∩ E(y)
+ */
+export function intersection<V, E>(x: ReadonlyGraph<V, E>, y: ReadonlyGraph<V, E>, fv: MergeFunction<V>=(a, b) => a, fe: MergeFunction<E>=(a, b) => a): DiGraph<V, E> | Graph<V, E> {
+  checkKind(x, y);
+  var z = emptyLike(x);
+  x.forEachVertex((v, d) => { if (y.hasVertex(v)) z.addVertex(v, fv(d, y.vertexValue(v))); });
+  forEachEdgeOnce(x, (u, v, w) => { if (y.hasEdge(u, v)) z.addEdge(u, v, fe(w, y.edgeValue(u, v))); });
+  z.update();
+  return z;
+}
+
+
+/**
+ * Get the (edge) difference of two graphs.
+ * @param x a graph
+ * @param y another graph (of same kind)
+ * @returns z | V(z) = V(x), E(z) = E(x) \ E(y)
+ */
+export function difference<V, E>(x: ReadonlyGraph<V, E>, y: ReadonlyGraph<V, E>): DiGraph<V, E> | Graph<V, E> {
+  checkKind(x, y);
+  var z = emptyLike(x);
+  x.forEachVertex((v, d) => z.addVertex(v, d));
+  forEachEdgeOnce(x, (u, v, w) => { if (!y.hasEdge(u, v)) z.addEdge(u, v, w); });
+  z.update();
+  return z;
+}
+
+
+/**
+ * Get the composition of two graphs, as relations (x then y).
+ * @param x a graph
+ * @param y another graph (of same kind)
+ * @param fv merge function for data of common vertices (a, b) [a]
+ * @param fe combine function for weights of [u, v] ∈ E(x) and [v, w] ∈ E(y) (a, b) [a]
+ * @returns z | V(z) = V(x) ∪ V(y), [u, w] ∈ E(z) if [u, v] ∈ E(x) and [v, w] ∈ E(y), with weight from first such v
+ */
+export function composition<V, E>(x: ReadonlyGraph<V, E>, y: ReadonlyGraph<V, E>, fv: MergeFunction<V>=(a, b) => a, fe: MergeFunction<E>=(a, b) => a): DiGraph<V, E> | Graph<V, E> {
+  checkKind(x, y);
+  var directed = x.isDirected();
+  var z = emptyLike(x);
+  x.forEachVertex((v, d) => z.addVertex(v, y.hasVertex(v)? fv(d, y.vertexValue(v)) : d));
+  y.forEachVertex((v, d) => { if (!x.hasVertex(v)) z.addVertex(v, d); });
+  // Edges added so far, from each vertex (only to tell undirected duplicates).
+  var added: Set<number>[] = [];
+  x.forEachVertex(u => {
+    var ws = new Map<number, E>();
+    x.forEachEdge(u, (v, a) => y.forEachEdge(v, (w, b) => {
+      if (!ws.has(w)) ws.set(w, fe(a, b));
+    }));
+    if (!directed) added[u] = new Set(ws.keys());
+    for (var [w, c] of ws)
+      if (directed || w>=u || !added[w] || !added[w].has(u)) z.addEdge(u, w, c);
+  });
+  z.update();
+  return z;
+}
+// #endregion
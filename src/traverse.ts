@@ -0,0 +1,222 @@
+import type {ReadonlyGraph} from "./index";
+
+
+
+
+// #region TYPES
+// =============
+
+/** Direction of edges to follow from a vertex. */
+export type EdgeDirection = "out" | "in" | "both";
+
+
+/** Options for a graph traversal. */
+export interface TraverseOptions {
+  /** Direction of edges to follow ["out"]. */
+  direction?: EdgeDirection;
+  /** Maximum depth of a vertex from the sources [∞]. */
+  depth?: number;
+}
+
+
+/** Callbacks for events during a graph traversal. */
+export interface TraverseVisitor {
+  /** Called when a vertex is first reached (v, d). */
+  discover?: (v: number, d: number) => void;
+  /** Called when all edges of a vertex have been explored (v, d). */
+  finish?: (v: number, d: number) => void;
+  /** Called when a vertex is reached through an edge (u, v). */
+  treeEdge?: (u: number, v: number) => void;
+  /** Called when an edge leads to an ancestor (dfs), or to an already reached vertex (bfs) (u, v). */
+  backEdge?: (u: number, v: number) => void;
+}
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/**
+ * Get the neighbours of a vertex, in the given direction.
+ * @param x a graph
+ * @param u vertex
+ * @param dir direction of edges to follow
+ * @returns [v₀, v₁, ...] | [u, vᵢ] ∈ E (out); [vᵢ, u] ∈ E (in)
+ */
+export function neighbours<V, E>(x: ReadonlyGraph<V, E>, u: number, dir: EdgeDirection="out"): number[] {
+  if (dir==="in" && x.isDirected()) return x.inEdgeKeys(u);
+  if (dir==="both" && x.isDirected()) return x.edgeKeys(u).concat(x.inEdgeKeys(u));
+  return x.edgeKeys(u);
+}
+
+
+/**
+ * Normalize source vertex(es) into an array.
+ * @param us source vertex(es)
+ * @returns [u₀, u₁, ...]
+ */
+export function sourcesArray(us: number | number[]): number[] {
+  return Array.isArray(us)? us : [us];
+}
+// #endregion
+
+
+
+
+// #region BREADTH-FIRST SEARCH
+// ============================
+
+/**
+ * Traverse a graph in breadth-first order, calling visitor functions.
+ * @param x a graph
+ * @param us source vertex(es)
+ * @param fn visitor functions
+ * @param opt traversal options {direction, depth}
+ */
+export function bfs<V, E>(x: ReadonlyGraph<V, E>, us: number | number[], fn: TraverseVisitor, opt: TraverseOptions={}): void {
+  var dir = opt.direction || "out";
+  var D   = opt.depth==null? Infinity : opt.depth;
+  var depths = new Float64Array(x.span()).fill(-1);
+  var queue: number[] = [];
+  for (var u of sourcesArray(us)) {
+    if (!x.hasVertex(u) || depths[u]>=0) continue;
+    depths[u] = 0;
+    queue.push(u);
+    if (fn.discover) fn.discover(u, 0);
+  }
+  for (var i=0; i<queue.length; ++i) {
+    var u = queue[i], d = depths[u];
+    if (d<D) for (var v of neighbours(x, u, dir)) {
+      if (depths[v]>=0) { if (fn.backEdge) fn.backEdge(u, v); continue; }
+      depths[v] = d+1;
+      queue.push(v);
+      if (fn.treeEdge) fn.treeEdge(u, v);
+      if (fn.discover) fn.discover(v, d+1);
+    }
+    if (fn.finish) fn.finish(u, d);
+  }
+}
+
+
+/**
+ * List vertices of a graph in breadth-first order.
+ * @param x a graph
+ * @param us source vertex(es)
+ * @param opt traversal options {direction, depth}
+ * @yields v₀, v₁, ... | vᵢ reachable from us, in increasing depth
+ */
+export function* ibfs<V, E>(x: ReadonlyGraph<V, E>, us: number | number[], opt: TraverseOptions={}): IterableIterator<number> {
+  var dir = opt.direction || "out";
+  var D   = opt.depth==null? Infinity : opt.depth;
+  var depths = new Float64Array(x.span()).fill(-1);
+  var queue: number[] = [];
+  for (var u of sourcesArray(us)) {
+    if (!x.hasVertex(u) || depths[u]>=0) continue;
+    depths[u] = 0;
+    queue.push(u);
+    yield u;
+  }
+  for (var i=0; i<queue.length; ++i) {
+    var u = queue[i], d = depths[u];
+    if (d>=D) continue;
+    for (var v of neighbours(x, u, dir)) {
+      if (depths[v]>=0) continue;
+      depths[v] = d+1;
+      queue.push(v);
+      yield v;
+    }
+  }
+}
+// #endregion
+
+
+
+
+// #region DEPTH-FIRST SEARCH
+// ==========================
+
+/**
+ * Traverse a graph in depth-first order, calling visitor functions.
+ * @param x a graph
+ * @param us source vertex(es)
+ * @param fn visitor functions
+ * @param opt traversal options {direction, depth}
+ */
+export function dfs<V, E>(x: ReadonlyGraph<V, E>, us: number | number[], fn: TraverseVisitor, opt: TraverseOptions={}): void {
+  var dir = opt.direction || "out";
+  var D   = opt.depth==null? Infinity : opt.depth;
+  // 0: unvisited, 1: on stack, 2: finished.
+  var state = new Uint8Array(x.span());
+  var stack: number[] = [], edges: number[][] = [], index: number[] = [];
+  for (var s of sourcesArray(us)) {
+    if (!x.hasVertex(s) || state[s]!==0) continue;
+    state[s] = 1;
+    if (fn.discover) fn.discover(s, 0);
+    stack.push(s);
+    edges.push(D>0? neighbours(x, s, dir) : []);
+    index.push(0);
+    while (stack.length>0) {
+      var t = stack.length-1, u = stack[t];
+      if (index[t]>=edges[t].length) {
+        state[u] = 2;
+        if (fn.finish) fn.finish(u, t);
+        stack.pop(); edges.pop(); index.pop();
+        continue;
+      }
+      var v = edges[t][index[t]++];
+      if (state[v]===2) continue;
+      if (state[v]===1) {
+        // Skip the reverse of the tree edge in undirected traversal.
+        var p = t>0? stack[t-1] : -1;
+        if ((v!==p || (x.isDirected() && dir!=="both")) && fn.backEdge) fn.backEdge(u, v);
+        continue;
+      }
+      state[v] = 1;
+      if (fn.treeEdge) fn.treeEdge(u, v);
+      if (fn.discover) fn.discover(v, t+1);
+      stack.push(v);
+      edges.push(t+1<D? neighbours(x, v, dir) : []);
+      index.push(0);
+    }
+  }
+}
+
+
+/**
+ * List vertices of a graph in depth-first (pre-)order.
+ * @param x a graph
+ * @param us source vertex(es)
+ * @param opt traversal options {direction, depth}
+ * @yields v₀, v₁, ... | vᵢ reachable from us, in order of discovery
+ */
+export function* idfs<V, E>(x: ReadonlyGraph<V, E>, us: number | number[], opt: TraverseOptions={}): IterableIterator<number> {
+  var dir = opt.direction || "out";
+  var D   = opt.depth==null? Infinity : opt.depth;
+  var visited = new Uint8Array(x.span());
+  var stack: number[] = [], edges: number[][] = [], index: number[] = [];
+  for (var s of sourcesArray(us)) {
+    if (!x.hasVertex(s) || visited[s]) continue;
+    visited[s] = 1;
+    yield s;
+    stack.push(s);
+    edges.push(D>0? neighbours(x, s, dir) : []);
+    index.push(0);
+    while (stack.length>0) {
+      var t = stack.length-1;
+      if (index[t]>=edges[t].length) {
+        stack.pop(); edges.pop(); index.pop();
+        continue;
+      }
+      var v = edges[t][index[t]++];
+      if (visited[v]) continue;
+      visited[v] = 1;
+      yield v;
+      stack.push(v);
+      edges.push(t+1<D? neighbours(x, v, dir) : []);
+      index.push(0);
+    }
+  }
+}
+// #endregion
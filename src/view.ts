@@ -0,0 +1,1090 @@
+import {ReadonlyGraph} from "./index";
+import {VertexTestFunction, EdgeTestFunction} from "./transform";
+import {writeGraph} from "./text";
+
+
+
+
+// #region TYPES
+// =============
+
+/**
+ * Map the data of a vertex.
+ * @param d vertex data
+ * @param v vertex (-1 for default data)
+ * @returns mapped data
+ */
+export type VertexMapFunction<V, V2> = (d: V, v: number) => V2;
+
+
+/**
+ * Map the weight of an edge.
+ * @param w edge weight
+ * @param u source vertex (-1 for default weight)
+ * @param v target vertex (-1 for default weight)
+ * @returns mapped weight
+ */
+export type EdgeMapFunction<E, E2> = (w: E, u: number, v: number) => E2;
+// #endregion
+
+
+
+
+// #region GRAPH VIEW
+// ==================
+
+/**
+ * A read-only view of a graph, computed lazily (without copying).
+ * Subclasses provide vertex and edge access; counts and lists are derived from them.
+ */
+export abstract class GraphView<V, E> implements ReadonlyGraph<V, E> {
+
+  // #region ABOUT
+  // -------------
+
+  /**
+   * Get the maximum vertex-id of graph.
+   * @returns s | s > v for all v ∈ V
+   */
+  abstract span(): number;
+
+
+  /**
+   * Tell if graph is directed.
+   * @returns directed?
+   */
+  abstract isDirected(): boolean;
+
+
+  /**
+   * Check if graph has a vertex.
+   * @param v vertex
+   * @returns v ∈ V?
+   */
+  abstract hasVertex(v: number): boolean;
+
+
+  /**
+   * Check if graph has an edge.
+   * @param u source vertex
+   * @param v target vertex
+   * @returns [u, v] ∈ E?
+   */
+  abstract hasEdge(u: number, v: number): boolean;
+
+
+  /**
+   * Get the number of vertices in graph.
+   * @returns |V|
+   */
+  order(): number {
+    var n = 0;
+    this.forEachVertex(() => ++n);
+    return n;
+  }
+
+
+  /**
+   * Get the number of edges in graph.
+   * @returns |E|
+   */
+  size(): number {
+    var directed = this.isDirected(), m = 0;
+    this.forEachVertex(u => this.forEachEdge(u, v => { if (directed || u<=v) ++m; }));
+    return m;
+  }
+
+
+  /**
+   * Obtain the vertex IDs, and associated vertex data in graph.
+   * @returns [[v₀, d₀], [v₁, d₁], [v₂, d₂], ...] | vᵢ ∈ V
+   */
+  vertices(): [number, V][] {
+    return [...this.ivertices()];
+  }
+
+
+  /**
+   * List the vertex IDs, and associated vertex data in graph.
+   * @yields [v₀, d₀], [v₁, d₁], [v₂, d₂], ... | vᵢ ∈ V
+   */
+  abstract ivertices(): IterableIterator<[number, V]>;
+
+
+  /**
+   * Obtain the vertex IDs in graph.
+   * @returns [v₀, v₁, v₂, ...] | vᵢ ∈ V
+   */
+  vertexKeys(): number[] {
+    return [...this.ivertexKeys()];
+  }
+
+
+  /**
+   * List the vertex IDs in graph.
+   * @yields v₀, v₁, v₂, ... | vᵢ ∈ V
+   */
+  *ivertexKeys(): IterableIterator<number> {
+    for (var [v] of this.ivertices())
+      yield v;
+  }
+
+
+  /**
+   * Obtain the vertex data in graph.
+   * @returns [d₀, d₁, d₂, ...] | vᵢ ∈ V
+   */
+  vertexValues(): V[] {
+    return [...this.ivertexValues()];
+  }
+
+
+  /**
+   * List the vertex data in graph.
+   * @yields d₀, d₁, d₂, ... | vᵢ ∈ V
+   */
+  *ivertexValues(): IterableIterator<V> {
+    for (var [, d] of this.ivertices())
+      yield d;
+  }
+
+
+  /**
+   * Obtain the vertex out-degrees in graph.
+   * @returns [D⁺₀, D⁺₁, D⁺₂, ...] | uᵢ ∈ V; D⁺ᵢ = |edges(uᵢ)|
+   */
+  degrees(): number[] {
+    return [...this.idegrees()];
+  }
+
+
+  /**
+   * List the vertex out-degrees in graph.
+   * @yields D⁺₀, D⁺₁, D⁺₂, ... | uᵢ ∈ V; D⁺ᵢ = |edges(uᵢ)|
+   */
+  *idegrees(): IterableIterator<number> {
+    for (var u of this.ivertexKeys())
+      yield this.degree(u);
+  }
+
+
+  /**
+   * Obtain the vertex in-degrees in graph.
+   * @returns [D⁻₀, D⁻₁, D⁻₂, ...] | vᵢ ∈ V; D⁻ᵢ = |inEdges(vᵢ)|
+   */
+  inDegrees(): number[] {
+    return [...this.iinDegrees()];
+  }
+
+
+  /**
+   * List the vertex in-degrees in graph.
+   * @yields D⁻₀, D⁻₁, D⁻₂, ... | vᵢ ∈ V; D⁻ᵢ = |inEdges(vᵢ)|
+   */
+  *iinDegrees(): IterableIterator<number> {
+    for (var v of this.ivertexKeys())
+      yield this.inDegree(v);
+  }
+
+
+  /**
+   * Obtain the outgoing edge IDs, and associated edge weights for the given vertex in graph.
+   * @param u source vertex
+   * @returns [[v₀, w₀], [v₁, w₁], [v₂, w₂], ...] | [u, vᵢ] ∈ E; wᵢ = w(u, vᵢ)
+   */
+  edges(u: number): [number, E][] {
+    return [...this.iedges(u)];
+  }
+
+
+  /**
+   * List the outgoing edge IDs, and associated edge weights for the given vertex in graph.
+   * @param u source vertex
+   * @yields [v₀, w₀], [v₁, w₁], [v₂, w₂], ... | [u, vᵢ] ∈ E; wᵢ = w(u, vᵢ)
+   */
+  abstract iedges(u: number): IterableIterator<[number, E]>;
+
+
+  /**
+   * Obtain the outgoing edge IDs for the given vertex in graph.
+   * @param u source vertex
+   * @returns [v₀, v₁, v₂, ...] | [u, vᵢ] ∈ E
+   */
+  edgeKeys(u: number): number[] {
+    return [...this.iedgeKeys(u)];
+  }
+
+
+  /**
+   * List the outgoing edge IDs for the given vertex in graph.
+   * @param u source vertex
+   * @yields v₀, v₁, v₂, ... | [u, vᵢ] ∈ E
+   */
+  *iedgeKeys(u: number): IterableIterator<number> {
+    for (var [v] of this.iedges(u))
+      yield v;
+  }
+
+
+  /**
+   * Obtain the outgoing edge weights for the given vertex in graph.
+   * @param u source vertex
+   * @returns [w₀, w₁, w₂, ...] | [u, vᵢ] ∈ E; wᵢ = w(u, vᵢ)
+   */
+  edgeValues(u: number): E[] {
+    return [...this.iedgeValues(u)];
+  }
+
+
+  /**
+   * List the outgoing edge weights for the given vertex in graph.
+   * @param u source vertex
+   * @yields w₀, w₁, w₂, ... | [u, vᵢ] ∈ E; wᵢ = w(u, vᵢ)
+   */
+  *iedgeValues(u: number): IterableIterator<E> {
+    for (var [, w] of this.iedges(u))
+      yield w;
+  }
+
+
+  /**
+   * Obtain the incoming edge IDs, and associated edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @returns [[u₀, w₀], [u₁, w₁], [u₂, w₂], ...] | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  inEdges(v: number): [number, E][] {
+    return [...this.iinEdges(v)];
+  }
+
+
+  /**
+   * List the incoming edge IDs, and associated edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @yields [u₀, w₀], [u₁, w₁], [u₂, w₂], ... | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  abstract iinEdges(v: number): IterableIterator<[number, E]>;
+
+
+  /**
+   * Obtain the incoming edge IDs for the given vertex in graph.
+   * @param v target vertex
+   * @returns [u₀, u₁, u₂, ...] | [uᵢ, v] ∈ E
+   */
+  inEdgeKeys(v: number): number[] {
+    return [...this.iinEdgeKeys(v)];
+  }
+
+
+  /**
+   * List the incoming edge IDs for the given vertex in graph.
+   * @param v target vertex
+   * @yields u₀, u₁, u₂, ... | [uᵢ, v] ∈ E
+   */
+  *iinEdgeKeys(v: number): IterableIterator<number> {
+    for (var [u] of this.iinEdges(v))
+      yield u;
+  }
+
+
+  /**
+   * Obtain the incoming edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @returns [w₀, w₁, w₂, ...] | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  inEdgeValues(v: number): E[] {
+    return [...this.iinEdgeValues(v)];
+  }
+
+
+  /**
+   * List the incoming edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @yields w₀, w₁, w₂, ... | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  *iinEdgeValues(v: number): IterableIterator<E> {
+    for (var [, w] of this.iinEdges(v))
+      yield w;
+  }
+
+
+  /**
+   * Get the out-degree of a vertex in graph.
+   * @param u source vertex
+   * @returns D⁺ᵤ = |edges(u)|
+   */
+  degree(u: number): number {
+    var d = 0;
+    this.forEachEdge(u, () => ++d);
+    return d;
+  }
+
+
+  /**
+   * Get the in-degree of a vertex in graph.
+   * @param v target vertex
+   * @returns D⁻ᵥ = |inEdges(v)|
+   */
+  inDegree(v: number): number {
+    var d = 0;
+    this.forEachInEdge(v, () => ++d);
+    return d;
+  }
+
+
+  /**
+   * Write a summary of graph, as in the C++ writeGraph().
+   * @param detailed whether to write each vertex, with its edges [false]
+   * @returns "order: |V| size: |E| [directed] {}" | with "u:d -> v:w ..." lines, if detailed
+   */
+  toString(detailed: boolean=false): string {
+    return writeGraph(this, detailed);
+  }
+  // #endregion
+
+
+  // #region FOR EACH
+  // ----------------
+
+  /**
+   * Call a function for each vertex in graph.
+   * @param fn process function (v, d)
+   */
+  abstract forEachVertex(fn: (v: number, d: V) => void): void;
+
+
+  /**
+   * Call a function for each outgoing edge of a vertex in graph.
+   * @param u source vertex
+   * @param fn process function (v, w)
+   */
+  abstract forEachEdge(u: number, fn: (v: number, w: E) => void): void;
+
+
+  /**
+   * Call a function for each incoming edge of a vertex in graph.
+   * @param v target vertex
+   * @param fn process function (u, w)
+   */
+  abstract forEachInEdge(v: number, fn: (u: number, w: E) => void): void;
+  // #endregion
+
+
+  // #region ACCESS
+  // --------------
+
+  /**
+   * Get the data associated with a vertex in graph.
+   * @param v vertex
+   * @returns dᵥ | v ∈ V
+   */
+  abstract vertexValue(v: number): V;
+
+
+  /**
+   * Get the weight of an edge in graph.
+   * @param u source vertex
+   * @param v target vertex
+   * @returns wᵤᵥ | [u, v] ∈ E
+   */
+  abstract edgeValue(u: number, v: number): E;
+  // #endregion
+}
+// #endregion
+
+
+
+
+// #region FILTER VIEWS
+// ====================
+
+/** A view of a graph with only the vertices that pass a test (and edges between them). */
+export class VertexFilterView<V, E> extends GraphView<V, E> {
+  private _x: ReadonlyGraph<V, E>;
+  private _ft: VertexTestFunction<V>;
+
+
+  /**
+   * Create a view of a graph, with vertices filtered.
+   * @param x a graph
+   * @param ft test function (v, d), called on each access
+   */
+  constructor(x: ReadonlyGraph<V, E>, ft: VertexTestFunction<V>) {
+    super();
+    this._x  = x;
+    this._ft = ft;
+  }
+
+
+  /**
+   * Get the maximum vertex-id of graph.
+   * @returns s | s > v for all v ∈ V
+   */
+  span(): number {
+    return this._x.span();
+  }
+
+
+  /**
+   * Tell if graph is directed.
+   * @returns directed?
+   */
+  isDirected(): boolean {
+    return this._x.isDirected();
+  }
+
+
+  /**
+   * Check if graph has a vertex.
+   * @param v vertex
+   * @returns v ∈ V?
+   */
+  hasVertex(v: number): boolean {
+    return this._x.hasVertex(v) && this._ft(v, this._x.vertexValue(v));
+  }
+
+
+  /**
+   * Check if graph has an edge.
+   * @param u source vertex
+   * @param v target vertex
+   * @returns [u, v] ∈ E?
+   */
+  hasEdge(u: number, v: number): boolean {
+    return this.hasVertex(u) && this.hasVertex(v) && this._x.hasEdge(u, v);
+  }
+
+
+  /**
+   * List the vertex IDs, and associated vertex data in graph.
+   * @yields [v₀, d₀], [v₁, d₁], [v₂, d₂], ... | vᵢ ∈ V
+   */
+  *ivertices(): IterableIterator<[number, V]> {
+    for (var [v, d] of this._x.ivertices())
+      if (this._ft(v, d)) yield [v, d];
+  }
+
+
+  /**
+   * List the outgoing edge IDs, and associated edge weights for the given vertex in graph.
+   * @param u source vertex
+   * @yields [v₀, w₀], [v₁, w₁], [v₂, w₂], ... | [u, vᵢ] ∈ E; wᵢ = w(u, vᵢ)
+   */
+  *iedges(u: number): IterableIterator<[number, E]> {
+    if (!this.hasVertex(u)) return;
+    for (var [v, w] of this._x.iedges(u))
+      if (this.hasVertex(v)) yield [v, w];
+  }
+
+
+  /**
+   * List the incoming edge IDs, and associated edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @yields [u₀, w₀], [u₁, w₁], [u₂, w₂], ... | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  *iinEdges(v: number): IterableIterator<[number, E]> {
+    if (!this.hasVertex(v)) return;
+    for (var [u, w] of this._x.iinEdges(v))
+      if (this.hasVertex(u)) yield [u, w];
+  }
+
+
+  /**
+   * Call a function for each vertex in graph.
+   * @param fn process function (v, d)
+   */
+  forEachVertex(fn: (v: number, d: V) => void): void {
+    this._x.forEachVertex((v, d) => { if (this._ft(v, d)) fn(v, d); });
+  }
+
+
+  /**
+   * Call a function for each outgoing edge of a vertex in graph.
+   * @param u source vertex
+   * @param fn process function (v, w)
+   */
+  forEachEdge(u: number, fn: (v: number, w: E) => void): void {
+    if (!this.hasVertex(u)) return;
+    this._x.forEachEdge(u, (v, w) => { if (this.hasVertex(v)) fn(v, w); });
+  }
+
+
+  /**
+   * Call a function for each incoming edge of a vertex in graph.
+   * @param v target vertex
+   * @param fn process function (u, w)
+   */
+  forEachInEdge(v: number, fn: (u: number, w: E) => void): void {
+    if (!this.hasVertex(v)) return;
+    this._x.forEachInEdge(v, (u, w) => { if (this.hasVertex(u)) fn(u, w); });
+  }
+
+
+  /**
+   * Get the data associated with a vertex in graph.
+   * @param v vertex
+   * @returns dᵥ | v ∈ V
+   */
+  vertexValue(v: number): V {
+    return this._x.vertexValue(this.hasVertex(v)? v : -1);
+  }
+
+
+  /**
+   * Get the weight of an edge in graph.
+   * @param u source vertex
+   * @param v target vertex
+   * @returns wᵤᵥ | [u, v] ∈ E
+   */
+  edgeValue(u: number, v: number): E {
+    return this.hasVertex(u) && this.hasVertex(v)? this._x.edgeValue(u, v) : this._x.edgeValue(-1, -1);
+  }
+}
+
+
+/** A view of a graph with only the edges that pass a test (and all vertices). */
+export class EdgeFilterView<V, E> extends GraphView<V, E> {
+  private _x: ReadonlyGraph<V, E>;
+  private _ft: EdgeTestFunction<E>;
+
+
+  /**
+   * Create a view of a graph, with edges filtered.
+   * @param x a graph
+   * @param ft test function (u, v, w), called on each access (with u ≤ v, if undirected)
+   */
+  constructor(x: ReadonlyGraph<V, E>, ft: EdgeTestFunction<E>) {
+    super();
+    this._x  = x;
+    this._ft = ft;
+  }
+
+
+  /** Test an edge, with its ends in order if undirected (so that both directions agree). */
+  private _test(u: number, v: number, w: E): boolean {
+    return u<=v || this._x.isDirected()? this._ft(u, v, w) : this._ft(v, u, w);
+  }
+
+
+  /**
+   * Get the maximum vertex-id of graph.
+   * @returns s | s > v for all v ∈ V
+   */
+  span(): number {
+    return this._x.span();
+  }
+
+
+  /**
+   * Get the number of vertices in graph.
+   * @returns |V|
+   */
+  order(): number {
+    return this._x.order();
+  }
+
+
+  /**
+   * Tell if graph is directed.
+   * @returns directed?
+   */
+  isDirected(): boolean {
+    return this._x.isDirected();
+  }
+
+
+  /**
+   * Check if graph has a vertex.
+   * @param v vertex
+   * @returns v ∈ V?
+   */
+  hasVertex(v: number): boolean {
+    return this._x.hasVertex(v);
+  }
+
+
+  /**
+   * Check if graph has an edge.
+   * @param u source vertex
+   * @param v target vertex
+   * @returns [u, v] ∈ E?
+   */
+  hasEdge(u: number, v: number): boolean {
+    return this._x.hasEdge(u, v) && this._test(u, v, this._x.edgeValue(u, v));
+  }
+
+
+  /**
+   * List the vertex IDs, and associated vertex data in graph.
+   * @yields [v₀, d₀], [v₁, d₁], [v₂, d₂], ... | vᵢ ∈ V
+   */
+  ivertices(): IterableIterator<[number, V]> {
+    return this._x.ivertices();
+  }
+
+
+  /**
+   * List the outgoing edge IDs, and associated edge weights for the given vertex in graph.
+   * @param u source vertex
+   * @yields [v₀, w₀], [v₁, w₁], [v₂, w₂], ... | [u, vᵢ] ∈ E; wᵢ = w(u, vᵢ)
+   */
+  *iedges(u: number): IterableIterator<[number, E]> {
+    for (var [v, w] of this._x.iedges(u))
+      if (this._test(u, v, w)) yield [v, w];
+  }
+
+
+  /**
+   * List the incoming edge IDs, and associated edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @yields [u₀, w₀], [u₁, w₁], [u₂, w₂], ... | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  *iinEdges(v: number): IterableIterator<[number, E]> {
+    for (var [u, w] of this._x.iinEdges(v))
+      if (this._test(u, v, w)) yield [u, w];
+  }
+
+
+  /**
+   * Call a function for each vertex in graph.
+   * @param fn process function (v, d)
+   */
+  forEachVertex(fn: (v: number, d: V) => void): void {
+    this._x.forEachVertex(fn);
+  }
+
+
+  /**
+   * Call a function for each outgoing edge of a vertex in graph.
+   * @param u source vertex
+   * @param fn process function (v, w)
+   */
+  forEachEdge(u: number, fn: (v: number, w: E) => void): void {
+    this._x.forEachEdge(u, (v, w) => { if (this._test(u, v, w)) fn(v, w); });
+  }
+
+
+  /**
+   * Call a function for each incoming edge of a vertex in graph.
+   * @param v target vertex
+   * @param fn process function (u, w)
+   */
+  forEachInEdge(v: number, fn: (u: number, w: E) => void): void {
+    this._x.forEachInEdge(v, (u, w) => { if (this._test(u, v, w)) fn(u, w); });
+  }
+
+
+  /**
+   * Get the data associated with a vertex in graph.
+   * @param v vertex
+   * @returns dᵥ | v ∈ V
+   */
+  vertexValue(v: number): V {
+    return this._x.vertexValue(v);
+  }
+
+
+  /**
+   * Get the weight of an edge in graph.
+   * @param u source vertex
+   * @param v target vertex
+   * @returns wᵤᵥ | [u, v] ∈ E
+   */
+  edgeValue(u: number, v: number): E {
+    return this.hasEdge(u, v)? this._x.edgeValue(u, v) : this._x.edgeValue(-1, -1);
+  }
+}
+// #endregion
+
+
+
+
+// #region OTHER VIEWS
+// ===================
+
+/** A view of a graph with all edges reversed (the same graph, if undirected). */
+export class ReversedView<V, E> extends GraphView<V, E> {
+  private _x: ReadonlyGraph<V, E>;
+
+
+  /**
+   * Create a view of a graph, with edges reversed.
+   * @param x a graph
+   */
+  constructor(x: ReadonlyGraph<V, E>) {
+    super();
+    this._x = x;
+  }
+
+
+  /**
+   * Get the maximum vertex-id of graph.
+   * @returns s | s > v for all v ∈ V
+   */
+  span(): number {
+    return this._x.span();
+  }
+
+
+  /**
+   * Get the number of vertices in graph.
+   * @returns |V|
+   */
+  order(): number {
+    return this._x.order();
+  }
+
+
+  /**
+   * Get the number of edges in graph.
+   * @returns |E|
+   */
+  size(): number {
+    return this._x.size();
+  }
+
+
+  /**
+   * Tell if graph is directed.
+   * @returns directed?
+   */
+  isDirected(): boolean {
+    return this._x.isDirected();
+  }
+
+
+  /**
+   * Check if graph has a vertex.
+   * @param v vertex
+   * @returns v ∈ V?
+   */
+  hasVertex(v: number): boolean {
+    return this._x.hasVertex(v);
+  }
+
+
+  /**
+   * Check if graph has an edge.
+   * @param u source vertex
+   * @param v target vertex
+   * @returns [u, v] ∈ E?
+   */
+  hasEdge(u: number, v: number): boolean {
+    return this._x.hasEdge(v, u);
+  }
+
+
+  /**
+   * List the vertex IDs, and associated vertex data in graph.
+   * @yields [v₀, d₀], [v₁, d₁], [v₂, d₂], ... | vᵢ ∈ V
+   */
+  ivertices(): IterableIterator<[number, V]> {
+    return this._x.ivertices();
+  }
+
+
+  /**
+   * List the outgoing edge IDs, and associated edge weights for the given vertex in graph.
+   * @param u source vertex
+   * @yields [v₀, w₀], [v₁, w₁], [v₂, w₂], ... | [u, vᵢ] ∈ E; wᵢ = w(u, vᵢ)
+   */
+  iedges(u: number): IterableIterator<[number, E]> {
+    return this._x.iinEdges(u);
+  }
+
+
+  /**
+   * List the incoming edge IDs, and associated edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @yields [u₀, w₀], [u₁, w₁], [u₂, w₂], ... | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  iinEdges(v: number): IterableIterator<[number, E]> {
+    return this._x.iedges(v);
+  }
+
+
+  /**
+   * Get the out-degree of a vertex in graph.
+   * @param u source vertex
+   * @returns D⁺ᵤ = |edges(u)|
+   */
+  degree(u: number): number {
+    return this._x.inDegree(u);
+  }
+
+
+  /**
+   * Get the in-degree of a vertex in graph.
+   * @param v target vertex
+   * @returns D⁻ᵥ = |inEdges(v)|
+   */
+  inDegree(v: number): number {
+    return this._x.degree(v);
+  }
+
+
+  /**
+   * Call a function for each vertex in graph.
+   * @param fn process function (v, d)
+   */
+  forEachVertex(fn: (v: number, d: V) => void): void {
+    this._x.forEachVertex(fn);
+  }
+
+
+  /**
+   * Call a function for each outgoing edge of a vertex in graph.
+   * @param u source vertex
+   * @param fn process function (v, w)
+   */
+  forEachEdge(u: number, fn: (v: number, w: E) => void): void {
+    this._x.forEachInEdge(u, fn);
+  }
+
+
+  /**
+   * Call a function for each incoming edge of a vertex in graph.
+   * @param v target vertex
+   * @param fn process function (u, w)
+   */
+  forEachInEdge(v: number, fn: (u: number, w: E) => void): void {
+    this._x.forEachEdge(v, fn);
+  }
+
+
+  /**
+   * Get the data associated with a vertex in graph.
+   * @param v vertex
+   * @returns dᵥ | v ∈ V
+   */
+  vertexValue(v: number): V {
+    return this._x.vertexValue(v);
+  }
+
+
+  /**
+   * Get the weight of an edge in graph.
+   * @param u source vertex
+   * @param v target vertex
+   * @returns wᵤᵥ | [u, v] ∈ E
+   */
+  edgeValue(u: number, v: number): E {
+    return this._x.edgeValue(v, u);
+  }
+}
+
+
+/** A view of a graph with vertex data and edge weights mapped (on each access). */
+export class MappedView<V, E, V2, E2> extends GraphView<V2, E2> {
+  private _x: ReadonlyGraph<V, E>;
+  private _fv: VertexMapFunction<V, V2>;
+  private _fe: EdgeMapFunction<E, E2>;
+
+
+  /**
+   * Create a view of a graph, with values mapped.
+   * @param x a graph
+   * @param fv map function for vertex data (d, v)
+   * @param fe map function for edge weights (w, u, v), called with u ≤ v if undirected
+   */
+  constructor(x: ReadonlyGraph<V, E>, fv: VertexMapFunction<V, V2>, fe: EdgeMapFunction<E, E2>) {
+    super();
+    this._x  = x;
+    this._fv = fv;
+    this._fe = fe;
+  }
+
+
+  /** Map an edge weight, with its ends in order if undirected (so that both directions agree). */
+  private _map(w: E, u: number, v: number): E2 {
+    return u<=v || this._x.isDirected()? this._fe(w, u, v) : this._fe(w, v, u);
+  }
+
+
+  /**
+   * Get the maximum vertex-id of graph.
+   * @returns s | s > v for all v ∈ V
+   */
+  span(): number {
+    return this._x.span();
+  }
+
+
+  /**
+   * Get the number of vertices in graph.
+   * @returns |V|
+   */
+  order(): number {
+    return this._x.order();
+  }
+
+
+  /**
+   * Get the number of edges in graph.
+   * @returns |E|
+   */
+  size(): number {
+    return this._x.size();
+  }
+
+
+  /**
+   * Tell if graph is directed.
+   * @returns directed?
+   */
+  isDirected(): boolean {
+    return this._x.isDirected();
+  }
+
+
+  /**
+   * Check if graph has a vertex.
+   * @param v vertex
+   * @returns v ∈ V?
+   */
+  hasVertex(v: number): boolean {
+    return this._x.hasVertex(v);
+  }
+
+
+  /**
+   * Check if graph has an edge.
+   * @param u source vertex
+   * @param v target vertex
+   * @returns [u, v] ∈ E?
+   */
+  hasEdge(u: number, v: number): boolean {
+    return this._x.hasEdge(u, v);
+  }
+
+
+  /**
+   * List the vertex IDs, and associated vertex data in graph.
+   * @yields [v₀, d₀], [v₁, d₁], [v₂, d₂], ... | vᵢ ∈ V
+   */
+  *ivertices(): IterableIterator<[number, V2]> {
+    for (var [v, d] of this._x.ivertices())
+      yield [v, this._fv(d, v)];
+  }
+
+
+  /**
+   * List the vertex IDs in graph.
+   * @yields v₀, v₁, v₂, ... | vᵢ ∈ V
+   */
+  ivertexKeys(): IterableIterator<number> {
+    return this._x.ivertexKeys();
+  }
+
+
+  /**
+   * List the outgoing edge IDs, and associated edge weights for the given vertex in graph.
+   * @param u source vertex
+   * @yields [v₀, w₀], [v₁, w₁], [v₂, w₂], ... | [u, vᵢ] ∈ E; wᵢ = w(u, vᵢ)
+   */
+  *iedges(u: number): IterableIterator<[number, E2]> {
+    for (var [v, w] of this._x.iedges(u))
+      yield [v, this._map(w, u, v)];
+  }
+
+
+  /**
+   * List the outgoing edge IDs for the given vertex in graph.
+   * @param u source vertex
+   * @yields v₀, v₁, v₂, ... | [u, vᵢ] ∈ E
+   */
+  iedgeKeys(u: number): IterableIterator<number> {
+    return this._x.iedgeKeys(u);
+  }
+
+
+  /**
+   * List the incoming edge IDs, and associated edge weights for the given vertex in graph.
+   * @param v target vertex
+   * @yields [u₀, w₀], [u₁, w₁], [u₂, w₂], ... | [uᵢ, v] ∈ E; wᵢ = w(uᵢ, v)
+   */
+  *iinEdges(v: number): IterableIterator<[number, E2]> {
+    for (var [u, w] of this._x.iinEdges(v))
+      yield [u, this._map(w, u, v)];
+  }
+
+
+  /**
+   * List the incoming edge IDs for the given vertex in graph.
+   * @param v target vertex
+   * @yields u₀, u₁, u₂, ... | [uᵢ, v] ∈ E
+   */
+  iinEdgeKeys(v: number): IterableIterator<number> {
+    return this._x.iinEdgeKeys(v);
+  }
+
+
+  /**
+   * Get the out-degree of a vertex in graph.
+   * @param u source vertex
+   * @returns D⁺ᵤ = |edges(u)|
+   */
+  degree(u: number): number {
+    return this._x.degree(u);
+  }
+
+
+  /**
+   * Get the in-degree of a vertex in graph.
+   * @param v target vertex
+   * @returns D⁻ᵥ = |inEdges(v)|
+   */
+  inDegree(v: number): number {
+    return this._x.inDegree(v);
+  }
+
+
+  /**
+   * Call a function for each vertex in graph.
+   * @param fn process function (v, d)
+   */
+  forEachVertex(fn: (v: number, d: V2) => void): void {
+    this._x.forEachVertex((v, d) => fn(v, this._fv(d, v)));
+  }
+
+
+  /**
+   * Call a function for each outgoing edge of a vertex in graph.
+   * @param u source vertex
+   * @param fn process function (v, w)
+   */
+  forEachEdge(u: number, fn: (v: number, w: E2) => void): void {
+    this._x.forEachEdge(u, (v, w) => fn(v, this._map(w, u, v)));
+  }
+
+
+  /**
+   * Call a function for each incoming edge of a vertex in graph.
+   * @param v target vertex
+   * @param fn process function (u, w)
+   */
+  forEachInEdge(v: number, fn: (u: number, w: E2) => void): void {
+    this._x.forEachInEdge(v, (u, w) => fn(u, this._map(w, u, v)));
+  }
+
+
+  /**
+   * Get the data associated with a vertex in graph.
+   * @param v vertex
+   * @returns dᵥ | v ∈ V
+   */
+  vertexValue(v: number): V2 {
+    return this._fv(this._x.vertexValue(v), this._x.hasVertex(v)? v : -1);
+  }
+
+
+  /**
+   * Get the weight of an edge in graph.
+   * @param u source vertex
+   * @param v target vertex
+   * @returns wᵤᵥ | [u, v] ∈ E
+   */
+  edgeValue(u: number, v: number): E2 {
+    return this._x.hasEdge(u, v)? this._map(this._x.edgeValue(u, v), u, v) : this._fe(this._x.edgeValue(-1, -1), -1, -1);
+  }
+}
+// #endregion
@@ -0,0 +1,313 @@
+import {ReadonlyGraph, DiGraph, Graph} from "./index";
+import {XmlElement, parseXml, escapeXml, childrenNamed} from "./_xml";
+import {buildGraph} from "./_build";
+import {forEachEdgeOnce} from "./_edges";
+
+
+
+
+// #region TYPES
+// =============
+
+/** Value of an attribute of a vertex or edge. */
+export type AttributeValue = string | number | boolean;
+
+
+/** Attributes of a vertex or edge, by name. */
+export interface Attributes {
+  [name: string]: AttributeValue;
+}
+
+
+/** Options for writing a graph as XML (GraphML or GEXF). */
+export interface WriteXmlOptions<V, E> {
+  /** Get the attributes of a vertex [d if an object, {value: d} otherwise]. */
+  vertexAttributes?: (d: V, v: number) => Attributes;
+  /** Get the attributes of an edge [w if an object, {weight: w} otherwise]. */
+  edgeAttributes?: (w: E, u: number, v: number) => Attributes;
+}
+
+
+/** Options for reading a graph from XML (GraphML or GEXF). */
+export interface ReadXmlOptions<V, E> {
+  /** Get the vertex data from its attributes, and id in file [attributes]. */
+  vertexValue?: (a: Attributes, id: string) => V;
+  /** Get the edge weight from its attributes, and source and target ids in file [attributes]. */
+  edgeValue?: (a: Attributes, source: string, target: string) => E;
+  /** Default vertex data of graph [vertexValue(default attributes, "")]. */
+  vertexDefault?: V;
+  /** Default edge weight of graph [edgeValue(default attributes, "", "")]. */
+  edgeDefault?: E;
+}
+
+
+/** Declaration of an attribute, in a file. */
+interface AttributeKey {
+  /** Attribute name. */
+  name: string;
+  /** Attribute type, as named in file. */
+  type: string;
+  /** Default value, if any. */
+  default: AttributeValue | null;
+}
+// #endregion
+
+
+
+
+// #region HELPERS
+// ===============
+
+/** Get the attributes of a value, if it is an object; or as a single attribute. */
+function defaultAttributes(x: unknown, name: string): Attributes {
+  if (x==null) return {};
+  if (typeof x==="object") return x as Attributes;
+  return {[name]: x as AttributeValue};
+}
+
+
+/** Get the attributes of all vertices and edges, in order of listing (undirected edges once). */
+function graphAttributes<V, E>(x: ReadonlyGraph<V, E>, opt: WriteXmlOptions<V, E>): [Attributes[], [number, number, Attributes][]] {
+  var fv = opt.vertexAttributes || ((d: V) => defaultAttributes(d, "value"));
+  var fe = opt.edgeAttributes   || ((w: E) => defaultAttributes(w, "weight"));
+  var vs: Attributes[] = [], es: [number, number, Attributes][] = [];
+  x.forEachVertex((u, d) => vs[u] = fv(d, u));
+  forEachEdgeOnce(x, (u, v, w) => es.push([u, v, fe(w, u, v)]));
+  return [vs, es];
+}
+
+
+/** Type of each JavaScript value type, in GraphML and GEXF. */
+const ATTRIBUTE_TYPES: {[t: string]: string} = {string: "string", number: "double", boolean: "boolean"};
+
+
+/** Find the names and types of attributes, in order of first appearance. */
+function attributeTypes(as: Iterable<Attributes>): Map<string, string> {
+  var a = new Map<string, string>();
+  for (var attrs of as) {
+    for (var k in attrs) {
+      var t = ATTRIBUTE_TYPES[typeof attrs[k]];
+      if (!a.has(k)) a.set(k, t);
+      else if (a.get(k)!==t) a.set(k, "string");
+    }
+  }
+  return a;
+}
+
+
+/** Parse the value of an attribute, of a given type. */
+function parseAttribute(s: string, type: string): AttributeValue {
+  switch (type.toLowerCase()) {
+    case "boolean": return s.trim()==="true" || s.trim()==="1";
+    case "int": case "integer": case "long":
+    case "float": case "double": return Number(s);
+  }
+  return s;
+}
+
+
+/** Get the function to read vertex data from attributes. */
+function readVertex<V, E>(opt: ReadXmlOptions<V, E>): (a: Attributes, id: string) => V {
+  return opt.vertexValue || (a => a as unknown as V);
+}
+
+
+/** Get the function to read edge weight from attributes. */
+function readEdge<V, E>(opt: ReadXmlOptions<V, E>): (a: Attributes, source: string, target: string) => E {
+  return opt.edgeValue || (a => a as unknown as E);
+}
+// #endregion
+
+
+
+
+// #region GRAPHML
+// ===============
+
+/**
+ * Write a graph as GraphML.
+ * @param x a graph
+ * @param opt write options {vertexAttributes, edgeAttributes}
+ * @returns GraphML text, with vertices as "n0", "n1", ...
+ */
+export function writeGraphml<V, E>(x: ReadonlyGraph<V, E>, opt: WriteXmlOptions<V, E>={}): string {
+  var [vs, es] = graphAttributes(x, opt);
+  var vkeys = attributeTypes(vs.filter(a => a!=null));
+  var ekeys = attributeTypes(es.map(e => e[2]));
+  var vids  = new Map<string, string>(), eids = new Map<string, string>();
+  var a = `<?xml version="1.0" encoding="UTF-8"?>\n`;
+  a += `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">\n`;
+  for (var [k, t] of vkeys) {
+    vids.set(k, "v" + vids.size);
+    a += `  <key id="${vids.get(k)}" for="node" attr.name="${escapeXml(k)}" attr.type="${t}"/>\n`;
+  }
+  for (var [k, t] of ekeys) {
+    eids.set(k, "e" + eids.size);
+    a += `  <key id="${eids.get(k)}" for="edge" attr.name="${escapeXml(k)}" attr.type="${t}"/>\n`;
+  }
+  a += `  <graph id="G" edgedefault="${x.isDirected()? "directed" : "undirected"}">\n`;
+  x.forEachVertex(u => {
+    a += `    <node id="n${u}">`;
+    for (var k in vs[u])
+      a += `<data key="${vids.get(k)}">${escapeXml(String(vs[u][k]))}</data>`;
+    a += `</node>\n`;
+  });
+  for (var [u, v, attrs] of es) {
+    a += `    <edge source="n${u}" target="n${v}">`;
+    for (var k in attrs)
+      a += `<data key="${eids.get(k)}">${escapeXml(String(attrs[k]))}</data>`;
+    a += `</edge>\n`;
+  }
+  a += `  </graph>\n`;
+  a += `</graphml>\n`;
+  return a;
+}
+
+
+/**
+ * Read a graph from GraphML (the first graph in file).
+ * @param text GraphML text
+ * @param opt read options {vertexValue, edgeValue, vertexDefault, edgeDefault}
+ * @returns DiGraph if edgedefault is directed, Graph otherwise
+ */
+export function readGraphml<V=Attributes, E=Attributes>(text: string, opt: ReadXmlOptions<V, E>={}): DiGraph<V, E> | Graph<V, E> {
+  var root = parseXml(text);
+  var g = childrenNamed(root, "graph")[0];
+  if (!g) throw new Error("Missing GraphML graph element");
+  // Read attribute declarations, with their defaults.
+  var keys = new Map<string, AttributeKey>();
+  var vdefaults: Attributes = {}, edefaults: Attributes = {};
+  for (var k of childrenNamed(root, "key")) {
+    var name = k.attributes["attr.name"] || k.attributes.id;
+    var type = k.attributes["attr.type"] || "string";
+    var d = childrenNamed(k, "default")[0];
+    var key: AttributeKey = {name, type, default: d? parseAttribute(d.text, type) : null};
+    keys.set(k.attributes.id, key);
+    var scope = k.attributes.for || "all";
+    if (key.default==null) continue;
+    if (scope==="node" || scope==="all") vdefaults[name] = key.default;
+    if (scope==="edge" || scope==="all") edefaults[name] = key.default;
+  }
+  var readData = (e: XmlElement) => {
+    var a: Attributes = {};
+    for (var d of childrenNamed(e, "data")) {
+      var key = keys.get(d.attributes.key);
+      if (key) a[key.name] = parseAttribute(d.text, key.type);
+      else a[d.attributes.key] = d.text;
+    }
+    return a;
+  };
+  var vs: [string, Attributes][] = childrenNamed(g, "node").map(e => [e.attributes.id, readData(e)]);
+  var es: [string, string, Attributes][] = childrenNamed(g, "edge").map(e => [e.attributes.source, e.attributes.target, readData(e)]);
+  return buildGraph(g.attributes.edgedefault!=="undirected", vdefaults, edefaults, vs, es, readVertex(opt), readEdge(opt), opt.vertexDefault, opt.edgeDefault);
+}
+// #endregion
+
+
+
+
+// #region GEXF
+// ============
+
+/**
+ * Write a graph as GEXF (1.3).
+ * @param x a graph
+ * @param opt write options {vertexAttributes, edgeAttributes}
+ * @returns GEXF text, with "label" and "weight" attributes written as such
+ */
+export function writeGexf<V, E>(x: ReadonlyGraph<V, E>, opt: WriteXmlOptions<V, E>={}): string {
+  var [vs, es] = graphAttributes(x, opt);
+  var vkeys = attributeTypes(vs.filter(a => a!=null));
+  var ekeys = attributeTypes(es.map(e => e[2]));
+  vkeys.delete("label");
+  ekeys.delete("label");
+  if (ekeys.get("weight")==="double") ekeys.delete("weight");
+  var writeKeys = (cls: string, keys: Map<string, string>) => {
+    if (keys.size===0) return "";
+    var a = `    <attributes class="${cls}">\n`, i = 0;
+    for (var [k, t] of keys)
+      a += `      <attribute id="${i++}" title="${escapeXml(k)}" type="${t}"/>\n`;
+    return a + `    </attributes>\n`;
+  };
+  var writeValues = (keys: Map<string, string>, attrs: Attributes) => {
+    var a = "", i = 0;
+    for (var k of keys.keys()) {
+      if (k in attrs) a += `<attvalue for="${i}" value="${escapeXml(String(attrs[k]))}"/>`;
+      ++i;
+    }
+    return a? `<attvalues>${a}</attvalues>` : "";
+  };
+  var a = `<?xml version="1.0" encoding="UTF-8"?>\n`;
+  a += `<gexf xmlns="http://gexf.net/1.3" version="1.3">\n`;
+  a += `  <graph mode="static" defaultedgetype="${x.isDirected()? "directed" : "undirected"}">\n`;
+  a += writeKeys("node", vkeys);
+  a += writeKeys("edge", ekeys);
+  a += `    <nodes>\n`;
+  x.forEachVertex(u => {
+    var attrs = vs[u], label = "label" in attrs? ` label="${escapeXml(String(attrs.label))}"` : "";
+    a += `      <node id="${u}"${label}>${writeValues(vkeys, attrs)}</node>\n`;
+  });
+  a += `    </nodes>\n`;
+  a += `    <edges>\n`;
+  es.forEach(([u, v, attrs], i) => {
+    var label  = "label" in attrs? ` label="${escapeXml(String(attrs.label))}"` : "";
+    var weight = !ekeys.has("weight") && typeof attrs.weight==="number"? ` weight="${attrs.weight}"` : "";
+    a += `      <edge id="${i}" source="${u}" target="${v}"${label}${weight}>${writeValues(ekeys, attrs)}</edge>\n`;
+  });
+  a += `    </edges>\n`;
+  a += `  </graph>\n`;
+  a += `</gexf>\n`;
+  return a;
+}
+
+
+/**
+ * Read a graph from GEXF.
+ * @param text GEXF text
+ * @param opt read options {vertexValue, edgeValue, vertexDefault, edgeDefault}
+ * @returns DiGraph if defaultedgetype is directed, Graph otherwise; with "label" and "weight" as attributes
+ */
+export function readGexf<V=Attributes, E=Attributes>(text: string, opt: ReadXmlOptions<V, E>={}): DiGraph<V, E> | Graph<V, E> {
+  var root = parseXml(text);
+  var g = childrenNamed(root, "graph")[0];
+  if (!g) throw new Error("Missing GEXF graph element");
+  // Read attribute declarations, with their defaults.
+  var vkeys = new Map<string, AttributeKey>(), ekeys = new Map<string, AttributeKey>();
+  var vdefaults: Attributes = {}, edefaults: Attributes = {};
+  for (var c of childrenNamed(g, "attributes")) {
+    var node = c.attributes.class!=="edge";
+    for (var k of childrenNamed(c, "attribute")) {
+      var name = k.attributes.title || k.attributes.id;
+      var type = k.attributes.type || "string";
+      var d = childrenNamed(k, "default")[0];
+      var key: AttributeKey = {name, type, default: d? parseAttribute(d.text, type) : null};
+      (node? vkeys : ekeys).set(k.attributes.id, key);
+      if (key.default!=null) (node? vdefaults : edefaults)[name] = key.default;
+    }
+  }
+  var readValues = (e: XmlElement, keys: Map<string, AttributeKey>) => {
+    var a: Attributes = {};
+    if (e.attributes.label!=null) a.label = e.attributes.label;
+    for (var vs of childrenNamed(e, "attvalues")) {
+      for (var v of childrenNamed(vs, "attvalue")) {
+        var id = v.attributes.for || v.attributes.id, key = keys.get(id);
+        if (key) a[key.name] = parseAttribute(v.attributes.value, key.type);
+        else a[id] = v.attributes.value;
+      }
+    }
+    return a;
+  };
+  var vs: [string, Attributes][] = [], es: [string, string, Attributes][] = [];
+  for (var ns of childrenNamed(g, "nodes"))
+    for (var e of childrenNamed(ns, "node"))
+      vs.push([e.attributes.id, readValues(e, vkeys)]);
+  for (var ns of childrenNamed(g, "edges")) {
+    for (var e of childrenNamed(ns, "edge")) {
+      var a = readValues(e, ekeys);
+      if (e.attributes.weight!=null) a.weight = Number(e.attributes.weight);
+      es.push([e.attributes.source, e.attributes.target, a]);
+    }
+  }
+  return buildGraph(g.attributes.defaultedgetype==="directed", vdefaults, edefaults, vs, es, readVertex(opt), readEdge(opt), opt.vertexDefault, opt.edgeDefault);
+}
+// #endregion
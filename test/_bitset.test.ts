@@ -0,0 +1,141 @@
+import {describe, test, expect} from "vitest";
+import {LazyBitset, MapBitset} from "../src/_bitset";
+import {Bitset, BitsetFactory, LazyPairBitset, OutDiGraph, DiGraph, Graph} from "../src/index";
+
+
+
+
+// Every bitset backend, by name.
+const BACKENDS: [string, BitsetFactory<number>][] = [
+  ["LazyPairBitset", () => new LazyPairBitset<number>()],
+  ["LazyBitset",     () => new LazyBitset<number, number>()],
+  ["MapBitset",      () => new MapBitset<number, number>()],
+];
+
+
+// Get the entries of a bitset, sorted by key.
+function sortedEntries(x: Bitset<number, number>): [number, number][] {
+  return x.entries().sort((a, b) => a[0] - b[0]);
+}
+
+
+// Get the edges of each vertex of a graph, sorted by target.
+function sortedEdges(x: OutDiGraph<number, number>): [number, [number, number][]][] {
+  var a: [number, [number, number][]][] = [];
+  x.forEachVertex(u => a.push([u, x.edges(u).sort((p, q) => p[0] - q[0])]));
+  return a;
+}
+
+
+// Apply the same changes to a directed graph.
+function changeDiGraph(x: DiGraph<number, number>): DiGraph<number, number> {
+  for (var u=0; u<6; ++u)
+    for (var v=0; v<6; ++v)
+      if ((u*7 + v*3) % 4===0) x.addEdge(u, v, 10*u + v);
+  x.update();
+  x.removeEdge(0, 0);
+  x.addEdge(5, 1, 99);
+  x.removeEdges(2);
+  x.addEdge(2, 3, 23);
+  x.removeInEdges(4);
+  x.removeVertex(3);
+  x.addEdge(3, 5, 35);
+  x.update();
+  x.setEdgeValue(5, 1, 51);
+  return x;
+}
+
+
+// Apply the same changes to an undirected graph.
+function changeGraph(x: Graph<number, number>): Graph<number, number> {
+  for (var u=0; u<6; ++u)
+    for (var v=u; v<6; ++v)
+      if ((u*5 + v) % 3===0) x.addEdge(u, v, 10*u + v);
+  x.update();
+  x.removeEdge(0, 0);
+  x.removeEdge(3, 1);
+  x.removeEdges(4);
+  x.addEdge(4, 4, 44);
+  x.removeVertex(2);
+  x.addEdge(2, 1, 21);
+  x.update();
+  x.setEdgeValue(1, 2, 12);
+  return x;
+}
+
+
+
+
+describe("bitset backends", () => {
+  BACKENDS.forEach(([name, fb]) => {
+    test(name + " matches a map after update, under random changes", () => {
+      var x = fb(), m = new Map<number, number>();
+      var seed = 11;
+      for (var i=0; i<1000; ++i) {
+        seed = (seed*16807) % 2147483647;
+        var k = seed % 40, op = (seed >> 8) % 3;
+        if (op===0) { x.remove(k); m.delete(k); }
+        else { x.add(k, i); m.set(k, i); }
+        if (i%89===0) {
+          x.update();
+          expect(sortedEntries(x)).toEqual([...m].sort((a, b) => a[0] - b[0]));
+          expect(x.size()).toBe(m.size);
+        }
+      }
+      x.update();
+      expect(sortedEntries(x)).toEqual([...m].sort((a, b) => a[0] - b[0]));
+      for (var k=0; k<40; ++k)
+        expect(x.get(k, -1)).toBe(m.has(k)? m.get(k) : -1);
+    });
+  });
+
+  test("lazy bitsets defer changes until update, while MapBitset applies them immediately", () => {
+    for (var [name, fb] of BACKENDS) {
+      var x = fb();
+      x.add(2, 20);
+      x.add(1, 10);
+      expect(x.has(1)).toBe(name==="MapBitset");
+      x.update();
+      expect(x.has(1)).toBe(true);
+      x.remove(2);
+      expect(x.has(2)).toBe(name!=="MapBitset");
+      x.add(0, 0);
+      x.add(3, 30);
+      x.update();
+      expect(x.keys()).toEqual(name==="MapBitset"? [1, 0, 3] : [0, 1, 3]);
+    }
+  });
+});
+
+
+
+
+describe("graphs on each bitset backend", () => {
+  test("DiGraph gives the same edges after the same changes", () => {
+    var a = changeDiGraph(new DiGraph<number, number>(0, 1, BACKENDS[0][1]));
+    for (var [, fb] of BACKENDS) {
+      var x = changeDiGraph(new DiGraph<number, number>(0, 1, fb));
+      expect(x.order()).toBe(a.order());
+      expect(x.size()).toBe(a.size());
+      expect(sortedEdges(x)).toEqual(sortedEdges(a));
+      x.forEachVertex(v => {
+        expect(x.inEdges(v).sort((p, q) => p[0] - q[0])).toEqual(a.inEdges(v));
+        expect(x.degree(v)).toBe(a.degree(v));
+      });
+    }
+    expect(a.edgeValue(5, 1)).toBe(51);
+    expect(a.hasEdge(3, 5) && !a.hasEdge(0, 0)).toBe(true);
+  });
+
+  test("Graph gives the same edges after the same changes", () => {
+    var a = changeGraph(new Graph<number, number>(0, 1, BACKENDS[0][1]));
+    for (var [, fb] of BACKENDS) {
+      var x = changeGraph(new Graph<number, number>(0, 1, fb));
+      expect(x.order()).toBe(a.order());
+      expect(x.size()).toBe(a.size());
+      expect(sortedEdges(x)).toEqual(sortedEdges(a));
+    }
+    expect(a.edgeValue(2, 1)).toBe(12);
+    expect(a.hasEdge(4, 4)).toBe(true);
+  });
+});
@@ -0,0 +1,179 @@
+import {describe, test, expect} from "vitest";
+import {Lists, sort$, union$, intersection$, difference$} from "../src/_lists";
+
+
+
+
+// Compare keys in descending order.
+const descending = (a: number, b: number) => b - a;
+
+// Create lists with values derived from keys.
+function lists(ks: number[], tag: string): Lists<number, string> {
+  return [ks.slice(), ks.map(k => tag + k)];
+}
+
+
+
+
+describe("sort$", () => {
+  test("sorts keys, keeping values paired", () => {
+    var x: Lists<number, string> = [[3, 1, 2], ["c", "a", "b"]];
+    expect(sort$(x)).toBe(x);
+    expect(x).toEqual([[1, 2, 3], ["a", "b", "c"]]);
+  });
+
+  test("is stable for duplicate keys", () => {
+    var x: Lists<number, string> = [[2, 1, 2, 1, 2], ["a", "b", "c", "d", "e"]];
+    sort$(x);
+    expect(x).toEqual([[1, 1, 2, 2, 2], ["b", "d", "a", "c", "e"]]);
+  });
+
+  test("honours a custom comparator", () => {
+    var x: Lists<number, string> = [[1, 3, 2, 3], ["a", "b", "c", "d"]];
+    sort$(x, descending);
+    expect(x).toEqual([[3, 3, 2, 1], ["b", "d", "c", "a"]]);
+  });
+
+  test("handles empty and single-entry lists", () => {
+    expect(sort$([[], []])).toEqual([[], []]);
+    expect(sort$([[5], ["e"]])).toEqual([[5], ["e"]]);
+  });
+
+  test("keeps pairs for larger random input", () => {
+    var ks: number[] = [], vs: number[] = [];
+    for (var i=0; i<1000; ++i) {
+      ks.push((i * 7919) % 101);
+      vs.push(i);
+    }
+    var x: Lists<number, number> = [ks.slice(), vs.slice()];
+    sort$(x);
+    for (var i=0; i<1000; ++i) {
+      expect(ks[x[1][i]]).toBe(x[0][i]);
+      if (i>0) expect(x[0][i-1]<x[0][i] || (x[0][i-1]===x[0][i] && x[1][i-1]<x[1][i])).toBe(true);
+    }
+  });
+});
+
+
+
+
+describe("union$", () => {
+  test("merges disjoint lists", () => {
+    var x = lists([1, 4, 6], "x");
+    expect(union$(x, lists([2, 3, 7], "y"))).toBe(x);
+    expect(x).toEqual([[1, 2, 3, 4, 6, 7], ["x1", "y2", "y3", "x4", "x6", "y7"]]);
+  });
+
+  test("keeps common keys once, with value of y by default", () => {
+    var x = lists([1, 2, 3], "x");
+    union$(x, lists([2, 3, 4], "y"));
+    expect(x).toEqual([[1, 2, 3, 4], ["x1", "y2", "y3", "y4"]]);
+  });
+
+  test("calls merge callback for each common key", () => {
+    var calls: [string, string][] = [];
+    var x = lists([1, 2, 5], "x");
+    union$(x, lists([2, 5], "y"), undefined, (a, b) => { calls.push([a, b]); return a + b; });
+    expect(calls).toHaveLength(2);
+    expect(calls).toContainEqual(["x2", "y2"]);
+    expect(calls).toContainEqual(["x5", "y5"]);
+    expect(x).toEqual([[1, 2, 5], ["x1", "x2y2", "x5y5"]]);
+  });
+
+  test("handles identical lists", () => {
+    var x = lists([1, 2, 3], "x");
+    union$(x, lists([1, 2, 3], "y"), undefined, (a, b) => a + b);
+    expect(x).toEqual([[1, 2, 3], ["x1y1", "x2y2", "x3y3"]]);
+  });
+
+  test("handles empty lists", () => {
+    expect(union$(lists([], "x"), lists([], "y"))).toEqual([[], []]);
+    expect(union$(lists([1, 2], "x"), lists([], "y"))).toEqual(lists([1, 2], "x"));
+    expect(union$(lists([], "x"), lists([1, 2], "y"))).toEqual(lists([1, 2], "y"));
+  });
+
+  test("honours a custom comparator", () => {
+    var x = lists([6, 4, 1], "x");
+    union$(x, lists([7, 4, 2], "y"), descending, (a, b) => a + b);
+    expect(x).toEqual([[7, 6, 4, 2, 1], ["y7", "x6", "x4y4", "y2", "x1"]]);
+  });
+});
+
+
+
+
+describe("intersection$", () => {
+  test("keeps common keys, with value of x by default", () => {
+    var x = lists([1, 2, 3, 5], "x");
+    expect(intersection$(x, lists([2, 4, 5], "y"))).toBe(x);
+    expect(x).toEqual([[2, 5], ["x2", "x5"]]);
+  });
+
+  test("calls merge callback for common keys", () => {
+    var x = lists([1, 2, 3], "x");
+    intersection$(x, lists([1, 3], "y"), undefined, (a, b) => b + a);
+    expect(x).toEqual([[1, 3], ["y1x1", "y3x3"]]);
+  });
+
+  test("handles disjoint, identical and empty lists", () => {
+    expect(intersection$(lists([1, 3], "x"), lists([2, 4], "y"))).toEqual([[], []]);
+    expect(intersection$(lists([1, 2], "x"), lists([1, 2], "y"))).toEqual(lists([1, 2], "x"));
+    expect(intersection$(lists([], "x"), lists([1], "y"))).toEqual([[], []]);
+    expect(intersection$(lists([1], "x"), lists([], "y"))).toEqual([[], []]);
+  });
+
+  test("honours a custom comparator", () => {
+    var x = lists([5, 3, 1], "x");
+    intersection$(x, lists([4, 3, 1], "y"), descending);
+    expect(x).toEqual([[3, 1], ["x3", "x1"]]);
+  });
+});
+
+
+
+
+describe("difference$", () => {
+  test("removes keys in y", () => {
+    var x = lists([1, 2, 3, 4, 5], "x");
+    expect(difference$(x, lists([2, 4, 6], "y"))).toBe(x);
+    expect(x).toEqual([[1, 3, 5], ["x1", "x3", "x5"]]);
+  });
+
+  test("handles disjoint, identical and empty lists", () => {
+    expect(difference$(lists([1, 3], "x"), lists([2, 4], "y"))).toEqual(lists([1, 3], "x"));
+    expect(difference$(lists([1, 2], "x"), lists([1, 2], "y"))).toEqual([[], []]);
+    expect(difference$(lists([], "x"), lists([1], "y"))).toEqual([[], []]);
+    expect(difference$(lists([1], "x"), lists([], "y"))).toEqual(lists([1], "x"));
+  });
+
+  test("removes keys at both ends", () => {
+    expect(difference$(lists([1, 2, 3], "x"), lists([1, 3], "y"))).toEqual(lists([2], "x"));
+  });
+
+  test("honours a custom comparator", () => {
+    var x = lists([5, 3, 1], "x");
+    difference$(x, lists([4, 3], "y"), descending);
+    expect(x).toEqual([[5, 1], ["x5", "x1"]]);
+  });
+});
+
+
+
+
+describe("set operations", () => {
+  test("match a reference on random sorted inputs", () => {
+    var seed = 1;
+    var random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    var keys = (n: number) => [...new Set(Array.from({length: n}, () => Math.floor(random() * 50)))].sort((a, b) => a - b);
+    for (var t=0; t<100; ++t) {
+      var xs = keys(Math.floor(random() * 30)), ys = keys(Math.floor(random() * 30));
+      var inY = new Set(ys), inX = new Set(xs);
+      var u = union$(lists(xs, "x"), lists(ys, "y"), undefined, (a, b) => a + b);
+      var all = [...new Set([...xs, ...ys])].sort((a, b) => a - b);
+      expect(u).toEqual([all, all.map(k => inX.has(k) && inY.has(k)? "x"+k+"y"+k : (inX.has(k)? "x"+k : "y"+k))]);
+      var common = xs.filter(k => inY.has(k));
+      expect(intersection$(lists(xs, "x"), lists(ys, "y"))).toEqual(lists(common, "x"));
+      expect(difference$(lists(xs, "x"), lists(ys, "y"))).toEqual(lists(xs.filter(k => !inY.has(k)), "x"));
+    }
+  });
+});
@@ -0,0 +1,49 @@
+import {describe, test, expect} from "vitest";
+import {UnionFind} from "../src/_unionfind";
+
+
+
+
+describe("UnionFind", () => {
+  test("starts with each key in its own set", () => {
+    var x = new UnionFind(4);
+    expect(x.count()).toBe(4);
+    for (var k=0; k<4; ++k) {
+      expect(x.find(k)).toBe(k);
+      expect(x.setSize(k)).toBe(1);
+    }
+  });
+
+  test("merges sets, and tracks their sizes", () => {
+    var x = new UnionFind(6);
+    expect(x.union(0, 1)).toBe(true);
+    expect(x.union(2, 3)).toBe(true);
+    expect(x.union(1, 3)).toBe(true);
+    expect(x.union(0, 2)).toBe(false);
+    expect(x.count()).toBe(3);
+    expect(x.setSize(3)).toBe(4);
+    expect(x.setSize(4)).toBe(1);
+    expect(x.connected(0, 3)).toBe(true);
+    expect(x.connected(0, 4)).toBe(false);
+    expect(x.find(0)).toBe(x.find(2));
+  });
+
+  test("matches a reference on random unions", () => {
+    var seed = 3, N = 50;
+    var random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    var x = new UnionFind(N), labels = Array.from({length: N}, (_, i) => i);
+    for (var t=0; t<60; ++t) {
+      var k = Math.floor(random() * N), l = Math.floor(random() * N);
+      var a = labels[k], b = labels[l];
+      expect(x.union(k, l)).toBe(a!==b);
+      for (var i=0; i<N; ++i)
+        if (labels[i]===b) labels[i] = a;
+    }
+    expect(x.count()).toBe(new Set(labels).size);
+    for (var k=0; k<N; ++k) {
+      expect(x.setSize(k)).toBe(labels.filter(c => c===labels[k]).length);
+      for (var l=0; l<N; ++l)
+        expect(x.connected(k, l)).toBe(labels[k]===labels[l]);
+    }
+  });
+});
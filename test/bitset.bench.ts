@@ -0,0 +1,75 @@
+import {describe, bench} from "vitest";
+import {LazyPairBitset} from "../src/index";
+
+
+
+
+// Number of edges of the hub vertex.
+const HUB_SIZE = 100000;
+// Number of lookups per benchmark iteration.
+const LOOKUPS = 1000;
+
+
+// Create a hub bitset with keys 0, 2, 4, ... (so that half the lookups miss).
+function hub(hashedSize: number): LazyPairBitset<number> {
+  var x = new LazyPairBitset<number>(hashedSize);
+  for (var i=HUB_SIZE-1; i>=0; --i)
+    x.add(2*i, i);
+  x.update();
+  return x;
+}
+
+
+// Keys to look up, spread over the whole key range.
+const queries: number[] = [];
+for (var i=0; i<LOOKUPS; ++i)
+  queries.push((i * 7919) % (2*HUB_SIZE));
+
+
+// Keys and values, as stored by the linear bitset before binary search.
+const binary = hub(Infinity);
+const linearKeys   = binary.keys();
+const linearValues = binary.values();
+const hashed = hub(HUB_SIZE);
+
+
+
+
+describe("has", () => {
+  bench("linear", () => {
+    for (var k of queries)
+      linearKeys.slice(0, HUB_SIZE).indexOf(k) != -1;
+  });
+
+  bench("binary search", () => {
+    for (var k of queries)
+      binary.has(k);
+  });
+
+  bench("hashed index", () => {
+    for (var k of queries)
+      hashed.has(k);
+  });
+});
+
+
+
+
+describe("get", () => {
+  bench("linear", () => {
+    for (var k of queries) {
+      var i = linearKeys.indexOf(k);
+      i>=0? linearValues[i] : -1;
+    }
+  });
+
+  bench("binary search", () => {
+    for (var k of queries)
+      binary.get(k, -1);
+  });
+
+  bench("hashed index", () => {
+    for (var k of queries)
+      hashed.get(k, -1);
+  });
+});
@@ -0,0 +1,166 @@
+import {describe, test, expect} from "vitest";
+import {DiGraph, Graph} from "../src/index";
+import {pagerank, degreeCentrality, closenessCentrality, harmonicCentrality, betweennessCentrality, eigenvectorCentrality, hits} from "../src/centrality";
+
+
+
+
+// Create an undirected path 0 - 1 - ... - (n-1).
+function path(n: number): Graph<number, number> {
+  var x = new Graph<number, number>(0, 1);
+  x.addVertex(0, 0);
+  for (var u=1; u<n; ++u)
+    x.addEdge(u-1, u, 1);
+  x.update();
+  return x;
+}
+
+
+// Create a directed graph with a dangling vertex 3.
+function web(): DiGraph<number, number> {
+  var x = new DiGraph<number, number>(0, 1);
+  for (var [u, v] of [[0, 1], [0, 2], [1, 2], [2, 0], [2, 3], [4, 2]])
+    x.addEdge(u, v, 1);
+  x.update();
+  return x;
+}
+
+
+// Sum values at vertices of a graph.
+function sum(a: ArrayLike<number>): number {
+  var s = 0;
+  for (var i=0; i<a.length; ++i)
+    s += a[i];
+  return s;
+}
+
+
+
+
+describe("pagerank", () => {
+  test("sums to 1, and is a fixed point of the PageRank iteration", () => {
+    var x = web(), r = pagerank(x), d = 0.85, N = x.order();
+    expect(sum(r)).toBeCloseTo(1, 10);
+    var dangling = r[3];
+    x.forEachVertex(v => {
+      var s = 0;
+      x.forEachInEdge(v, u => s += r[u] / x.degree(u));
+      expect(r[v]).toBeCloseTo((1-d)/N + d * (s + dangling/N), 8);
+    });
+    expect(r[2]).toBeGreaterThan(r[1]);
+  });
+
+  test("is uniform on a cycle", () => {
+    var x = new DiGraph<number, number>(0, 1);
+    for (var u=0; u<5; ++u)
+      x.addEdge(u, (u+1) % 5, 1);
+    x.update();
+    for (var v=0; v<5; ++v)
+      expect(pagerank(x)[v]).toBeCloseTo(0.2, 10);
+  });
+
+  test("follows personalization, and stops at max iterations", () => {
+    var x = web(), p = [1, 0, 0, 0, 0];
+    var r = pagerank(x, {personalization: p});
+    expect(sum(r)).toBeCloseTo(1, 10);
+    expect(r[4]).toBe(0);
+    var a = pagerank(x, {maxIterations: 1}), b = pagerank(x, {maxIterations: 2});
+    expect(sum(a)).toBeCloseTo(1, 10);
+    expect([...a]).not.toEqual([...b]);
+  });
+});
+
+
+
+
+describe("path-based centrality", () => {
+  test("degree centrality counts edges in the given direction", () => {
+    var x = web();
+    expect([...degreeCentrality(x)]).toEqual([0.5, 0.25, 0.5, 0, 0.25]);
+    expect([...degreeCentrality(x, "in")]).toEqual([0.25, 0.25, 0.75, 0.25, 0]);
+  });
+
+  test("closeness and harmonic centrality on a path", () => {
+    var x = path(3);
+    expect([...closenessCentrality(x)]).toEqual([2/3, 1, 2/3]);
+    expect([...harmonicCentrality(x)]).toEqual([1.5, 2, 1.5]);
+  });
+
+  test("closeness centrality scales by reachable vertices", () => {
+    var x = path(3);
+    x.addVertex(3, 0);
+    x.update();
+    var c = closenessCentrality(x);
+    expect(c[1]).toBeCloseTo(2/3, 12);
+    expect(c[3]).toBe(0);
+  });
+
+  test("betweenness centrality on unweighted graphs", () => {
+    expect([...betweennessCentrality(path(5))]).toEqual([0, 3, 4, 3, 0]);
+    var x = new Graph<number, number>(0, 1);
+    for (var v=1; v<5; ++v)
+      x.addEdge(0, v, 1);
+    x.update();
+    expect([...betweennessCentrality(x)]).toEqual([6, 0, 0, 0, 0]);
+    var y = new DiGraph<number, number>(0, 1);
+    y.addEdge(0, 1, 1);
+    y.addEdge(1, 2, 1);
+    y.update();
+    expect([...betweennessCentrality(y)]).toEqual([0, 1, 0]);
+  });
+
+  test("betweenness centrality splits among equal paths", () => {
+    // A square 0 - 1 - 2 - 3 - 0: two shortest paths between opposite corners.
+    var x = new Graph<number, number>(0, 1);
+    for (var u=0; u<4; ++u)
+      x.addEdge(u, (u+1) % 4, 1);
+    x.update();
+    expect([...betweennessCentrality(x)]).toEqual([0.5, 0.5, 0.5, 0.5]);
+  });
+
+  test("betweenness, closeness and harmonic centrality use weights", () => {
+    // A triangle, where 0 - 1 - 2 is shorter than 0 - 2.
+    var x = new Graph<number, number>(0, 1);
+    x.addEdge(0, 1, 1);
+    x.addEdge(1, 2, 1);
+    x.addEdge(0, 2, 5);
+    x.update();
+    expect([...betweennessCentrality(x)]).toEqual([0, 0, 0]);
+    expect([...betweennessCentrality(x, w => w)]).toEqual([0, 1, 0]);
+    expect(harmonicCentrality(x, w => w)[0]).toBe(1.5);
+    expect(closenessCentrality(x, w => w)[1]).toBe(1);
+  });
+});
+
+
+
+
+describe("spectral centrality", () => {
+  test("eigenvector centrality of a star", () => {
+    var x = new Graph<number, number>(0, 1);
+    for (var v=1; v<4; ++v)
+      x.addEdge(0, v, 1);
+    x.update();
+    var c = eigenvectorCentrality(x);
+    expect(c[0]).toBeCloseTo(Math.SQRT1_2, 8);
+    for (var v=1; v<4; ++v)
+      expect(c[v]).toBeCloseTo(1/Math.sqrt(6), 8);
+  });
+
+  test("hub and authority scores", () => {
+    var x = new DiGraph<number, number>(0, 1);
+    x.addEdge(0, 2, 1);
+    x.addEdge(1, 2, 1);
+    x.addEdge(1, 3, 1);
+    x.update();
+    var {hubs, authorities} = hits(x), phi = (1 + Math.sqrt(5))/2;
+    expect(sum(hubs)).toBeCloseTo(1, 10);
+    expect(sum(authorities)).toBeCloseTo(1, 10);
+    expect(hubs[0]).toBeCloseTo(1/(phi*phi), 8);
+    expect(hubs[1]).toBeCloseTo(1/phi, 8);
+    expect(authorities[2]).toBeCloseTo(1/phi, 8);
+    expect(authorities[3]).toBeCloseTo(1/(phi*phi), 8);
+    expect(hubs[2]).toBe(0);
+    expect(authorities[0]).toBe(0);
+  });
+});
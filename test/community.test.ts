@@ -0,0 +1,124 @@
+import {describe, test, expect} from "vitest";
+import {Graph, DiGraph} from "../src/index";
+import {modularity, louvain, leiden, labelPropagation, aggregateCommunities} from "../src/community";
+
+
+
+
+// Create two cliques of n vertices, joined by a bridge between vertices n-1 and n.
+function cliques(n: number): Graph<number, number> {
+  var x = new Graph<number, number>(0, 1);
+  for (var c=0; c<2; ++c)
+    for (var u=c*n; u<(c+1)*n; ++u)
+      for (var v=u+1; v<(c+1)*n; ++v)
+        x.addEdge(u, v, 1);
+  x.addEdge(n-1, n, 1);
+  x.update();
+  return x;
+}
+
+
+// Create a random graph with planted communities of 8 vertices.
+function planted(seed: number): Graph<number, number> {
+  var random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  var x = new Graph<number, number>(0, 1);
+  for (var u=0; u<32; ++u)
+    for (var v=u+1; v<32; ++v)
+      if (random() < (u>>3===v>>3? 0.7 : 0.05)) x.addEdge(u, v, 1);
+  x.update();
+  return x;
+}
+
+
+const detectors = {louvain, leiden, labelPropagation};
+
+
+
+
+describe("modularity", () => {
+  test("is known for two cliques joined by a bridge", () => {
+    var x = cliques(4), m = [0, 0, 0, 0, 1, 1, 1, 1];
+    expect(modularity(x, m)).toBeCloseTo(11/26, 12);
+    expect(modularity(x, [0, 0, 0, 0, 0, 0, 0, 0])).toBeCloseTo(0, 12);
+    expect(modularity(x, m, () => 1, 0)).toBeCloseTo(24/26, 12);
+  });
+
+  test("is 0 for a graph without edges", () => {
+    var x = new Graph<number, number>(0, 1);
+    x.addVertex(0, 0);
+    x.update();
+    expect(modularity(x, [0])).toBe(0);
+  });
+});
+
+
+
+
+describe("community detection", () => {
+  for (var [name, detect] of Object.entries(detectors)) {
+    test(name + " separates two cliques joined by a bridge", () => {
+      var x = cliques(4), a = detect(x);
+      expect(a.count).toBe(2);
+      var m = a.membership;
+      for (var u=1; u<4; ++u) {
+        expect(m[u]).toBe(m[0]);
+        expect(m[u+4]).toBe(m[4]);
+      }
+      expect(m[0]).not.toBe(m[4]);
+      expect(a.modularity).toBeCloseTo(modularity(x, m), 12);
+      expect(a.modularity).toBeCloseTo(11/26, 12);
+    });
+
+    test(name + " is reproducible with a seed", () => {
+      var x = planted(5);
+      for (var seed of [1, 2, 3]) {
+        var a = detect(x, undefined, {seed}), b = detect(x, undefined, {seed});
+        expect([...a.membership]).toEqual([...b.membership]);
+        expect(a.modularity).toBe(b.modularity);
+      }
+    });
+
+    test(name + " treats directed edges as undirected", () => {
+      var x = cliques(4), y = new DiGraph<number, number>(0, 1);
+      x.forEachVertex(u => x.forEachEdge(u, v => { if (u<v) y.addEdge(u, v, 1); }));
+      y.update();
+      expect(detect(y).modularity).toBeCloseTo(11/26, 12);
+    });
+  }
+
+  test("louvain and leiden do at least as well as the planted communities", () => {
+    var x = planted(9), q = modularity(x, Array.from({length: 32}, (_, u) => u>>3));
+    for (var detect of [louvain, leiden]) {
+      var a = detect(x, undefined, {seed: 1});
+      expect(a.count).toBe(4);
+      expect(a.modularity).toBeGreaterThanOrEqual(q);
+    }
+  });
+});
+
+
+
+
+describe("aggregateCommunities", () => {
+  test("sums edge weights within and between communities", () => {
+    var x = cliques(4), a = {count: 2, membership: Int32Array.from([0, 0, 0, 0, 1, 1, 1, 1])};
+    var y = aggregateCommunities(x, a);
+    expect(y.vertexValues()).toEqual([[0, 1, 2, 3], [4, 5, 6, 7]]);
+    expect(y.edgeValue(0, 0)).toBe(6);
+    expect(y.edgeValue(1, 1)).toBe(6);
+    expect(y.edgeValue(0, 1)).toBe(1);
+    expect(y.edgeValue(1, 0)).toBe(1);
+  });
+
+  test("keeps edge directions of a directed graph", () => {
+    var x = new DiGraph<number, number>(0, 1);
+    x.addEdge(0, 1, 2);
+    x.addEdge(1, 0, 3);
+    x.addEdge(1, 2, 4);
+    x.update();
+    var y = aggregateCommunities(x, {count: 2, membership: Int32Array.from([0, 0, 1])}, w => w);
+    expect(y.edgeValue(0, 0)).toBe(5);
+    expect(y.edgeValue(0, 1)).toBe(4);
+    expect(y.hasEdge(1, 0)).toBe(false);
+  });
+});
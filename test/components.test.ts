@@ -0,0 +1,141 @@
+import {describe, test, expect} from "vitest";
+import {DiGraph, Graph} from "../src/index";
+import {Components, componentMembers, stronglyConnectedComponents, weaklyConnectedComponents, connectedComponents, condensation, articulationPoints, bridges, biconnectedComponents} from "../src/components";
+
+
+
+
+// Sort the ends of each edge, and then the edges.
+function sortEdges(es: [number, number][]): [number, number][] {
+  return es.map(([u, v]) => (u<v? [u, v] : [v, u]) as [number, number]).sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+}
+
+
+// Sort each list, and then the lists.
+function sortLists(as: number[][]): number[][] {
+  return as.map(a => a.slice().sort((u, v) => u - v)).sort((a, b) => a[0] - b[0] || a.length - b.length);
+}
+
+
+
+// Create a directed graph with cycles 0 → 1 → 2 → 0 and 3 ⇄ 4, joined by 2 → 3 and 4 → 6, and an isolated vertex 5.
+function cyclic(): DiGraph<number, number> {
+  var x = new DiGraph<number, number>(0, 1);
+  for (var [u, v] of [[0, 1], [1, 2], [2, 0], [1, 0], [2, 3], [0, 3], [3, 4], [4, 3], [4, 6]])
+    x.addEdge(u, v, 1);
+  x.addVertex(5, 0);
+  x.update();
+  return x;
+}
+
+
+// Check that components are as expected, regardless of their numbering.
+function expectComponents(a: Components, expected: number[][]): void {
+  expect(a.count).toBe(expected.length);
+  expect(sortLists(componentMembers(a))).toEqual(sortLists(expected));
+}
+
+
+
+
+describe("strongly connected components", () => {
+  test("finds components, in topological order", () => {
+    var x = cyclic(), a = stronglyConnectedComponents(x);
+    expectComponents(a, [[0, 1, 2], [3, 4], [5], [6]]);
+    var m = a.membership;
+    expect(m[0]).toBeLessThan(m[3]);
+    expect(m[3]).toBeLessThan(m[6]);
+  });
+
+  test("finds each vertex alone in a DAG", () => {
+    var x = new DiGraph<number, number>(0, 1);
+    x.addEdge(0, 1, 1);
+    x.addEdge(1, 2, 1);
+    x.addEdge(0, 2, 1);
+    x.update();
+    var a = stronglyConnectedComponents(x);
+    expect(a.count).toBe(3);
+    expect(a.membership[0]).toBeLessThan(a.membership[1]);
+    expect(a.membership[1]).toBeLessThan(a.membership[2]);
+  });
+
+  test("collapses components into a condensation DAG", () => {
+    var x = cyclic(), a = stronglyConnectedComponents(x), y = condensation(x, a);
+    var c = (u: number) => a.membership[u];
+    expect(y.order()).toBe(4);
+    expect(y.size()).toBe(2);
+    expect(y.vertexValue(c(0)).slice().sort()).toEqual([0, 1, 2]);
+    expect(y.edgeValue(c(0), c(3))).toBe(2);
+    expect(y.edgeValue(c(3), c(6))).toBe(1);
+    expect(y.hasEdge(c(3), c(0))).toBe(false);
+  });
+});
+
+
+
+
+describe("weakly connected components", () => {
+  test("ignore edge directions", () => {
+    var x = cyclic();
+    expectComponents(weaklyConnectedComponents(x), [[0, 1, 2, 3, 4, 6], [5]]);
+    expectComponents(connectedComponents(x), [[0, 1, 2, 3, 4, 6], [5]]);
+  });
+
+  test("find components of an undirected graph", () => {
+    var x = new Graph<number, number>(0, 1);
+    x.addEdge(0, 1, 1);
+    x.addEdge(2, 3, 1);
+    x.addEdge(3, 4, 1);
+    x.addVertex(6, 0);
+    x.update();
+    var a = connectedComponents(x);
+    expectComponents(a, [[0, 1], [2, 3, 4], [6]]);
+    expect(a.membership[5]).toBe(-1);
+  });
+});
+
+
+
+
+describe("biconnectivity", () => {
+  // Two components with self-loops: a triangle with a tail, and an edge to a triangle (and a vertex with only a self-loop).
+  var x = new Graph<number, number>(0, 1);
+  for (var [u, v] of [[0, 1], [1, 2], [2, 0], [2, 3], [3, 4], [3, 3], [5, 6], [6, 7], [7, 8], [8, 6], [7, 7], [9, 9]])
+    x.addEdge(u, v, 1);
+  x.addVertex(10, 0);
+  x.update();
+
+  test("finds articulation points", () => {
+    expect(articulationPoints(x)).toEqual([2, 3, 6]);
+  });
+
+  test("finds bridges", () => {
+    expect(sortEdges(bridges(x))).toEqual([[2, 3], [3, 4], [5, 6]]);
+  });
+
+  test("finds blocks, without isolated vertices", () => {
+    expect(sortLists(biconnectedComponents(x))).toEqual([[0, 1, 2], [2, 3], [3, 4], [5, 6], [6, 7, 8]]);
+  });
+
+  test("ignores edge directions", () => {
+    var y = new DiGraph<number, number>(0, 1);
+    y.addEdge(0, 1, 1);
+    y.addEdge(2, 1, 1);
+    y.addEdge(2, 3, 1);
+    y.addEdge(3, 2, 1);
+    y.update();
+    expect(articulationPoints(y)).toEqual([1, 2]);
+    expect(sortEdges(bridges(y))).toEqual([[0, 1], [1, 2], [2, 3]]);
+    expect(sortLists(biconnectedComponents(y))).toEqual([[0, 1], [1, 2], [2, 3]]);
+  });
+
+  test("finds none in a cycle", () => {
+    var y = new Graph<number, number>(0, 1);
+    for (var u=0; u<5; ++u)
+      y.addEdge(u, (u+1) % 5, 1);
+    y.update();
+    expect(articulationPoints(y)).toEqual([]);
+    expect(bridges(y)).toEqual([]);
+    expect(sortLists(biconnectedComponents(y))).toEqual([[0, 1, 2, 3, 4]]);
+  });
+});
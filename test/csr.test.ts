@@ -0,0 +1,113 @@
+import {describe, test, expect} from "vitest";
+import {CsrGraph} from "../src/csr";
+import {DiGraph, Graph} from "../src/index";
+
+
+
+
+// Create a weighted directed graph, with a missing vertex 3 and a self-loop.
+function digraph(): DiGraph<string, number> {
+  var x = new DiGraph<string, number>("?", 0);
+  for (var u of [0, 1, 2, 4])
+    x.addVertex(u, "v" + u);
+  x.addEdge(0, 2, 5);
+  x.addEdge(0, 1, 3);
+  x.addEdge(2, 0, 1);
+  x.addEdge(2, 4, 2);
+  x.addEdge(4, 4, 7);
+  x.update();
+  return x;
+}
+
+
+// Create a weighted undirected path 0-1-2.
+function graph(): Graph<string, number> {
+  var x = new Graph<string, number>("?", 0);
+  for (var u=0; u<3; ++u)
+    x.addVertex(u, "v" + u);
+  x.addEdge(0, 1, 3);
+  x.addEdge(1, 2, 4);
+  x.update();
+  return x;
+}
+
+
+
+
+describe("CsrGraph", () => {
+  test("stores out-edges as sorted rows", () => {
+    var x = new CsrGraph(digraph());
+    expect(x.span()).toBe(5);
+    expect(x.order()).toBe(4);
+    expect(x.size()).toBe(5);
+    expect(x.isDirected()).toBe(true);
+    expect([...x.offsets()]).toEqual([0, 2, 2, 4, 4, 5]);
+    expect([...x.targets()]).toEqual([1, 2, 0, 4, 4]);
+    expect(x.weights()).toBeNull();
+    expect(x.edges(0)).toEqual([[1, 3], [2, 5]]);
+    expect(x.degrees()).toEqual([2, 0, 2, 1]);
+  });
+
+  test("stores in-edges as sorted columns", () => {
+    var x = new CsrGraph(digraph());
+    expect([...x.inOffsets()]).toEqual([0, 1, 2, 3, 3, 5]);
+    expect([...x.sources()]).toEqual([2, 0, 0, 2, 4]);
+    expect(x.inEdges(4)).toEqual([[2, 2], [4, 7]]);
+    expect(x.inDegrees()).toEqual([1, 1, 1, 2]);
+  });
+
+  test("stores numeric weights, if a weight function is given", () => {
+    var x = new CsrGraph(digraph(), (w, u, v) => 10*w + (u===v? 1 : 0));
+    expect([...x.weights()!]).toEqual([30, 50, 10, 20, 71]);
+    expect([...x.inWeights()!]).toEqual([10, 30, 50, 20, 71]);
+    expect(digraph().snapshot(w => w).weights()).toEqual(new Float64Array([3, 5, 1, 2, 7]));
+  });
+
+  test("finds edges by binary search", () => {
+    var x = new CsrGraph(digraph());
+    expect(x.edgeIndex(0, 2)).toBe(1);
+    expect(x.edgeIndex(4, 4)).toBe(4);
+    expect(x.edgeIndex(0, 4)).toBe(-1);
+    expect(x.edgeIndex(3, 0)).toBe(-1);
+    expect(x.hasEdge(2, 4)).toBe(true);
+    expect(x.hasEdge(4, 2)).toBe(false);
+    expect(x.edgeValue(2, 4)).toBe(2);
+  });
+
+  test("reads defaults at -1, and for missing vertices and edges", () => {
+    var x = new CsrGraph(digraph());
+    expect(x.hasVertex(-1)).toBe(false);
+    expect(x.hasVertex(3)).toBe(false);
+    expect(x.hasVertex(5)).toBe(false);
+    expect(x.vertexValue(-1)).toBe("?");
+    expect(x.vertexValue(3)).toBe("?");
+    expect(x.vertexValue(4)).toBe("v4");
+    expect(x.edgeValue(-1, -1)).toBe(0);
+    expect(x.edgeValue(1, 0)).toBe(0);
+    expect(x.edgeIndex(-1, -1)).toBe(-1);
+  });
+
+  test("stores both directions of undirected edges", () => {
+    var x = graph().snapshot();
+    expect(x.isDirected()).toBe(false);
+    expect(x.size()).toBe(2);
+    expect([...x.offsets()]).toEqual([0, 1, 3, 4]);
+    expect([...x.targets()]).toEqual([1, 0, 2, 1]);
+    expect(x.edgeValue(1, 0)).toBe(3);
+    expect(x.toString()).toBe("order: 3 size: 2 [undirected] {}");
+  });
+
+  test("round-trips through toDiGraph", () => {
+    var x = digraph(), y = new CsrGraph(x).toDiGraph();
+    expect(y.order()).toBe(x.order());
+    expect(y.size()).toBe(x.size());
+    expect(y.vertices()).toEqual(x.vertices());
+    expect(y.vertexValue(-1)).toBe("?");
+    expect(y.edgeValue(-1, -1)).toBe(0);
+    x.forEachVertex(u => expect(y.edges(u).sort((a, b) => a[0]-b[0])).toEqual(x.edges(u).sort((a, b) => a[0]-b[0])));
+    var z = new CsrGraph(graph()).toDiGraph();
+    expect(z.isDirected()).toBe(true);
+    expect(z.size()).toBe(4);
+    expect(z.edgeValue(2, 1)).toBe(4);
+  });
+});
@@ -0,0 +1,160 @@
+import {describe, test, expect} from "vitest";
+import {DiGraph, Graph} from "../src/index";
+import {topologicalSort, isAcyclic, longestPath, transitiveReduction, transitiveClosure, ancestors, descendants} from "../src/dag";
+
+
+
+
+// Create a weighted DAG: 0 → 1 → 3 → 4, 0 → 2 → 3, and a shortcut 0 → 3 (with isolated vertex 5).
+function dag(): DiGraph<number, number> {
+  var x = new DiGraph<number, number>(0, 1);
+  for (var [u, v, w] of [[0, 1, 2], [1, 3, 2], [3, 4, 1], [0, 2, 1], [2, 3, 5], [0, 3, 1]])
+    x.addEdge(u, v, w);
+  x.addVertex(5, 0);
+  x.update();
+  return x;
+}
+
+
+// Create a directed graph with a cycle 1 → 2 → 3 → 1, reachable from 0.
+function cyclic(): DiGraph<number, number> {
+  var x = new DiGraph<number, number>(0, 1);
+  for (var [u, v] of [[0, 1], [1, 2], [2, 3], [3, 1], [3, 4]])
+    x.addEdge(u, v, 1);
+  x.update();
+  return x;
+}
+
+
+// Check that an order puts each vertex before its out-neighbours.
+function expectTopological(x: DiGraph<number, number>, order: number[]): void {
+  var at = new Map(order.map((u, i) => [u, i]));
+  expect(order.slice().sort()).toEqual(x.vertexKeys());
+  x.forEachVertex(u => x.forEachEdge(u, v => expect(at.get(u)!).toBeLessThan(at.get(v)!)));
+}
+
+
+
+
+describe("topologicalSort", () => {
+  test("orders vertices of a DAG", () => {
+    var x = dag(), a = topologicalSort(x);
+    expect(a.cycle).toBeNull();
+    expectTopological(x, a.order);
+  });
+
+  test("picks among ready vertices with a comparator", () => {
+    var x = dag();
+    expect(topologicalSort(x, (u, v) => u - v).order).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(topologicalSort(x, (u, v) => v - u).order).toEqual([5, 0, 2, 1, 3, 4]);
+  });
+
+  test("gives a partial order and a cycle witness, if cyclic", () => {
+    var x = cyclic(), a = topologicalSort(x);
+    expect(a.order).toEqual([0]);
+    var c = a.cycle!;
+    expect(c.slice().sort()).toEqual([1, 2, 3]);
+    for (var i=0; i<c.length; ++i)
+      expect(x.hasEdge(c[i], c[(i+1) % c.length])).toBe(true);
+  });
+
+  test("finds a self-loop as a cycle", () => {
+    var x = new DiGraph<number, number>(0, 1);
+    x.addEdge(0, 1, 1);
+    x.addEdge(1, 1, 1);
+    x.update();
+    expect(topologicalSort(x).cycle).toEqual([1]);
+  });
+});
+
+
+
+
+describe("isAcyclic", () => {
+  test("tells DAGs from cyclic graphs", () => {
+    expect(isAcyclic(dag())).toBe(true);
+    expect(isAcyclic(cyclic())).toBe(false);
+    expect(isAcyclic(new DiGraph<number, number>(0, 1))).toBe(true);
+  });
+});
+
+
+
+
+describe("longestPath", () => {
+  test("finds the heaviest path", () => {
+    expect(longestPath(dag())).toEqual({length: 7, path: [0, 2, 3, 4]});
+  });
+
+  test("uses a weight function", () => {
+    expect(longestPath(dag(), () => 1)).toEqual({length: 3, path: [0, 1, 3, 4]});
+  });
+
+  test("handles an empty graph, and throws on a cycle", () => {
+    expect(longestPath(new DiGraph<number, number>(0, 1))).toEqual({length: 0, path: []});
+    expect(() => longestPath(cyclic())).toThrow("Graph has a cycle");
+  });
+});
+
+
+
+
+describe("transitive reduction and closure", () => {
+  test("reduction removes shortcut edges", () => {
+    var y = transitiveReduction(dag());
+    expect(y.order()).toBe(6);
+    expect(y.size()).toBe(5);
+    expect(y.hasEdge(0, 3)).toBe(false);
+    expect(y.edgeValue(2, 3)).toBe(5);
+    expect(() => transitiveReduction(cyclic())).toThrow("Graph has a cycle");
+  });
+
+  test("closure adds an edge for each reachable vertex", () => {
+    var y = transitiveClosure(dag());
+    expect(y.edgeKeys(0)).toEqual([1, 2, 3, 4]);
+    expect(y.edgeKeys(2)).toEqual([3, 4]);
+    expect(y.edgeKeys(5)).toEqual([]);
+    expect(y.edgeValue(0, 3)).toBe(1);
+    expect(y.size()).toBe(9);
+  });
+
+  test("closure of a cyclic graph has self-loops on the cycle", () => {
+    var y = transitiveClosure(cyclic());
+    expect(y.edgeKeys(1)).toEqual([1, 2, 3, 4]);
+    expect(y.hasEdge(0, 0)).toBe(false);
+    expect(y.hasEdge(4, 4)).toBe(false);
+  });
+
+  test("closure of the reduction is the closure", () => {
+    var a = transitiveClosure(dag()), b = transitiveClosure(transitiveReduction(dag()));
+    for (var u=0; u<6; ++u)
+      expect(b.edgeKeys(u)).toEqual(a.edgeKeys(u));
+  });
+});
+
+
+
+
+describe("ancestors and descendants", () => {
+  test("find vertices that reach, or are reached", () => {
+    var x = dag();
+    expect([...ancestors(x, 3)].sort()).toEqual([0, 1, 2]);
+    expect([...descendants(x, 1)].sort()).toEqual([3, 4]);
+    expect([...ancestors(x, 5)]).toEqual([]);
+  });
+
+  test("include the vertex itself only if on a cycle", () => {
+    var x = cyclic();
+    expect([...descendants(x, 1)].sort()).toEqual([1, 2, 3, 4]);
+    expect([...ancestors(x, 0)]).toEqual([]);
+    expect([...ancestors(x, 4)].sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  test("follow both directions on an undirected graph", () => {
+    var x = new Graph<number, number>(0, 1);
+    x.addEdge(0, 1, 1);
+    x.addEdge(1, 2, 1);
+    x.update();
+    expect([...descendants(x, 0)].sort()).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,165 @@
+import {describe, test, expect} from "vitest";
+import {writeDot, readDot} from "../src/dot";
+import {Attributes} from "../src/xml";
+import {ReadonlyGraph, DiGraph, Graph} from "../src/index";
+
+
+
+
+// Create a weighted directed graph, with labelled vertices (needing quotes) and an isolated vertex.
+function directed(): DiGraph<string, number> {
+  var x = new DiGraph<string, number>("", 1);
+  var names = ["a", "b c", "say \"hi\"", "node"];
+  for (var u=0; u<names.length; ++u)
+    x.addVertex(u, names[u]);
+  x.addEdge(0, 1, 2);
+  x.addEdge(1, 2, 3.5);
+  x.addEdge(2, 0, -4);
+  x.addEdge(2, 2, 5);
+  x.update();
+  return x;
+}
+
+
+// Create a weighted undirected graph, with labelled vertices and a self-loop.
+function undirected(): Graph<string, number> {
+  var x = new Graph<string, number>("", 1);
+  var names = ["a", "b c", "d", "e"];
+  for (var u=0; u<names.length; ++u)
+    x.addVertex(u, names[u]);
+  x.addEdge(0, 1, 2);
+  x.addEdge(1, 2, 3.5);
+  x.addEdge(2, 0, -4);
+  x.addEdge(2, 2, 5);
+  x.update();
+  return x;
+}
+
+
+// Write options keeping labels and weights as attributes.
+const WRITE_OPTIONS = {
+  vertexAttributes: (d: string) => ({label: d}),
+  edgeAttributes:   (w: number) => ({weight: w}),
+};
+
+
+// Read options mapping attributes back to labels and weights.
+const READ_OPTIONS = {
+  vertexValue: (a: Attributes) => a.label as string,
+  edgeValue:   (a: Attributes) => Number(a.weight),
+  vertexDefault: "",
+  edgeDefault:   1,
+};
+
+
+// Check that two graphs have the same vertices, edges, and values.
+function expectSame<V, E>(y: ReadonlyGraph<V, E>, x: ReadonlyGraph<V, E>): void {
+  expect(y.isDirected()).toBe(x.isDirected());
+  expect(y.order()).toBe(x.order());
+  expect(y.size()).toBe(x.size());
+  expect(y.vertices()).toEqual(x.vertices());
+  x.forEachVertex(u => expect(y.edges(u)).toEqual(x.edges(u)));
+}
+
+
+
+
+describe("writeDot", () => {
+  test("writes vertices, then edges (undirected edges once)", () => {
+    expect(writeDot(undirected())).toBe("graph {\n  0;\n  1;\n  2;\n  3;\n  0 -- 1;\n  0 -- 2;\n  1 -- 2;\n  2 -- 2;\n}\n");
+  });
+
+  test("writes name and attributes, quoted if needed", () => {
+    var text = writeDot(directed(), Object.assign({name: "my graph", graphAttributes: {rankdir: "LR"}}, WRITE_OPTIONS));
+    expect(text.startsWith("digraph \"my graph\" {\n  rankdir=LR;\n")).toBe(true);
+    expect(text).toContain("  1 [label=\"b c\"];\n");
+    expect(text).toContain("  2 [label=\"say \\\"hi\\\"\"];\n");
+    expect(text).toContain("  3 [label=\"node\"];\n");
+    expect(text).toContain("  2 -> 0 [weight=-4];\n");
+  });
+});
+
+
+
+
+describe("readDot", () => {
+  test("round-trips directed and undirected graphs", () => {
+    var x = directed(), y = undirected();
+    expectSame(readDot(writeDot(x, WRITE_OPTIONS), READ_OPTIONS), x);
+    expectSame(readDot(writeDot(y, WRITE_OPTIONS), READ_OPTIONS), y);
+  });
+
+  test("numbers named vertices in order of appearance", () => {
+    var x = readDot("strict digraph G { b -> a; c; \"a\" -> c }");
+    expect(x.isDirected()).toBe(true);
+    expect(x.order()).toBe(3);
+    expect(x.edges(0).map(([v]) => v)).toEqual([1]);
+    expect(x.edges(1).map(([v]) => v)).toEqual([2]);
+  });
+
+  test("flattens subgraphs, connecting every vertex on each side of an edge", () => {
+    var x = readDot(`digraph {
+      a -> {b c};
+      subgraph cluster_0 { d; e -> f }
+      {a d} -> subgraph { g }
+    }`);
+    expect(x.order()).toBe(7);
+    expect(x.size()).toBe(5);
+    expect(x.edges(0).map(([v]) => v)).toEqual([1, 2, 6]);
+    expect(x.edges(4).map(([v]) => v)).toEqual([5]);
+    expect(x.edges(3).map(([v]) => v)).toEqual([6]);
+  });
+
+  test("applies node and edge attribute statements, within their scope", () => {
+    var x = readDot(`graph {
+      graph [rankdir=LR]; size="4,4";
+      node [shape=box]; edge [color=blue];
+      a -- b [color=green];
+      subgraph s { node [shape=circle]; edge [style=dashed]; c -- d }
+      a -- e;
+      e [shape=point, label="E"];
+    }`);
+    expect(x.isDirected()).toBe(false);
+    expect(x.vertexValue(0)).toEqual({shape: "box"});
+    expect(x.vertexValue(2)).toEqual({shape: "circle"});
+    expect(x.vertexValue(4)).toEqual({shape: "point", label: "E"});
+    expect(x.edgeValue(0, 1)).toEqual({color: "green"});
+    expect(x.edgeValue(2, 3)).toEqual({color: "blue", style: "dashed"});
+    expect(x.edgeValue(0, 4)).toEqual({color: "blue"});
+  });
+
+  test("reads comments, ports, concatenated strings, and HTML strings", () => {
+    var x = readDot(`# preprocessor line
+      digraph {
+        // line comment
+        /* block
+           comment */
+        a:p1:n -> b:sw;
+        a [label="con" + "cat"];
+        b [label=<<b>bold</b>>];
+      }`);
+    expect(x.order()).toBe(2);
+    expect(x.size()).toBe(1);
+    expect(x.vertexValue(0)).toEqual({label: "concat"});
+    expect(x.vertexValue(1)).toEqual({label: "<b>bold</b>"});
+  });
+
+  test("uses vertexDefault and edgeDefault, if given", () => {
+    var text = "digraph { a -> b }";
+    var x = readDot(text);
+    expect(x.vertexValue(-1)).toEqual({});
+    expect(x.edgeValue(-1, -1)).toEqual({});
+    var y = readDot(text, Object.assign({}, READ_OPTIONS, {vertexDefault: "?", edgeDefault: 0}));
+    expect(y.vertexValue(-1)).toBe("?");
+    expect(y.edgeValue(-1, -1)).toBe(0);
+  });
+
+  test("rejects malformed input", () => {
+    expect(() => readDot("tree { a }")).toThrow("Expected DOT graph or digraph, found: tree");
+    expect(() => readDot("digraph { a -> }")).toThrow("Expected ID in DOT, found: }");
+    expect(() => readDot("digraph { a [color] }")).toThrow("Expected in DOT: =, found: ]");
+    expect(() => readDot("digraph { a -> b")).toThrow("Expected in DOT: }, found: ");
+    expect(() => readDot("digraph { a @ b }")).toThrow("Unexpected DOT character: @");
+    expect(() => readDot("graph { a [label=<b] }")).toThrow("Unterminated DOT HTML string");
+  });
+});
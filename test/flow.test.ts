@@ -0,0 +1,174 @@
+import {describe, test, expect} from "vitest";
+import {DiGraph, Graph} from "../src/index";
+import {MaxFlow, edmondsKarp, dinic, pushRelabel, minCostMaxFlow, hopcroftKarp} from "../src/flow";
+
+
+
+
+// Create the flow network of CLRS (Figure 26.1), with source 0 and sink 5.
+function network(): DiGraph<number, number> {
+  var x = new DiGraph<number, number>(0, 0);
+  var es = [[0, 1, 16], [0, 2, 13], [1, 2, 10], [2, 1, 4], [1, 3, 12], [3, 2, 9], [2, 4, 14], [4, 3, 7], [3, 5, 20], [4, 5, 4]];
+  for (var [u, v, w] of es)
+    x.addEdge(u, v, w);
+  x.update();
+  return x;
+}
+
+
+// Check that flows respect capacities, and are conserved at all vertices but source and sink.
+function expectValidFlow(x: DiGraph<number, number>, a: MaxFlow<number>, s: number, t: number): void {
+  var net = new Array(x.span()).fill(0);
+  a.flows.forEachVertex(u => a.flows.forEachEdge(u, (v, f) => {
+    expect(f).toBeGreaterThan(0);
+    expect(f).toBeLessThanOrEqual(x.edgeValue(u, v));
+    net[u] -= f;
+    net[v] += f;
+  }));
+  for (var u=0; u<net.length; ++u)
+    if (u!==s && u!==t) expect(net[u]).toBe(0);
+  expect(net[t]).toBe(a.value);
+  expect(net[s] + a.value).toBe(0);
+}
+
+
+const solvers = {edmondsKarp, dinic, pushRelabel};
+
+
+
+
+describe("maximum flow", () => {
+  for (var [name, solve] of Object.entries(solvers)) {
+    test(name + " finds the maximum flow and minimum cut", () => {
+      var x = network(), a = solve(x, 0, 5);
+      expect(a.value).toBe(23);
+      expectValidFlow(x, a, 0, 5);
+      expect(a.sourceSide.slice().sort()).toEqual([0, 1, 2, 4]);
+      expect(a.cutEdges.slice().sort()).toEqual([[1, 3], [4, 3], [4, 5]]);
+      var cut = a.cutEdges.reduce((c, [u, v]) => c + x.edgeValue(u, v), 0);
+      expect(cut).toBe(a.value);
+    });
+
+    test(name + " gives zero flow to an unreachable sink", () => {
+      var x = network();
+      x.addVertex(6, 0);
+      x.update();
+      var a = solve(x, 0, 6);
+      expect(a.value).toBe(0);
+      expect(a.flows.size()).toBe(0);
+      expect(a.cutEdges).toEqual([]);
+      expect(a.sourceSide.slice().sort()).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+  }
+
+  test("all solvers agree on random networks", () => {
+    var seed = 7;
+    var random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    for (var t=0; t<20; ++t) {
+      var x = new DiGraph<number, number>(0, 0);
+      for (var u=0; u<8; ++u)
+        x.addVertex(u, 0);
+      for (var i=0; i<20; ++i) {
+        var u = Math.floor(random() * 8), v = Math.floor(random() * 8);
+        if (u!==v) x.addEdge(u, v, 1 + Math.floor(random() * 10));
+      }
+      x.update();
+      var as = Object.values(solvers).map(solve => solve(x, 0, 7));
+      for (var a of as) {
+        expect(a.value).toBe(as[0].value);
+        expect(a.sourceSide.slice().sort()).toEqual(as[0].sourceSide.slice().sort());
+        expectValidFlow(x, a, 0, 7);
+      }
+    }
+  });
+
+  test("lets undirected edges carry flow either way", () => {
+    var x = new Graph<number, number>(0, 0);
+    x.addEdge(0, 1, 3);
+    x.addEdge(2, 1, 2);
+    x.addEdge(0, 2, 1);
+    x.update();
+    for (var solve of Object.values(solvers))
+      expect(solve(x, 0, 2).value).toBe(3);
+  });
+});
+
+
+
+
+describe("minCostMaxFlow", () => {
+  test("picks the cheapest routes for the maximum flow", () => {
+    var x = new DiGraph<number, [number, number]>(0, [0, 0]);
+    x.addEdge(0, 1, [2, 1]);
+    x.addEdge(0, 2, [2, 3]);
+    x.addEdge(1, 3, [1, 1]);
+    x.addEdge(1, 2, [1, 1]);
+    x.addEdge(2, 3, [2, 1]);
+    x.update();
+    var a = minCostMaxFlow(x, 0, 3, w => w[1], w => w[0]);
+    expect(a.value).toBe(3);
+    expect(a.cost).toBe(9);
+    expect(a.flows.edgeValue(0, 1)).toBe(2);
+    expect(a.flows.edgeValue(0, 2)).toBe(1);
+    expect(a.flows.edgeValue(1, 2)).toBe(1);
+  });
+
+  test("matches the maximum flow value", () => {
+    var x = network(), a = minCostMaxFlow(x, 0, 5, () => 1);
+    expect(a.value).toBe(23);
+    expectValidFlow(x, a, 0, 5);
+  });
+
+  test("gives zero flow and cost to an unreachable sink", () => {
+    var x = network();
+    x.addVertex(6, 0);
+    x.update();
+    var a = minCostMaxFlow(x, 0, 6, () => 1);
+    expect(a.value).toBe(0);
+    expect(a.cost).toBe(0);
+  });
+});
+
+
+
+
+describe("hopcroftKarp", () => {
+  test("finds a maximum matching of an unbalanced bipartite graph", () => {
+    var x = new Graph<number, number>(0, 1);
+    for (var [u, v] of [[0, 3], [0, 4], [1, 3], [2, 3], [2, 5], [2, 6], [2, 7]])
+      x.addEdge(u, v, 1);
+    x.update();
+    for (var left of [null, [0, 1, 2]]) {
+      var a = hopcroftKarp(x, left);
+      expect(a.size).toBe(3);
+      var matched = 0;
+      for (var u=0; u<8; ++u) {
+        var v = a.mates[u];
+        if (v<0) continue;
+        expect(a.mates[v]).toBe(u);
+        expect(x.hasEdge(u, v)).toBe(true);
+        ++matched;
+      }
+      expect(matched).toBe(2 * a.size);
+    }
+  });
+
+  test("is limited by the smaller side", () => {
+    var x = new Graph<number, number>(0, 1);
+    for (var u=0; u<5; ++u)
+      for (var v=5; v<7; ++v)
+        x.addEdge(u, v, 1);
+    x.update();
+    expect(hopcroftKarp(x).size).toBe(2);
+  });
+
+  test("rejects a graph that is not bipartite", () => {
+    var x = new Graph<number, number>(0, 1);
+    x.addEdge(0, 1, 1);
+    x.addEdge(1, 2, 1);
+    x.addEdge(2, 0, 1);
+    x.update();
+    expect(() => hopcroftKarp(x)).toThrow("Graph is not bipartite");
+    expect(() => hopcroftKarp(x, [0, 1])).toThrow("Edge within one side");
+  });
+});
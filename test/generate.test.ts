@@ -0,0 +1,192 @@
+import {describe, test, expect} from "vitest";
+import {completeGraph, pathGraph, cycleGraph, starGraph, gridGraph, erdosRenyiGraph, randomGraph, barabasiAlbertGraph, wattsStrogatzGraph, rmatGraph} from "../src/generate";
+import {ReadonlyGraph, DiGraph, Graph} from "../src/index";
+
+
+
+
+// Create an empty directed graph.
+function digraph(): DiGraph<number, number> {
+  return new DiGraph<number, number>(0, 1);
+}
+
+
+// Create an empty undirected graph.
+function graph(): Graph<number, number> {
+  return new Graph<number, number>(0, 1);
+}
+
+
+// List all edges of a graph, as [u, v] pairs.
+function edgePairs<V, E>(x: ReadonlyGraph<V, E>): [number, number][] {
+  var a: [number, number][] = [];
+  x.forEachVertex(u => x.forEachEdge(u, v => a.push([u, v])));
+  return a;
+}
+
+
+// Check that a graph has no self-loops, and no repeated edges.
+function expectSimple<V, E>(x: ReadonlyGraph<V, E>): void {
+  x.forEachVertex(u => {
+    var vs = x.edges(u).map(([v]) => v);
+    expect(vs).not.toContain(u);
+    expect(new Set(vs).size).toBe(vs.length);
+  });
+}
+
+
+
+
+describe("classic generators", () => {
+  test("completeGraph adds both directions, if directed", () => {
+    var x = completeGraph(digraph(), 5);
+    expect(x.order()).toBe(5);
+    expect(x.size()).toBe(20);
+    expect(x.hasEdge(0, 4) && x.hasEdge(4, 0)).toBe(true);
+    var y = completeGraph(graph(), 5);
+    expect(y.size()).toBe(10);
+    expect(y.degree(2)).toBe(4);
+    expectSimple(x);
+  });
+
+  test("pathGraph adds one direction only, if directed", () => {
+    var x = pathGraph(digraph(), 5);
+    expect(x.order()).toBe(5);
+    expect(x.size()).toBe(4);
+    expect(edgePairs(x)).toEqual([[0, 1], [1, 2], [2, 3], [3, 4]]);
+    var y = pathGraph(graph(), 5);
+    expect(y.size()).toBe(4);
+    expect(y.hasEdge(1, 0)).toBe(true);
+    expect(pathGraph(graph(), 1).size()).toBe(0);
+  });
+
+  test("cycleGraph adds one direction only, if directed", () => {
+    var x = cycleGraph(digraph(), 5);
+    expect(x.size()).toBe(5);
+    expect(x.hasEdge(4, 0)).toBe(true);
+    expect(x.hasEdge(0, 4)).toBe(false);
+    var y = cycleGraph(graph(), 5);
+    expect(y.size()).toBe(5);
+    y.forEachVertex(u => expect(y.degree(u)).toBe(2));
+    expect(cycleGraph(graph(), 1).size()).toBe(0);
+  });
+
+  test("starGraph adds edges outward only, if directed", () => {
+    var x = starGraph(digraph(), 5);
+    expect(x.size()).toBe(4);
+    expect(x.degree(0)).toBe(4);
+    expect(x.inDegree(0)).toBe(0);
+    var y = starGraph(graph(), 5);
+    expect(y.size()).toBe(4);
+    expect(y.degree(3)).toBe(1);
+  });
+
+  test("gridGraph joins right and lower neighbours", () => {
+    var x = gridGraph(digraph(), 3, 4);
+    expect(x.order()).toBe(12);
+    expect(x.size()).toBe(3*3 + 2*4);
+    expect(x.hasEdge(5, 6) && x.hasEdge(5, 9)).toBe(true);
+    expect(x.hasEdge(6, 5)).toBe(false);
+    expect(gridGraph(graph(), 3, 4).size()).toBe(17);
+  });
+
+  test("gridGraph wraps around, if periodic", () => {
+    var x = gridGraph(graph(), 3, 4, {periodic: true});
+    expect(x.size()).toBe(24);
+    x.forEachVertex(u => expect(x.degree(u)).toBe(4));
+    expect(gridGraph(digraph(), 3, 4, {periodic: true}).size()).toBe(24);
+    // Rows of 2 are not wrapped, to avoid repeating edges.
+    expect(gridGraph(graph(), 2, 4, {periodic: true}).size()).toBe(8 + 4);
+  });
+
+  test("uses vertexValue and edgeValue, if given", () => {
+    var x = pathGraph(digraph(), 3, {vertexValue: v => 10*v, edgeValue: (u, v) => u + v});
+    expect(x.vertices()).toEqual([[0, 0], [1, 10], [2, 20]]);
+    expect(x.edges(1)).toEqual([[2, 3]]);
+    var y = starGraph(digraph(), 3);
+    expect(y.vertexValue(1)).toBe(0);
+    expect(y.edgeValue(0, 1)).toBe(1);
+  });
+});
+
+
+
+
+describe("random generators", () => {
+  test("are reproducible with the same seed", () => {
+    var fs = [
+      (x: DiGraph<number, number>, seed: number) => erdosRenyiGraph(x, 30, 0.1, {seed}),
+      (x: DiGraph<number, number>, seed: number) => randomGraph(x, 30, 60, {seed}),
+      (x: DiGraph<number, number>, seed: number) => barabasiAlbertGraph(x, 30, 2, {seed}),
+      (x: DiGraph<number, number>, seed: number) => wattsStrogatzGraph(x, 30, 4, 0.3, {seed}),
+      (x: DiGraph<number, number>, seed: number) => rmatGraph(x, 5, 4, {seed}),
+    ];
+    for (var f of fs) {
+      var a = edgePairs(f(digraph(), 7));
+      expect(edgePairs(f(digraph(), 7))).toEqual(a);
+      expect(edgePairs(f(digraph(), 8))).not.toEqual(a);
+    }
+  });
+
+  test("erdosRenyiGraph gives empty and complete graphs at p = 0 and 1", () => {
+    expect(erdosRenyiGraph(digraph(), 6, 0).size()).toBe(0);
+    expect(erdosRenyiGraph(digraph(), 6, 1).size()).toBe(30);
+    expect(erdosRenyiGraph(graph(), 6, 1).size()).toBe(15);
+    var x = erdosRenyiGraph(graph(), 40, 0.2, {seed: 1});
+    expectSimple(x);
+  });
+
+  test("randomGraph adds exactly m edges", () => {
+    for (var m of [0, 10, 25, 29, 30]) {
+      var x = randomGraph(digraph(), 6, m, {seed: 3});
+      expect(x.size()).toBe(m);
+      expectSimple(x);
+    }
+    for (var m of [0, 5, 12, 15]) {
+      var y = randomGraph(graph(), 6, m, {seed: 3});
+      expect(y.size()).toBe(m);
+      expectSimple(y);
+    }
+    expect(() => randomGraph(graph(), 6, 16)).toThrow("Too many edges for G(n, m): 16 > 15");
+  });
+
+  test("barabasiAlbertGraph adds m edges per new vertex", () => {
+    var x = barabasiAlbertGraph(graph(), 50, 3, {seed: 2});
+    expect(x.order()).toBe(50);
+    expect(x.size()).toBe(3 + (50-4)*3);
+    expectSimple(x);
+    var y = barabasiAlbertGraph(digraph(), 50, 3, {seed: 2});
+    expect(y.size()).toBe(3 + (50-4)*3);
+    for (var u=4; u<50; ++u)
+      expect(y.degree(u)).toBe(3);
+    expect(() => barabasiAlbertGraph(graph(), 5, 5)).toThrow("Invalid Barabási–Albert edges per vertex: 5");
+  });
+
+  test("wattsStrogatzGraph keeps n·k/2 edges, without self-loops or duplicates", () => {
+    for (var p of [0, 0.1, 0.5, 1]) {
+      for (var seed=0; seed<5; ++seed) {
+        var x = wattsStrogatzGraph(graph(), 40, 6, p, {seed});
+        expect(x.size()).toBe(40*6/2);
+        expectSimple(x);
+        var y = wattsStrogatzGraph(digraph(), 40, 6, p, {seed});
+        expect(y.size()).toBe(40*6/2);
+        expectSimple(y);
+        expect(edgePairs(y).every(([u, v]) => u<v)).toBe(true);
+      }
+    }
+    var z = wattsStrogatzGraph(graph(), 10, 4, 0);
+    z.forEachVertex(u => expect(z.degree(u)).toBe(4));
+    expect(z.hasEdge(0, 9) && z.hasEdge(0, 8)).toBe(true);
+    expect(() => wattsStrogatzGraph(graph(), 4, 4, 0)).toThrow("Invalid Watts–Strogatz neighbours: 4");
+  });
+
+  test("rmatGraph samples edgeFactor·2^scale edges, with duplicates merged", () => {
+    var x = rmatGraph(digraph(), 6, 8, {seed: 4});
+    expect(x.order()).toBe(64);
+    expect(x.size()).toBeGreaterThan(0);
+    expect(x.size()).toBeLessThanOrEqual(8*64);
+    // With all probability in the top-left quadrant, every edge is [0, 0].
+    var y = rmatGraph(digraph(), 4, 2, {a: 1, b: 0, c: 0});
+    expect(edgePairs(y)).toEqual([[0, 0]]);
+  });
+});
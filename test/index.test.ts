@@ -0,0 +1,380 @@
+import {describe, test, expect} from "vitest";
+import {LazyPairBitset, OutDiGraph, DiGraph, Graph} from "../src/index";
+
+
+
+
+describe("LazyPairBitset", () => {
+  test("applies pending additions on update, sorted by key", () => {
+    var x = new LazyPairBitset<string>();
+    x.add(5, "e");
+    x.add(1, "a");
+    x.add(3, "c");
+    expect(x.size()).toBe(0);
+    expect(x.has(1)).toBe(false);
+    x.update();
+    expect(x.size()).toBe(3);
+    expect(x.entries()).toEqual([[1, "a"], [3, "c"], [5, "e"]]);
+    x.add(4, "d");
+    x.add(0, "z");
+    x.update();
+    expect(x.keys()).toEqual([0, 1, 3, 4, 5]);
+    expect(x.get(4, "")).toBe("d");
+    expect(x.get(2, "?")).toBe("?");
+  });
+
+  test("keeps the last value of a key added many times", () => {
+    var x = new LazyPairBitset<number>();
+    x.add(2, 1);
+    x.add(1, 1);
+    x.add(2, 2);
+    x.update();
+    x.add(1, 3);
+    x.add(2, 4);
+    x.add(1, 5);
+    x.update();
+    expect(x.entries()).toEqual([[1, 5], [2, 4]]);
+  });
+
+  test("applies pending removals on update", () => {
+    var x = new LazyPairBitset<number>();
+    for (var k=0; k<6; ++k)
+      x.add(k, 10*k);
+    x.update();
+    x.remove(4);
+    x.remove(0);
+    x.remove(9);
+    expect(x.size()).toBe(6);
+    x.update();
+    expect(x.entries()).toEqual([[1, 10], [2, 20], [3, 30], [5, 50]]);
+    x.remove(1);
+    x.remove(1);
+    x.update();
+    expect(x.keys()).toEqual([2, 3, 5]);
+  });
+
+  test("applies additions and removals in the order made", () => {
+    var x = new LazyPairBitset<number>();
+    x.add(1, 1);
+    x.remove(1);
+    x.add(2, 2);
+    x.update();
+    expect(x.entries()).toEqual([[2, 2]]);
+    x.remove(2);
+    x.add(2, 3);
+    x.add(1, 4);
+    x.remove(1);
+    x.update();
+    expect(x.entries()).toEqual([[2, 3]]);
+  });
+
+  test("matches a map, under random changes", () => {
+    var x = new LazyPairBitset<number>(), m = new Map<number, number>();
+    var seed = 7;
+    for (var i=0; i<2000; ++i) {
+      seed = (seed*16807) % 2147483647;
+      var k = seed % 50, op = (seed >> 8) % 3;
+      if (op===0) { x.remove(k); m.delete(k); }
+      else { x.add(k, i); m.set(k, i); }
+      if (i%97===0) {
+        x.update();
+        expect(x.entries()).toEqual([...m].sort((a, b) => a[0]-b[0]));
+      }
+    }
+    x.update();
+    expect(x.entries()).toEqual([...m].sort((a, b) => a[0]-b[0]));
+  });
+
+  test("sets values of committed keys only", () => {
+    var x = new LazyPairBitset<number>();
+    x.add(1, 1);
+    x.update();
+    x.set(1, 2);
+    x.set(3, 3);
+    x.update();
+    expect(x.entries()).toEqual([[1, 2]]);
+    x.clear();
+    expect(x.isEmpty()).toBe(true);
+    x.update();
+    expect(x.size()).toBe(0);
+  });
+
+  test("finds keys through the hash index, above 4096 keys", () => {
+    var x = new LazyPairBitset<number>();
+    for (var k=0; k<10000; k+=2)
+      x.add(k, -k);
+    x.update();
+    expect(x["_index"]).not.toBeNull();
+    expect(x.has(4096)).toBe(true);
+    expect(x.has(4097)).toBe(false);
+    expect(x.get(9998, 0)).toBe(-9998);
+    expect(x.indexOf(100)).toBe(50);
+    for (var k=0; k<10000; k+=4)
+      x.remove(k);
+    x.add(3, 3);
+    x.add(10001, 1);
+    x.update();
+    expect(x.size()).toBe(2500 + 2);
+    expect(x.has(8)).toBe(false);
+    expect(x.has(10)).toBe(true);
+    expect(x.get(3, 0)).toBe(3);
+    expect(x.get(10001, 0)).toBe(1);
+    expect(x.indexOf(10)).toBe(3);
+    expect(x.keyAt(x.indexOf(9998))).toBe(9998);
+  });
+
+  test("drops the hash index, when shrinking below hashed size", () => {
+    var x = new LazyPairBitset<number>();
+    for (var k=0; k<5000; ++k)
+      x.add(k, k);
+    x.update();
+    expect(x["_index"]).not.toBeNull();
+    for (var k=0; k<2000; ++k)
+      x.remove(k);
+    x.update();
+    expect(x["_index"]).toBeNull();
+    expect(x.has(1999)).toBe(false);
+    expect(x.get(2000, -1)).toBe(2000);
+  });
+
+  test("uses a custom hashed size", () => {
+    var x = new LazyPairBitset<string>(4), y = new LazyPairBitset<string>(Infinity);
+    for (var k of [9, 3, 7, 1, 5]) {
+      x.add(k, "v" + k);
+      y.add(k, "v" + k);
+    }
+    x.update();
+    y.update();
+    expect(x["_index"]).not.toBeNull();
+    expect(y["_index"]).toBeNull();
+    for (var k=0; k<10; ++k) {
+      expect(x.has(k)).toBe(y.has(k));
+      expect(x.indexOf(k)).toBe(y.indexOf(k));
+      expect(x.get(k, "")).toBe(y.get(k, ""));
+    }
+    x.remove(3);
+    x.add(4, "v4");
+    x.update();
+    expect(x.entries()).toEqual([[1, "v1"], [4, "v4"], [5, "v5"], [7, "v7"], [9, "v9"]]);
+    expect(x.get(4, "")).toBe("v4");
+    expect(x.has(3)).toBe(false);
+  });
+});
+
+
+
+
+describe("OutDiGraph", () => {
+  test("counts order, size and degrees after update", () => {
+    var x = new OutDiGraph<string, number>("", 1);
+    x.addVertex(0, "a");
+    x.addEdge(0, 1, 2);
+    x.addEdge(1, 2, 3);
+    x.addEdge(2, 2, 4);
+    x.update();
+    expect(x.order()).toBe(3);
+    expect(x.size()).toBe(3);
+    expect(x.degrees()).toEqual([1, 1, 1]);
+    expect(x.inDegrees()).toEqual([0, 1, 2]);
+    expect(x.vertexValues()).toEqual(["a", "", ""]);
+    expect(x.edgeValue(2, 2)).toBe(4);
+    expect(x.hasEdge(1, 0)).toBe(false);
+  });
+
+  test("keeps vertex ids sparse", () => {
+    var x = new OutDiGraph<number, number>(0, 1);
+    x.addVertex(5, 50);
+    x.update();
+    expect(x.span()).toBe(6);
+    expect(x.order()).toBe(1);
+    expect(x.vertexKeys()).toEqual([5]);
+  });
+
+  test("rejects negative and fractional vertex ids", () => {
+    var x = new OutDiGraph<number, number>(0, 1);
+    expect(() => x.addVertex(-1, 0)).toThrow("Invalid vertex: -1");
+    expect(() => x.addVertex(1.5, 0)).toThrow("Invalid vertex: 1.5");
+    expect(() => x.addEdge(0, -2, 1)).toThrow("Invalid vertex: -2");
+    x.update();
+    expect(x.hasVertex(-1)).toBe(false);
+    expect(x.hasVertex(-2)).toBe(false);
+    expect(x.vertexKeys()).toEqual([0]);
+  });
+
+  test("removes edges, after update", () => {
+    var x = new OutDiGraph<number, number>(0, 1);
+    x.addEdge(0, 1, 1);
+    x.addEdge(0, 2, 1);
+    x.addEdge(1, 2, 1);
+    x.addEdge(2, 2, 1);
+    x.update();
+    x.removeEdge(0, 1);
+    x.removeEdge(1, 0);
+    x.removeEdge(7, 0);
+    expect(x.size()).toBe(4);
+    x.update();
+    expect(x.size()).toBe(3);
+    expect(x.edgeKeys(0)).toEqual([2]);
+    x.removeInEdges(2);
+    x.update();
+    expect(x.size()).toBe(0);
+    expect(x.degrees()).toEqual([0, 0, 0]);
+    expect(x.order()).toBe(3);
+  });
+});
+
+
+
+
+describe("DiGraph", () => {
+  test("tracks in-edges", () => {
+    var x = new DiGraph<number, number>(0, 1);
+    x.addEdge(0, 1, 2);
+    x.addEdge(2, 1, 3);
+    x.addEdge(1, 1, 4);
+    x.update();
+    expect(x.size()).toBe(3);
+    expect(x.inEdges(1)).toEqual([[0, 2], [1, 4], [2, 3]]);
+    expect(x.inDegrees()).toEqual([0, 3, 0]);
+    expect(x.degrees()).toEqual([1, 1, 1]);
+  });
+
+  test("rejects negative vertex ids, without ghost vertices", () => {
+    var x = new DiGraph<number, number>(0, 1);
+    x.addEdge(0, 1, 1);
+    expect(() => x.addEdge(-1, 2, 1)).toThrow("Invalid vertex: -1");
+    expect(() => x.addEdge(2, -1, 1)).toThrow("Invalid vertex: -1");
+    x.update();
+    expect(x.hasVertex(-1)).toBe(false);
+    expect(x.inEdges(2)).toEqual([]);
+    expect(x.size()).toBe(1);
+  });
+
+  test("removes edges from both ends", () => {
+    var x = new DiGraph<number, number>(0, 1);
+    x.addEdge(0, 1, 1);
+    x.addEdge(0, 2, 2);
+    x.addEdge(1, 2, 3);
+    x.addEdge(2, 0, 4);
+    x.addEdge(2, 2, 5);
+    x.update();
+    x.removeEdge(0, 2);
+    x.update();
+    expect(x.size()).toBe(4);
+    expect(x.edgeKeys(0)).toEqual([1]);
+    expect(x.inEdgeKeys(2)).toEqual([1, 2]);
+    x.removeEdges(2);
+    x.update();
+    expect(x.size()).toBe(2);
+    expect(x.inEdges(0)).toEqual([]);
+    expect(x.inEdgeKeys(2)).toEqual([1]);
+    expect(x.degree(2)).toBe(0);
+    x.removeInEdges(1);
+    x.update();
+    expect(x.size()).toBe(1);
+    expect(x.edges(0)).toEqual([]);
+    expect(x.inDegrees()).toEqual([0, 0, 1]);
+  });
+
+  test("removes a vertex with its edges", () => {
+    var x = new DiGraph<number, number>(0, 1);
+    x.addEdge(0, 1, 1);
+    x.addEdge(1, 2, 1);
+    x.addEdge(2, 1, 1);
+    x.addEdge(1, 1, 1);
+    x.update();
+    x.removeVertex(1);
+    x.removeVertex(9);
+    x.update();
+    expect(x.order()).toBe(2);
+    expect(x.size()).toBe(0);
+    expect(x.hasVertex(1)).toBe(false);
+    expect(x.edges(0)).toEqual([]);
+    expect(x.inEdges(2)).toEqual([]);
+    x.addEdge(1, 0, 2);
+    x.update();
+    expect(x.inEdges(0)).toEqual([[1, 2]]);
+    expect(x.size()).toBe(1);
+  });
+
+  test("applies removal and re-addition of an edge in order", () => {
+    var x = new DiGraph<number, number>(0, 1);
+    x.addEdge(0, 1, 1);
+    x.update();
+    x.removeEdge(0, 1);
+    x.addEdge(0, 1, 2);
+    x.addEdge(1, 0, 3);
+    x.removeEdge(1, 0);
+    x.update();
+    expect(x.edges(0)).toEqual([[1, 2]]);
+    expect(x.inEdges(1)).toEqual([[0, 2]]);
+    expect(x.edges(1)).toEqual([]);
+    expect(x.inEdges(0)).toEqual([]);
+  });
+});
+
+
+
+
+describe("Graph", () => {
+  test("stores each edge in both directions", () => {
+    var x = new Graph<number, number>(0, 1);
+    x.addEdge(0, 1, 2);
+    x.addEdge(1, 2, 3);
+    x.update();
+    expect(x.size()).toBe(2);
+    expect(x.edges(1)).toEqual([[0, 2], [2, 3]]);
+    expect(x.inEdges(1)).toEqual(x.edges(1));
+    expect(x.degrees()).toEqual([1, 2, 1]);
+    x.setEdgeValue(2, 1, 5);
+    expect(x.edgeValue(1, 2)).toBe(5);
+  });
+
+  test("counts a self-loop once in size and degree", () => {
+    var x = new Graph<number, number>(0, 1);
+    x.addEdge(0, 0, 1);
+    x.addEdge(0, 1, 1);
+    x.update();
+    expect(x.size()).toBe(2);
+    expect(x.degree(0)).toBe(2);
+    expect(x.degree(1)).toBe(1);
+    expect(x.edgeKeys(0)).toEqual([0, 1]);
+  });
+
+  test("rejects negative vertex ids", () => {
+    var x = new Graph<number, number>(0, 1);
+    expect(() => x.addEdge(-1, 0, 1)).toThrow("Invalid vertex: -1");
+    x.update();
+    expect(x.hasVertex(-1)).toBe(false);
+    expect(x.edgeValue(-1, 0)).toBe(1);
+  });
+
+  test("removes edges from both ends, with self-loops once", () => {
+    var x = new Graph<number, number>(0, 1);
+    x.addEdge(0, 1, 1);
+    x.addEdge(1, 2, 1);
+    x.addEdge(2, 0, 1);
+    x.addEdge(0, 0, 1);
+    x.update();
+    expect(x.size()).toBe(4);
+    expect(x.degrees()).toEqual([3, 2, 2]);
+    x.removeEdge(1, 0);
+    x.update();
+    expect(x.size()).toBe(3);
+    expect(x.edgeKeys(0)).toEqual([0, 2]);
+    expect(x.edgeKeys(1)).toEqual([2]);
+    x.removeEdges(0);
+    x.update();
+    expect(x.size()).toBe(1);
+    expect(x.degrees()).toEqual([0, 1, 1]);
+    x.addEdge(2, 2, 1);
+    x.removeInEdges(1);
+    x.update();
+    expect(x.size()).toBe(1);
+    expect(x.edgeKeys(2)).toEqual([2]);
+    x.removeVertex(2);
+    x.update();
+    expect(x.order()).toBe(2);
+    expect(x.size()).toBe(0);
+  });
+});
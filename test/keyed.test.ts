@@ -0,0 +1,100 @@
+import {describe, test, expect} from "vitest";
+import {KeyedGraph} from "../src/keyed";
+import {dijkstra, tracePath} from "../src/paths";
+import {DiGraph, Graph} from "../src/index";
+
+
+
+
+// Create a keyed directed graph of cities, with distances.
+function cities(): KeyedGraph<string, number, number> {
+  var x = new KeyedGraph<string, number, number>(new DiGraph<number, number>(0, 1));
+  x.addVertex("paris", 2);
+  x.addEdge("paris", "lyon", 4);
+  x.addEdge("lyon", "nice", 3);
+  x.addEdge("paris", "nice", 9);
+  x.update();
+  return x;
+}
+
+
+
+
+describe("KeyedGraph", () => {
+  test("interns keys to compact vertex ids", () => {
+    var x = cities();
+    expect(x.idsOf(["paris", "lyon", "nice", "rome"])).toEqual([0, 1, 2, -1]);
+    expect(x.keysOf([2, 0])).toEqual(["nice", "paris"]);
+    expect(x.addVertex("lyon", 5)).toBe(1);
+    expect(x.vertexValue("lyon")).toBe(0);
+    expect(x.key(1)).toBe("lyon");
+    expect(x.key(3)).toBeUndefined();
+    expect(x.graph().span()).toBe(3);
+    expect(x.order()).toBe(3);
+    expect(x.size()).toBe(3);
+  });
+
+  test("lists vertices, edges, and degrees by key", () => {
+    var x = cities();
+    expect(x.vertices()).toEqual([["paris", 2], ["lyon", 0], ["nice", 0]]);
+    expect([...x.ivertexKeys()]).toEqual(["paris", "lyon", "nice"]);
+    expect(x.edges("paris")).toEqual([["lyon", 4], ["nice", 9]]);
+    expect(x.inEdgeKeys("nice").sort()).toEqual(["lyon", "paris"]);
+    expect(x.degrees()).toEqual([2, 1, 0]);
+    expect(x.inDegrees()).toEqual([0, 1, 2]);
+    expect(x.hasEdge("lyon", "nice")).toBe(true);
+    expect(x.hasEdge("nice", "lyon")).toBe(false);
+    expect(x.edgeValue("paris", "nice")).toBe(9);
+  });
+
+  test("reads defaults for missing keys", () => {
+    var x = cities();
+    expect(x.hasVertex("rome")).toBe(false);
+    expect(x.vertexValue("rome")).toBe(0);
+    expect(x.edgeValue("rome", "paris")).toBe(1);
+    expect(x.degree("rome")).toBe(0);
+    expect(x.edges("rome")).toEqual([]);
+    x.setVertexValue("rome", 7);
+    x.setEdgeValue("rome", "paris", 7);
+    x.removeEdge("rome", "paris");
+    expect(x.hasVertex("rome")).toBe(false);
+  });
+
+  test("reuses ids of removed vertices", () => {
+    var x = cities();
+    x.removeVertex("lyon");
+    x.update();
+    expect(x.hasVertex("lyon")).toBe(false);
+    expect(x.id("lyon")).toBe(-1);
+    expect(x.key(1)).toBeUndefined();
+    expect(x.order()).toBe(2);
+    expect(x.size()).toBe(1);
+    expect(x.addVertex("rome", 3)).toBe(1);
+    expect(x.addVertex("milan", 3)).toBe(3);
+    x.addEdge("rome", "nice", 6);
+    x.update();
+    expect(x.key(1)).toBe("rome");
+    expect(x.inEdges("nice")).toEqual([["paris", 9], ["rome", 6]]);
+    expect(x.graph().span()).toBe(4);
+    x.clear();
+    expect(x.order()).toBe(0);
+    expect(x.addVertex("oslo", 0)).toBe(0);
+  });
+
+  test("translates results of algorithms to keys", () => {
+    var x = cities();
+    var a = dijkstra(x.graph(), x.id("paris"));
+    expect(x.toKeyMap(a.distances)).toEqual(new Map([["paris", 0], ["lyon", 4], ["nice", 7]]));
+    expect(x.keysOf(tracePath(a, x.id("nice")))).toEqual(["paris", "lyon", "nice"]);
+  });
+
+  test("writes a summary with vertex keys", () => {
+    var x = cities();
+    expect(x.toString()).toBe("order: 3 size: 3 [directed] {}");
+    expect(x.toString(true)).toBe("order: 3 size: 3 [directed] {\nparis:2 -> lyon:4 nice:9\nlyon:0 -> nice:3\nnice:0 ->\n}");
+    var y = new KeyedGraph<string, string, number>(new Graph<string, number>("", 1));
+    y.addEdge("a", "b", 2);
+    y.update();
+    expect(y.toString(true)).toBe("order: 2 size: 1 [undirected] {\na: -> b:2\nb: -> a:2\n}");
+  });
+});
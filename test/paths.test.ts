@@ -0,0 +1,177 @@
+import {describe, test, expect} from "vitest";
+import {DiGraph, Graph} from "../src/index";
+import {dijkstra, bellmanFord, astar, floydWarshall, johnson, tracePath, traceMatrixPath, eccentricities, diameter, radius, center} from "../src/paths";
+
+
+
+
+// Create a weighted directed graph (CLRS Figure 24.6), with an unreachable vertex 5.
+function weighted(): DiGraph<number, number> {
+  var x = new DiGraph<number, number>(0, 1);
+  var es = [[0, 1, 10], [0, 3, 5], [1, 2, 1], [1, 3, 2], [2, 4, 4], [3, 1, 3], [3, 2, 9], [3, 4, 2], [4, 0, 7], [4, 2, 6]];
+  for (var [u, v, w] of es)
+    x.addEdge(u, v, w);
+  x.addVertex(5, 0);
+  x.update();
+  return x;
+}
+
+
+// Create a directed graph with negative edges, but no negative cycle (CLRS Figure 24.4).
+function negative(): DiGraph<number, number> {
+  var x = new DiGraph<number, number>(0, 1);
+  var es = [[0, 1, 6], [0, 3, 7], [1, 2, 5], [1, 3, 8], [1, 4, -4], [2, 1, -2], [3, 2, -3], [3, 4, 9], [4, 0, 2], [4, 2, 7]];
+  for (var [u, v, w] of es)
+    x.addEdge(u, v, w);
+  x.update();
+  return x;
+}
+
+
+// Create a directed graph with a negative cycle 1 → 2 → 3 → 1, reachable from 0.
+function negativeCycle(): DiGraph<number, number> {
+  var x = new DiGraph<number, number>(0, 1);
+  var es = [[0, 1, 1], [1, 2, 1], [2, 3, -3], [3, 1, 1], [3, 4, 1]];
+  for (var [u, v, w] of es)
+    x.addEdge(u, v, w);
+  x.update();
+  return x;
+}
+
+
+
+
+describe("single-source shortest paths", () => {
+  test("dijkstra finds distances and parents", () => {
+    var a = dijkstra(weighted(), 0);
+    expect([...a.distances]).toEqual([0, 8, 9, 5, 7, Infinity]);
+    expect([...a.parents]).toEqual([-1, 3, 1, 0, 3, -1]);
+    expect(tracePath(a, 2)).toEqual([0, 3, 1, 2]);
+    expect(tracePath(a, 0)).toEqual([0]);
+    expect(tracePath(a, 5)).toEqual([]);
+  });
+
+  test("dijkstra accepts many sources, and a weight function", () => {
+    var a = dijkstra(weighted(), [0, 2], () => 1);
+    expect([...a.distances]).toEqual([0, 1, 0, 1, 1, Infinity]);
+    expect(tracePath(a, 4)).toEqual([2, 4]);
+  });
+
+  test("bellmanFord handles negative edges", () => {
+    var a = bellmanFord(negative(), 0);
+    expect(a.negativeCycle).toBeNull();
+    expect([...a.distances]).toEqual([0, 2, 4, 7, -2]);
+    expect(tracePath(a, 4)).toEqual([0, 3, 2, 1, 4]);
+  });
+
+  test("bellmanFord matches dijkstra, on non-negative weights", () => {
+    var x = weighted(), a = bellmanFord(x, 0), b = dijkstra(x, 0);
+    expect(a.negativeCycle).toBeNull();
+    expect([...a.distances]).toEqual([...b.distances]);
+    for (var v=0; v<6; ++v)
+      expect(tracePath(a, v)).toEqual(tracePath(b, v));
+  });
+
+  test("bellmanFord reports a negative cycle, and tracePath throws on it", () => {
+    var a = bellmanFord(negativeCycle(), 0);
+    expect(a.negativeCycle!.slice().sort()).toEqual([1, 2, 3]);
+    expect(() => tracePath(a, 4)).toThrow("Path runs into a negative cycle, to vertex: 4");
+    expect(() => tracePath(a, 2)).toThrow("Path runs into a negative cycle");
+  });
+
+  test("astar matches dijkstra, with a consistent heuristic", () => {
+    var x = new Graph<number, number>(0, 1);
+    // A 4×4 grid, with heuristic as Manhattan distance to the corner.
+    for (var r=0; r<4; ++r) {
+      for (var c=0; c<4; ++c) {
+        if (c<3) x.addEdge(4*r+c, 4*r+c+1, 1);
+        if (r<3) x.addEdge(4*r+c, 4*r+c+4, 1);
+      }
+    }
+    x.update();
+    var fh = (v: number) => (3 - Math.floor(v/4)) + (3 - v%4);
+    var a = astar(x, 0, 15, fh), b = dijkstra(x, 0);
+    expect(a.distances[15]).toBe(6);
+    expect(tracePath(a, 15)).toHaveLength(7);
+    expect(tracePath(a, 15)[0]).toBe(0);
+    expect(a.distances[15]).toBe(b.distances[15]);
+  });
+
+  test("astar finds the target on a weighted graph", () => {
+    var a = astar(weighted(), 0, 2, () => 0);
+    expect(a.distances[2]).toBe(9);
+    expect(tracePath(a, 2)).toEqual([0, 3, 1, 2]);
+    expect(astar(weighted(), 0, 5, () => 0).distances[5]).toBe(Infinity);
+  });
+});
+
+
+
+
+describe("all-pairs shortest paths", () => {
+  for (var [name, solve] of Object.entries({floydWarshall, johnson})) {
+    test(name + " matches bellmanFord from each vertex", () => {
+      for (var x of [weighted(), negative()]) {
+        var a = solve(x), S = a.span;
+        expect(S).toBe(x.span());
+        x.forEachVertex(u => {
+          var b = bellmanFord(x, u);
+          expect([...a.distances.subarray(u*S, (u+1)*S)]).toEqual([...b.distances]);
+          x.forEachVertex(v => {
+            var p = traceMatrixPath(a, u, v);
+            expect(p.length>0).toBe(b.distances[v]<Infinity);
+            if (p.length===0) return;
+            expect(p[0]).toBe(u);
+            expect(p[p.length-1]).toBe(v);
+            var d = 0;
+            for (var i=1; i<p.length; ++i)
+              d += x.edgeValue(p[i-1], p[i]);
+            expect(d).toBe(b.distances[v]);
+          });
+        });
+      }
+    });
+  }
+
+  test("floydWarshall marks vertices on a negative cycle, and traceMatrixPath throws on it", () => {
+    var a = floydWarshall(negativeCycle()), S = a.span;
+    for (var u of [1, 2, 3])
+      expect(a.distances[u*S+u]).toBeLessThan(0);
+    expect(a.distances[0]).toBe(0);
+    expect(() => traceMatrixPath(a, 1, 1)).toThrow("Path runs into a negative cycle, from vertex: 1 to: 1");
+  });
+
+  test("johnson throws on a negative cycle", () => {
+    expect(() => johnson(negativeCycle())).toThrow("Graph has a negative cycle");
+  });
+});
+
+
+
+
+describe("distance measures", () => {
+  test("find eccentricities, diameter, radius and center", () => {
+    // A path 0 - 1 - 2 - 3 - 4.
+    var x = new Graph<number, number>(0, 1);
+    for (var u=0; u<4; ++u)
+      x.addEdge(u, u+1, 1);
+    x.update();
+    var a = floydWarshall(x);
+    expect([...eccentricities(x, a)]).toEqual([4, 3, 2, 3, 4]);
+    expect(diameter(x, a)).toBe(4);
+    expect(radius(x, a)).toBe(2);
+    expect(center(x, a)).toEqual([2]);
+  });
+
+  test("are infinite on disconnected input", () => {
+    var x = new Graph<number, number>(0, 1);
+    x.addEdge(0, 1, 1);
+    x.addEdge(3, 4, 1);
+    x.update();
+    var a = johnson(x);
+    expect([...eccentricities(x, a)]).toEqual([Infinity, Infinity, Infinity, Infinity, Infinity]);
+    expect(diameter(x, a)).toBe(Infinity);
+    expect(radius(x, a)).toBe(Infinity);
+    expect(center(x, a)).toEqual([0, 1, 3, 4]);
+  });
+});
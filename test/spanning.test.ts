@@ -0,0 +1,91 @@
+import {describe, test, expect} from "vitest";
+import {ReadonlyGraph, DiGraph, Graph} from "../src/index";
+import {SpanningForest, kruskal, prim, boruvka} from "../src/spanning";
+import {connectedComponents} from "../src/components";
+import {UnionFind} from "../src/_unionfind";
+
+
+
+
+// Create a weighted graph, with known minimum spanning tree weight 37 (CLRS Figure 23.1).
+function weighted(): Graph<number, number> {
+  var x = new Graph<number, number>(0, 1);
+  var es = [[0, 1, 4], [0, 7, 8], [1, 2, 8], [1, 7, 11], [2, 3, 7], [2, 8, 2], [2, 5, 4], [3, 4, 9], [3, 5, 14], [4, 5, 10], [5, 6, 2], [6, 7, 1], [6, 8, 6], [7, 8, 7]];
+  for (var [u, v, w] of es)
+    x.addEdge(u, v, w);
+  x.update();
+  return x;
+}
+
+
+// Check that a forest spans each component of a graph, without cycles, with given weight.
+function expectForest<V>(x: ReadonlyGraph<V, number>, a: SpanningForest<V, number>, weight: number): void {
+  var y = a.graph, sets = new UnionFind(x.span()), m = 0;
+  expect(y.isDirected()).toBe(false);
+  expect(y.vertexKeys()).toEqual(x.vertexKeys());
+  y.forEachVertex(u => y.forEachEdge(u, (v, w) => {
+    if (u>v) return;
+    expect(x.hasEdge(u, v) || x.hasEdge(v, u)).toBe(true);
+    expect(sets.union(u, v)).toBe(true);
+    ++m;
+  }));
+  expect(m).toBe(x.order() - connectedComponents(x).count);
+  expect(a.weight).toBe(weight);
+}
+
+
+const solvers = {kruskal, prim, boruvka};
+
+
+
+
+describe("minimum spanning forest", () => {
+  for (var [name, solve] of Object.entries(solvers)) {
+    test(name + " finds a minimum spanning tree", () => {
+      var x = weighted();
+      expectForest(x, solve(x), 37);
+    });
+
+    test(name + " finds a forest of a disconnected graph", () => {
+      var x = weighted();
+      x.addEdge(10, 11, 3);
+      x.addEdge(11, 12, 5);
+      x.addEdge(10, 12, 4);
+      x.addEdge(12, 12, 1);
+      x.addVertex(13, 0);
+      x.update();
+      expectForest(x, solve(x), 37 + 7);
+    });
+
+    test(name + " ignores edge directions", () => {
+      var x = new DiGraph<number, number>(0, 1);
+      x.addEdge(0, 1, 5);
+      x.addEdge(2, 1, 1);
+      x.addEdge(0, 2, 3);
+      x.update();
+      expectForest(x, solve(x), 4);
+    });
+
+    test(name + " uses a custom weight function", () => {
+      var x = weighted(), a = solve(x, w => -w);
+      expect(a.weight).toBe(-71);
+      expect(a.graph.edgeValue(3, 5)).toBe(14);
+    });
+  }
+
+  test("all solvers agree on random graphs", () => {
+    var seed = 11;
+    var random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    for (var t=0; t<20; ++t) {
+      var x = new Graph<number, number>(0, 1);
+      for (var u=0; u<12; ++u)
+        x.addVertex(u, 0);
+      for (var i=0; i<18; ++i)
+        x.addEdge(Math.floor(random() * 12), Math.floor(random() * 12), 1 + Math.floor(random() * 20));
+      x.update();
+      var w = kruskal(x).weight;
+      for (var solve of Object.values(solvers))
+        expectForest(x, solve(x), w);
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import {describe, test, expect} from "vitest";
+import {readMtx, writeMtx, readSnap, writeSnap, readMetis, writeMetis} from "../src/sparse";
+import {Graph, DiGraph} from "../src/index";
+
+
+
+
+// Create an undirected weighted triangle, with a pendant vertex.
+function triangle(): Graph<number, number> {
+  var x = new Graph<number, number>(0, 1);
+  for (var u=0; u<4; ++u)
+    x.addVertex(u, 0);
+  x.addEdge(0, 1, 2);
+  x.addEdge(1, 2, 3);
+  x.addEdge(2, 0, 4);
+  x.addEdge(2, 3, 5);
+  x.update();
+  return x;
+}
+
+
+
+
+describe("readMtx", () => {
+  test("reads general and symmetric matrices", async () => {
+    var x = await readMtx("%%MatrixMarket matrix coordinate real general\n3 3 2\n1 2 0.5\n3 1 2\n");
+    expect(x.isDirected()).toBe(true);
+    expect(x.order()).toBe(3);
+    expect(x.edges(0)).toEqual([[1, 0.5]]);
+    expect(x.edges(2)).toEqual([[0, 2]]);
+    var y = await readMtx("%%MatrixMarket matrix coordinate pattern symmetric\n3 3 1\n2 1\n");
+    expect(y.isDirected()).toBe(false);
+    expect(y.edges(0)).toEqual([[1, 1]]);
+  });
+
+  test("round-trips a written graph", async () => {
+    var x = triangle(), y = await readMtx(writeMtx(x));
+    expect(y.order()).toBe(x.order());
+    expect(y.size()).toBe(x.size());
+    for (var u=0; u<4; ++u)
+      expect(y.edges(u)).toEqual(x.edges(u));
+  });
+
+  test("rejects out-of-range indices", async () => {
+    var h = "%%MatrixMarket matrix coordinate pattern general\n3 3 1\n";
+    await expect(readMtx(h + "0 2\n")).rejects.toThrow("Invalid row on line 3: 0");
+    await expect(readMtx(h + "4 2\n")).rejects.toThrow("Invalid row on line 3: 4");
+    await expect(readMtx(h + "1 4\n")).rejects.toThrow("Invalid column on line 3: 4");
+    await expect(readMtx(h + "1 -1\n")).rejects.toThrow("Invalid column on line 3: -1");
+  });
+
+  test("rejects bad weights", async () => {
+    var h = "%%MatrixMarket matrix coordinate real general\n3 3 1\n";
+    await expect(readMtx(h + "1 2 abc\n")).rejects.toThrow("Invalid weight on line 3: abc");
+    await expect(readMtx(h + "1 2\n")).rejects.toThrow("Invalid weight on line 3");
+  });
+
+  test("rejects bad headers", async () => {
+    await expect(readMtx("%%MatrixMarket matrix array real general\n")).rejects.toThrow("Unsupported");
+    await expect(readMtx("3 3 1\n")).rejects.toThrow("Invalid Matrix Market header");
+  });
+});
+
+
+
+
+describe("readSnap", () => {
+  test("reads directed and undirected edge lists", async () => {
+    var x = await readSnap("# Directed graph\n0 1\n1 2\n");
+    expect(x.isDirected()).toBe(true);
+    expect(x.size()).toBe(2);
+    var y = await readSnap("# Undirected graph\n0\t1\t2.5\n");
+    expect(y.isDirected()).toBe(false);
+    expect(y.edgeValue(1, 0)).toBe(2.5);
+  });
+
+  test("round-trips a written graph", async () => {
+    var x = triangle(), y = await readSnap(writeSnap(x, {weights: true}));
+    expect(y.isDirected()).toBe(false);
+    expect(y.size()).toBe(x.size());
+    for (var u=0; u<4; ++u)
+      expect(y.edges(u)).toEqual(x.edges(u));
+  });
+
+  test("rejects negative vertex ids", async () => {
+    await expect(readSnap("-1 2\n0 1\n")).rejects.toThrow("Invalid vertex on line 1: -1");
+    await expect(readSnap("0 1\n1 -2\n")).rejects.toThrow("Invalid vertex on line 2: -2");
+    await expect(readSnap("0 1.5\n")).rejects.toThrow("Invalid vertex on line 1: 1.5");
+  });
+
+  test("rejects bad weights", async () => {
+    await expect(readSnap("0 1 abc\n")).rejects.toThrow("Invalid weight on line 1: abc");
+    await expect(readSnap("0 1 Infinity\n")).rejects.toThrow("Invalid weight on line 1: Infinity");
+  });
+});
+
+
+
+
+describe("readMetis", () => {
+  test("reads vertex and edge weights", async () => {
+    var x = await readMetis("% comment\n3 2 011\n5 2 7\n6 1 7 3 9\n8 2 9\n");
+    expect(x.order()).toBe(3);
+    expect(x.size()).toBe(2);
+    expect(x.vertexValues()).toEqual([5, 6, 8]);
+    expect(x.edgeValue(0, 1)).toBe(7);
+    expect(x.edgeValue(2, 1)).toBe(9);
+  });
+
+  test("round-trips a written graph", async () => {
+    var x = triangle(), y = await readMetis(writeMetis(x));
+    expect(y.size()).toBe(x.size());
+    for (var u=0; u<4; ++u)
+      expect(y.edges(u)).toEqual(x.edges(u));
+  });
+
+  test("rejects out-of-range vertices", async () => {
+    await expect(readMetis("3 1\n0\n\n\n")).rejects.toThrow("Invalid vertex on line 2: 0");
+    await expect(readMetis("3 1\n\n4\n\n")).rejects.toThrow("Invalid vertex on line 3: 4");
+  });
+
+  test("rejects bad weights", async () => {
+    await expect(readMetis("2 1 001\n2 abc\n1 abc\n")).rejects.toThrow("Invalid weight on line 2: abc");
+    await expect(readMetis("2 1 001\n2\n1 1\n")).rejects.toThrow("Invalid weight on line 2");
+    await expect(readMetis("2 1 010\nx 2\n1 1\n")).rejects.toThrow("Invalid vertex weight on line 2: x");
+  });
+
+  test("needs an undirected graph to write", () => {
+    expect(() => writeMetis(new DiGraph<number, number>(0, 1))).toThrow("METIS format needs an undirected graph");
+  });
+});
@@ -0,0 +1,168 @@
+import {describe, test, expect} from "vitest";
+import {writeGraph, readEdgeList, writeEdgeList, readAdjacencyList, writeAdjacencyList, toJson, fromJson, writeJson, readJson} from "../src/text";
+import {ReadonlyGraph, DiGraph, Graph} from "../src/index";
+
+
+
+
+// Create a weighted directed graph, with a self-loop and an isolated vertex.
+function directed(): DiGraph<number, number> {
+  var x = new DiGraph<number, number>(0, 1);
+  for (var u=0; u<5; ++u)
+    x.addVertex(u, 0);
+  x.addEdge(0, 1, 2);
+  x.addEdge(1, 2, 3);
+  x.addEdge(2, 0, 4);
+  x.addEdge(2, 2, 5);
+  x.addEdge(3, 1, 6);
+  x.update();
+  return x;
+}
+
+
+// Create a weighted undirected graph, with a self-loop and an isolated vertex.
+function undirected(): Graph<number, number> {
+  var x = new Graph<number, number>(0, 1);
+  for (var u=0; u<5; ++u)
+    x.addVertex(u, 0);
+  x.addEdge(0, 1, 2);
+  x.addEdge(1, 2, 3);
+  x.addEdge(2, 0, 4);
+  x.addEdge(2, 2, 5);
+  x.addEdge(3, 1, 6);
+  x.update();
+  return x;
+}
+
+
+// Check that two graphs have the same vertices, edges, and values.
+function expectSame<V, E>(y: ReadonlyGraph<V, E>, x: ReadonlyGraph<V, E>): void {
+  expect(y.isDirected()).toBe(x.isDirected());
+  expect(y.order()).toBe(x.order());
+  expect(y.size()).toBe(x.size());
+  expect(y.vertices()).toEqual(x.vertices());
+  x.forEachVertex(u => expect(y.edges(u)).toEqual(x.edges(u)));
+}
+
+
+
+
+describe("writeGraph", () => {
+  test("writes a summary", () => {
+    expect(writeGraph(directed())).toBe("order: 5 size: 5 [directed] {}");
+    expect(writeGraph(undirected())).toBe("order: 5 size: 5 [undirected] {}");
+  });
+
+  test("writes each vertex with its edges, if detailed", () => {
+    var x = new DiGraph<string, number>("", 1);
+    x.addVertex(0, "a");
+    x.addVertex(1, "b");
+    x.addEdge(0, 1, 2);
+    x.update();
+    expect(writeGraph(x, true)).toBe("order: 2 size: 1 [directed] {\n0:a -> 1:2\n1:b ->\n}");
+    expect(writeGraph(x, true, v => "v" + v)).toBe("order: 2 size: 1 [directed] {\nv0:a -> v1:2\nv1:b ->\n}");
+  });
+});
+
+
+
+
+describe("edge list", () => {
+  test("round-trips directed and undirected graphs", () => {
+    var x = directed(), y = undirected();
+    expectSame(readEdgeList(new DiGraph<number, number>(0, 1), writeEdgeList(x)), x);
+    expectSame(readEdgeList(new Graph<number, number>(0, 1), writeEdgeList(y)), y);
+  });
+
+  test("writes undirected edges once, and isolated vertices alone", () => {
+    var text = writeEdgeList(undirected());
+    expect(text.split("\n").filter(l => l.length>0).sort()).toEqual(["0 1 2", "0 2 4", "1 2 3", "1 3 6", "2 2 5", "4"]);
+  });
+
+  test("uses default weights, if not written", () => {
+    var text = writeEdgeList(directed(), {weights: false});
+    expect(text).toBe("4\n0 1\n1 2\n2 0\n2 2\n3 1\n");
+    var x = readEdgeList(new DiGraph<number, number>(0, 7), text);
+    expect(x.size()).toBe(5);
+    expect(x.edgeValue(0, 1)).toBe(7);
+    expect(x.edgeValue(3, 1)).toBe(7);
+  });
+
+  test("skips blank and comment lines", () => {
+    var x = readEdgeList(new DiGraph<number, number>(0, 1), "# header\n\n% note\n0 1 2\n  \n1 2\n");
+    expect(x.order()).toBe(3);
+    expect(x.edges(0)).toEqual([[1, 2]]);
+    expect(x.edges(1)).toEqual([[2, 1]]);
+    var y = readEdgeList(new DiGraph<number, number>(0, 1), "; header\n0 1\n", {comments: ";"});
+    expect(y.size()).toBe(1);
+  });
+
+  test("rejects invalid vertices", () => {
+    var fx = () => new DiGraph<number, number>(0, 1);
+    expect(() => readEdgeList(fx(), "0 a\n")).toThrow("Invalid vertex: a");
+    expect(() => readEdgeList(fx(), "-1 0\n")).toThrow("Invalid vertex: -1");
+    expect(() => readEdgeList(fx(), "1.5\n")).toThrow("Invalid vertex: 1.5");
+  });
+});
+
+
+
+
+describe("adjacency list", () => {
+  test("round-trips directed and undirected graphs", () => {
+    var x = directed(), y = undirected();
+    expectSame(readAdjacencyList(new DiGraph<number, number>(0, 1), writeAdjacencyList(x)), x);
+    expectSame(readAdjacencyList(new Graph<number, number>(0, 1), writeAdjacencyList(y)), y);
+  });
+
+  test("writes one line per vertex", () => {
+    expect(writeAdjacencyList(directed())).toBe("0 1:2\n1 2:3\n2 0:4 2:5\n3 1:6\n4\n");
+    expect(writeAdjacencyList(directed(), {weights: false})).toBe("0 1\n1 2\n2 0 2\n3 1\n4\n");
+  });
+
+  test("uses default weights, if not written", () => {
+    var x = readAdjacencyList(new DiGraph<number, number>(0, 7), "0 1 2:3\n");
+    expect(x.edges(0)).toEqual([[1, 7], [2, 3]]);
+  });
+
+  test("rejects invalid vertices", () => {
+    var fx = () => new DiGraph<number, number>(0, 1);
+    expect(() => readAdjacencyList(fx(), "x 1\n")).toThrow("Invalid vertex: x");
+    expect(() => readAdjacencyList(fx(), "0 1:2 y:3\n")).toThrow("Invalid vertex: y");
+  });
+});
+
+
+
+
+describe("JSON", () => {
+  test("round-trips directed and undirected graphs", () => {
+    var x = directed(), y = undirected();
+    expectSame(readJson<number, number>(writeJson(x)), x);
+    expectSame(readJson<number, number>(writeJson(y)), y);
+  });
+
+  test("keeps vertex data, edge weights, and defaults", () => {
+    var x = new Graph<{name: string}, {w: number}>({name: ""}, {w: 1});
+    x.addVertex(0, {name: "a \"quoted\"\nname"});
+    x.addVertex(1, {name: "b"});
+    x.addEdge(0, 1, {w: 2});
+    x.update();
+    var y = readJson<{name: string}, {w: number}>(writeJson(x));
+    expectSame(y, x);
+    expect(y.vertexValue(0)).toEqual({name: "a \"quoted\"\nname"});
+    expect(y.vertexValue(-1)).toEqual({name: ""});
+    expect(y.edgeValue(-1, -1)).toEqual({w: 1});
+  });
+
+  test("lists undirected edges once", () => {
+    var a = toJson(undirected());
+    expect(a.directed).toBe(false);
+    expect(a.edges.length).toBe(5);
+    expectSame(fromJson(a), undirected());
+  });
+
+  test("rejects malformed JSON", () => {
+    expect(() => readJson("{\"directed\": true,")).toThrow();
+  });
+});
@@ -0,0 +1,210 @@
+import {describe, test, expect} from "vitest";
+import {subgraph, edgeSubgraph, transpose, toUndirected, retype, union, intersection, difference, composition} from "../src/transform";
+import {forEachEdgeOnce} from "../src/_edges";
+import {ReadonlyGraph, OutDiGraph, DiGraph, Graph} from "../src/index";
+
+
+
+
+// Create a directed graph, with lettered vertices and weighted edges [u, v, w].
+function digraph(vs: [number, string][], es: [number, number, number][]): DiGraph<string, number> {
+  var x = new DiGraph<string, number>("", 0);
+  for (var [v, d] of vs)
+    x.addVertex(v, d);
+  for (var [u, v, w] of es)
+    x.addEdge(u, v, w);
+  x.update();
+  return x;
+}
+
+
+// Create an undirected graph, with lettered vertices and weighted edges [u, v, w].
+function graph(vs: [number, string][], es: [number, number, number][]): Graph<string, number> {
+  var x = new Graph<string, number>("", 0);
+  for (var [v, d] of vs)
+    x.addVertex(v, d);
+  for (var [u, v, w] of es)
+    x.addEdge(u, v, w);
+  x.update();
+  return x;
+}
+
+
+// List the edges of a graph, once per undirected edge, as sorted [u, v, w].
+function edgeTriples<V, E>(x: ReadonlyGraph<V, E>): [number, number, E][] {
+  var a: [number, number, E][] = [];
+  forEachEdgeOnce(x, (u, v, w) => a.push([u, v, w]));
+  return a.sort((p, q) => p[0]-q[0] || p[1]-q[1]);
+}
+
+
+// A small fixture, with a self-loop.
+const VERTICES: [number, string][] = [[0, "a"], [1, "b"], [2, "c"], [3, "d"]];
+const EDGES: [number, number, number][] = [[0, 1, 1], [1, 2, 2], [2, 0, 3], [2, 3, 4], [3, 3, 5]];
+
+
+
+
+describe("forEachEdgeOnce", () => {
+  test("lists every edge of a directed graph", () => {
+    expect(edgeTriples(digraph(VERTICES, EDGES))).toEqual([[0, 1, 1], [1, 2, 2], [2, 0, 3], [2, 3, 4], [3, 3, 5]]);
+  });
+
+  test("lists each undirected edge once, with u ≤ v", () => {
+    var x = graph(VERTICES, EDGES), n = 0;
+    forEachEdgeOnce(x, () => ++n);
+    expect(n).toBe(x.size());
+    expect(edgeTriples(x)).toEqual([[0, 1, 1], [0, 2, 3], [1, 2, 2], [2, 3, 4], [3, 3, 5]]);
+  });
+});
+
+
+
+
+describe("subgraph", () => {
+  test("keeps edges with both ends in the vertex set", () => {
+    var x = subgraph(digraph(VERTICES, EDGES), [0, 2, 3, 99]);
+    expect(x.isDirected()).toBe(true);
+    expect(x.vertices()).toEqual([[0, "a"], [2, "c"], [3, "d"]]);
+    expect(edgeTriples(x)).toEqual([[2, 0, 3], [2, 3, 4], [3, 3, 5]]);
+    var y = subgraph(graph(VERTICES, EDGES), (v, d) => d!=="b");
+    expect(y.isDirected()).toBe(false);
+    expect(y.size()).toBe(3);
+    expect(edgeTriples(y)).toEqual([[0, 2, 3], [2, 3, 4], [3, 3, 5]]);
+  });
+
+  test("edgeSubgraph keeps all vertices, and edges passing the test", () => {
+    var x = edgeSubgraph(digraph(VERTICES, EDGES), (u, v, w) => w%2===1);
+    expect(x.order()).toBe(4);
+    expect(edgeTriples(x)).toEqual([[0, 1, 1], [2, 0, 3], [3, 3, 5]]);
+    var y = edgeSubgraph(graph(VERTICES, EDGES), (u, v) => u!==v);
+    expect(y.order()).toBe(4);
+    expect(y.size()).toBe(4);
+    expect(y.hasEdge(2, 1)).toBe(true);
+  });
+});
+
+
+
+
+describe("transpose", () => {
+  test("reverses each directed edge, keeping weights", () => {
+    var x = transpose(digraph(VERTICES, EDGES));
+    expect(x.vertices()).toEqual(VERTICES);
+    expect(edgeTriples(x)).toEqual([[0, 2, 3], [1, 0, 1], [2, 1, 2], [3, 2, 4], [3, 3, 5]]);
+    expect(x.inDegree(0)).toBe(1);
+  });
+
+  test("copies an undirected graph", () => {
+    var x = graph(VERTICES, EDGES);
+    expect(edgeTriples(transpose(x))).toEqual(edgeTriples(x));
+  });
+});
+
+
+
+
+describe("toUndirected", () => {
+  test("joins edges in either direction, merging weights of both", () => {
+    var x = digraph(VERTICES, [[0, 1, 1], [1, 0, 2], [1, 2, 3], [2, 2, 4]]);
+    var y = toUndirected(x, (a, b) => a + b);
+    expect(y.isDirected()).toBe(false);
+    expect(y.vertices()).toEqual(VERTICES);
+    expect(edgeTriples(y)).toEqual([[0, 1, 3], [1, 2, 3], [2, 2, 4]]);
+    expect(y.size()).toBe(3);
+    expect(toUndirected(x).edgeValue(1, 0)).toBe(1);
+  });
+});
+
+
+
+
+describe("retype", () => {
+  test("maps data and weights, keeping the kind of graph", () => {
+    var fv = (d: string, v: number) => d + v, fe = (w: number, u: number, v: number) => [u, v, w];
+    var x = retype(digraph(VERTICES, EDGES), fv, fe);
+    expect(x).toBeInstanceOf(DiGraph);
+    expect(x.vertices()).toEqual([[0, "a0"], [1, "b1"], [2, "c2"], [3, "d3"]]);
+    expect(x.edgeValue(2, 3)).toEqual([2, 3, 4]);
+    expect(x.vertexValue(-1)).toBe("-1");
+    expect(x.edgeValue(-1, -1)).toEqual([-1, -1, 0]);
+    var y = retype(graph(VERTICES, EDGES), fv, fe);
+    expect(y).toBeInstanceOf(Graph);
+    expect(y.size()).toBe(5);
+    expect(y.edgeValue(2, 0)).toEqual([0, 2, 3]);
+  });
+
+  test("keeps an out-only graph out-only", () => {
+    var x = new OutDiGraph<string, number>("", 0);
+    x.addEdge(0, 1, 2);
+    x.update();
+    var y = retype(x, d => d.length, w => String(w));
+    expect(y).toBeInstanceOf(OutDiGraph);
+    expect(y).not.toBeInstanceOf(DiGraph);
+    expect(y.edges(0)).toEqual([[1, "2"]]);
+  });
+});
+
+
+
+
+describe("set operations", () => {
+  // Overlapping directed and undirected graphs, with some edges given in reverse.
+  var xv: [number, string][] = [[0, "a"], [1, "b"], [2, "c"]];
+  var yv: [number, string][] = [[1, "B"], [2, "C"], [3, "D"]];
+  var xe: [number, number, number][] = [[0, 1, 1], [1, 2, 2]];
+  var ye: [number, number, number][] = [[2, 1, 10], [2, 3, 20], [1, 2, 30]];
+  var fv = (a: string, b: string) => a + b, fe = (a: number, b: number) => a + b;
+
+  test("union merges common vertices and edges", () => {
+    var z = union(digraph(xv, xe), digraph(yv, ye), fv, fe);
+    expect(z.vertices()).toEqual([[0, "a"], [1, "bB"], [2, "cC"], [3, "D"]]);
+    expect(edgeTriples(z)).toEqual([[0, 1, 1], [1, 2, 32], [2, 1, 10], [2, 3, 20]]);
+    var w = union(graph(xv, xe), graph(yv, ye), fv, fe);
+    expect(edgeTriples(w)).toEqual([[0, 1, 1], [1, 2, 32], [2, 3, 20]]);
+    expect(union(graph(xv, xe), graph(yv, ye)).edgeValue(1, 2)).toBe(2);
+  });
+
+  test("intersection keeps common vertices and edges", () => {
+    var z = intersection(digraph(xv, xe), digraph(yv, ye), fv, fe);
+    expect(z.vertices()).toEqual([[1, "bB"], [2, "cC"]]);
+    expect(edgeTriples(z)).toEqual([[1, 2, 32]]);
+    var w = intersection(graph(xv, xe), graph(yv, ye), fv, fe);
+    expect(edgeTriples(w)).toEqual([[1, 2, 32]]);
+  });
+
+  test("difference removes edges of the second graph", () => {
+    var z = difference(digraph(xv, [[0, 1, 1], [1, 2, 2], [2, 1, 3]]), digraph(yv, [[2, 1, 10]]));
+    expect(z.vertices()).toEqual(xv);
+    expect(edgeTriples(z)).toEqual([[0, 1, 1], [1, 2, 2]]);
+    var w = difference(graph(xv, xe), graph(yv, [[2, 1, 10]]));
+    expect(edgeTriples(w)).toEqual([[0, 1, 1]]);
+  });
+
+  test("composition follows an edge of each graph in turn", () => {
+    var x = digraph(xv, [[0, 1, 2], [1, 2, 3]]);
+    var y = digraph(yv, [[1, 3, 5], [2, 3, 7], [2, 1, 1]]);
+    var z = composition(x, y, fv, (a, b) => a * b);
+    expect(z.vertices()).toEqual([[0, "a"], [1, "bB"], [2, "cC"], [3, "D"]]);
+    expect(edgeTriples(z)).toEqual([[0, 3, 10], [1, 1, 3], [1, 3, 21]]);
+    // Weight is taken from the first middle vertex.
+    var p = digraph([], [[0, 1, 1], [0, 2, 2]]), q = digraph([], [[1, 3, 10], [2, 3, 20]]);
+    expect(composition(p, q, fv, fe).edgeValue(0, 3)).toBe(11);
+  });
+
+  test("composition adds each undirected edge once", () => {
+    var x = graph([], [[0, 1, 1], [1, 2, 2]]);
+    var z = composition(x, x, fv, fe);
+    expect(z.isDirected()).toBe(false);
+    expect(edgeTriples(z)).toEqual([[0, 0, 2], [0, 2, 3], [1, 1, 2], [2, 2, 4]]);
+    expect(z.size()).toBe(4);
+  });
+
+  test("reject graphs of different kinds", () => {
+    var x = digraph(xv, xe), y = graph(yv, ye);
+    expect(() => union(x, y)).toThrow("Graphs must both be directed or undirected");
+    expect(() => intersection(x, y)).toThrow("Graphs must both be directed or undirected");
+    expect(() => difference(y, x)).toThrow("Graphs must both be directed or undirected");
+    expect(() => composition(x, y)).toThrow("Graphs must both be directed or undirected");
+  });
+});
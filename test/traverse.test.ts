@@ -0,0 +1,140 @@
+import {describe, test, expect} from "vitest";
+import {TraverseVisitor, neighbours, bfs, ibfs, dfs, idfs} from "../src/traverse";
+import {ReadonlyGraph, DiGraph, Graph} from "../src/index";
+
+
+
+
+// Create a directed graph with a cycle through 0, and a separate edge 5 → 4.
+function digraph(): DiGraph<number, number> {
+  var x = new DiGraph<number, number>(0, 1);
+  for (var [u, v] of [[0, 1], [0, 2], [1, 3], [2, 3], [3, 0], [5, 4]])
+    x.addEdge(u, v, 1);
+  x.update();
+  return x;
+}
+
+
+// Create an undirected triangle 0-1-2, with a pendant vertex 3.
+function triangle(): Graph<number, number> {
+  var x = new Graph<number, number>(0, 1);
+  for (var [u, v] of [[0, 1], [1, 2], [2, 0], [2, 3]])
+    x.addEdge(u, v, 1);
+  x.update();
+  return x;
+}
+
+
+// Record the events of a traversal, in order.
+function record<V, E>(ft: (x: ReadonlyGraph<V, E>, us: number | number[], fn: TraverseVisitor) => void, x: ReadonlyGraph<V, E>, us: number | number[]): string[] {
+  var a: string[] = [];
+  ft(x, us, {
+    discover: (v, d) => a.push("discover " + v + " " + d),
+    finish:   (v, d) => a.push("finish " + v + " " + d),
+    treeEdge: (u, v) => a.push("tree " + u + " " + v),
+    backEdge: (u, v) => a.push("back " + u + " " + v),
+  });
+  return a;
+}
+
+
+// Get the vertices discovered by a traversal, in order.
+function discovered<V, E>(ft: typeof bfs, x: ReadonlyGraph<V, E>, us: number | number[], opt={}): number[] {
+  var a: number[] = [];
+  ft(x, us, {discover: v => a.push(v)}, opt);
+  return a;
+}
+
+
+
+
+describe("neighbours", () => {
+  test("follows edges in the given direction", () => {
+    var x = digraph();
+    expect(neighbours(x, 3)).toEqual([0]);
+    expect(neighbours(x, 3, "in")).toEqual([1, 2]);
+    expect(neighbours(x, 3, "both")).toEqual([0, 1, 2]);
+    expect(neighbours(triangle(), 2, "in")).toEqual([0, 1, 3]);
+  });
+});
+
+
+
+
+describe("bfs", () => {
+  test("visits vertices level by level, with their depths", () => {
+    expect(record(bfs, digraph(), 0)).toEqual([
+      "discover 0 0",
+      "tree 0 1", "discover 1 1",
+      "tree 0 2", "discover 2 1",
+      "finish 0 0",
+      "tree 1 3", "discover 3 2",
+      "finish 1 1",
+      "back 2 3",
+      "finish 2 1",
+      "back 3 0",
+      "finish 3 2",
+    ]);
+  });
+
+  test("starts from many sources, skipping missing and repeated ones", () => {
+    expect(discovered(bfs, digraph(), [5, 99, 0, 5])).toEqual([5, 0, 4, 1, 2, 3]);
+  });
+
+  test("stops at the given depth, and follows the given direction", () => {
+    expect(discovered(bfs, digraph(), 0, {depth: 1})).toEqual([0, 1, 2]);
+    expect(discovered(bfs, digraph(), 0, {depth: 0})).toEqual([0]);
+    expect(discovered(bfs, digraph(), 3, {direction: "in"})).toEqual([3, 1, 2, 0]);
+    expect(discovered(bfs, digraph(), 4, {direction: "both"})).toEqual([4, 5]);
+  });
+
+  test("ibfs lists vertices in the same order", () => {
+    var x = digraph();
+    expect([...ibfs(x, 0)]).toEqual(discovered(bfs, x, 0));
+    expect([...ibfs(x, [3, 5], {depth: 1})]).toEqual(discovered(bfs, x, [3, 5], {depth: 1}));
+    expect([...ibfs(triangle(), 3)]).toEqual([3, 2, 0, 1]);
+  });
+});
+
+
+
+
+describe("dfs", () => {
+  test("visits vertices depth first, reporting edges to ancestors", () => {
+    expect(record(dfs, digraph(), 0)).toEqual([
+      "discover 0 0",
+      "tree 0 1", "discover 1 1",
+      "tree 1 3", "discover 3 2",
+      "back 3 0",
+      "finish 3 2",
+      "finish 1 1",
+      "tree 0 2", "discover 2 1",
+      "finish 2 1",
+      "finish 0 0",
+    ]);
+  });
+
+  test("does not report the tree edge back to the parent, if undirected", () => {
+    var a: [number, number][] = [];
+    dfs(triangle(), 0, {backEdge: (u, v) => a.push([u, v])});
+    expect(a).toEqual([[2, 0]]);
+  });
+
+  test("finishes every vertex once, after its descendants", () => {
+    var x = digraph(), order: number[] = [];
+    dfs(x, [0, 5], {finish: v => order.push(v)});
+    expect(order).toEqual([3, 1, 2, 0, 4, 5]);
+  });
+
+  test("stops at the given depth, and follows the given direction", () => {
+    expect(discovered(dfs, digraph(), 0, {depth: 1})).toEqual([0, 1, 2]);
+    expect(discovered(dfs, digraph(), 0, {direction: "in"})).toEqual([0, 3, 1, 2]);
+  });
+
+  test("idfs lists vertices in the same order", () => {
+    var x = digraph();
+    expect([...idfs(x, 0)]).toEqual(discovered(dfs, x, 0));
+    expect([...idfs(x, [5, 0], {depth: 1})]).toEqual(discovered(dfs, x, [5, 0], {depth: 1}));
+    expect([...idfs(triangle(), 3)]).toEqual([3, 2, 0, 1]);
+  });
+});
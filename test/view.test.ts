@@ -0,0 +1,186 @@
+import {describe, test, expect} from "vitest";
+import {ReadonlyGraph, Graph, DiGraph} from "../src/index";
+import {VertexFilterView, EdgeFilterView, ReversedView, MappedView} from "../src/view";
+
+
+
+
+// Create an undirected path 0 - 1 - 2, with weights 5 and 7.
+function path(): Graph<string, number> {
+  var x = new Graph<string, number>("", 1);
+  x.addVertex(0, "a");
+  x.addVertex(1, "b");
+  x.addVertex(2, "c");
+  x.addEdge(0, 1, 5);
+  x.addEdge(1, 2, 7);
+  x.update();
+  return x;
+}
+
+
+// Create a directed graph with a cycle 0 → 1 → 2 → 0, a chord 0 → 2, a self-loop on 3, and 3 → 1.
+function cyclic(): DiGraph<string, number> {
+  var x = new DiGraph<string, number>("", 1);
+  for (var u=0; u<4; ++u)
+    x.addVertex(u, "v" + u);
+  x.addEdge(0, 1, 1);
+  x.addEdge(1, 2, 2);
+  x.addEdge(2, 0, 3);
+  x.addEdge(0, 2, 4);
+  x.addEdge(3, 3, 5);
+  x.addEdge(3, 1, 6);
+  x.update();
+  return x;
+}
+
+
+// Create an undirected graph with a triangle 0 - 1 - 2, a pendant edge 2 - 3, and a self-loop on 3.
+function triangle(): Graph<string, number> {
+  var x = new Graph<string, number>("", 1);
+  for (var u=0; u<4; ++u)
+    x.addVertex(u, "v" + u);
+  x.addEdge(0, 1, 1);
+  x.addEdge(1, 2, 2);
+  x.addEdge(2, 0, 3);
+  x.addEdge(2, 3, 4);
+  x.addEdge(3, 3, 5);
+  x.update();
+  return x;
+}
+
+
+// Copy the vertices and edges of a graph that pass the tests.
+function copy<V, E>(x: ReadonlyGraph<V, E>, fv: (v: number) => boolean, fe: (u: number, v: number) => boolean, reversed: boolean=false): DiGraph<V, E> | Graph<V, E> {
+  var y = x.isDirected()? new DiGraph<V, E>(x.vertexValue(-1), x.edgeValue(-1, -1)) : new Graph<V, E>(x.vertexValue(-1), x.edgeValue(-1, -1));
+  x.forEachVertex((u, d) => { if (fv(u)) y.addVertex(u, d); });
+  x.forEachVertex(u => x.forEachEdge(u, (v, w) => {
+    if (!fv(u) || !fv(v) || !fe(u, v)) return;
+    if (reversed) y.addEdge(v, u, w);
+    else y.addEdge(u, v, w);
+  }));
+  y.update();
+  return y;
+}
+
+
+// Check that a view matches a graph, in all of its accessors.
+function expectSame<V, E>(y: ReadonlyGraph<V, E>, z: ReadonlyGraph<V, E>): void {
+  expect(y.isDirected()).toBe(z.isDirected());
+  expect(y.order()).toBe(z.order());
+  expect(y.size()).toBe(z.size());
+  expect(y.vertices()).toEqual(z.vertices());
+  expect(y.degrees()).toEqual(z.degrees());
+  expect(y.inDegrees()).toEqual(z.inDegrees());
+  for (var u=-1; u<=z.span(); ++u) {
+    expect(y.hasVertex(u)).toBe(z.hasVertex(u));
+    expect(y.edges(u)).toEqual(z.edges(u));
+    expect(y.inEdges(u)).toEqual(z.inEdges(u));
+    for (var v=0; v<z.span(); ++v)
+      expect(y.hasEdge(u, v)).toBe(z.hasEdge(u, v));
+  }
+}
+
+
+
+
+describe("MappedView", () => {
+  test("matches a copy with mapped values", () => {
+    var x = cyclic(), y = new MappedView(x, (d, v) => d + "!", (w, u, v) => w * 10);
+    var z = new DiGraph<string, number>("!", 10);
+    x.forEachVertex((u, d) => z.addVertex(u, d + "!"));
+    x.forEachVertex(u => x.forEachEdge(u, (v, w) => z.addEdge(u, v, w * 10)));
+    z.update();
+    expectSame(y, z);
+    expect(y.vertexValue(-1)).toBe("!");
+    expect(y.edgeValue(-1, -1)).toBe(10);
+  });
+
+  test("maps each undirected edge the same from both ends", () => {
+    var calls: [number, number][] = [];
+    var y = new MappedView(path(), d => d.toUpperCase(), (w, u, v) => { calls.push([u, v]); return u<v? w : -w; });
+    expect(y.edgeValue(0, 1)).toBe(5);
+    expect(y.edgeValue(1, 0)).toBe(5);
+    expect(y.edges(1)).toEqual([[0, 5], [2, 7]]);
+    expect(y.inEdges(1)).toEqual([[0, 5], [2, 7]]);
+    var ws: number[] = [];
+    y.forEachEdge(2, (v, w) => ws.push(w));
+    y.forEachInEdge(2, (u, w) => ws.push(w));
+    expect(ws).toEqual([7, 7]);
+    expect(calls.every(([u, v]) => u<=v)).toBe(true);
+    expect(y.vertexValues()).toEqual(["A", "B", "C"]);
+  });
+
+  test("keeps the direction of directed edges", () => {
+    var x = new DiGraph<number, number>(0, 1);
+    x.addEdge(1, 0, 5);
+    x.update();
+    var y = new MappedView(x, d => d, (w, u, v) => u<v? w : -w);
+    expect(y.edgeValue(1, 0)).toBe(-5);
+    expect(y.edges(1)).toEqual([[0, -5]]);
+    expect(y.inEdges(0)).toEqual([[1, -5]]);
+  });
+});
+
+
+
+
+describe("VertexFilterView", () => {
+  test("matches a copy of kept vertices, on directed and undirected graphs", () => {
+    var fv = (v: number) => v!==1;
+    for (var x of [cyclic(), triangle()] as ReadonlyGraph<string, number>[])
+      expectSame(new VertexFilterView(x, fv), copy(x, fv, () => true));
+  });
+
+  test("reads default values for removed vertices", () => {
+    var y = new VertexFilterView(cyclic(), v => v!==1);
+    expect(y.vertexValue(1)).toBe("");
+    expect(y.edgeValue(0, 1)).toBe(1);
+    expect(y.edgeValue(0, 2)).toBe(4);
+  });
+});
+
+
+
+
+describe("EdgeFilterView", () => {
+  test("matches a copy of kept edges, on a directed graph", () => {
+    var x = cyclic();
+    expectSame(new EdgeFilterView(x, (u, v, w) => w%2===0), copy(x, () => true, (u, v) => x.edgeValue(u, v)%2===0));
+  });
+
+  test("tests each undirected edge once, with an asymmetric predicate", () => {
+    var x = triangle(), fe = (u: number, v: number) => u===0 || v===3;
+    var y = new EdgeFilterView(x, (u, v) => fe(u, v));
+    expectSame(y, copy(x, () => true, (u, v) => fe(Math.min(u, v), Math.max(u, v))));
+    expect(y.hasEdge(1, 0)).toBe(true);
+    expect(y.hasEdge(3, 2)).toBe(true);
+    expect(y.hasEdge(2, 1)).toBe(false);
+    expect(y.size()).toBe(4);
+  });
+
+  test("calls the predicate with ordered ends, if undirected", () => {
+    var calls: [number, number][] = [];
+    var y = new EdgeFilterView(triangle(), (u, v) => { calls.push([u, v]); return true; });
+    y.forEachVertex(u => { y.edges(u); y.inEdges(u); y.hasEdge(u, 0); });
+    expect(calls.length).toBeGreaterThan(0);
+    expect(calls.every(([u, v]) => u<=v)).toBe(true);
+  });
+});
+
+
+
+
+describe("ReversedView", () => {
+  test("matches a transposed copy", () => {
+    var x = cyclic(), y = new ReversedView(x);
+    expectSame(y, copy(x, () => true, () => true, true));
+    expect(y.edgeValue(1, 0)).toBe(1);
+    expect(y.edgeValue(0, 2)).toBe(3);
+    expect(y.edgeValue(2, 0)).toBe(4);
+  });
+
+  test("is the same graph, if undirected", () => {
+    var x = triangle();
+    expectSame(new ReversedView(x), x);
+  });
+});
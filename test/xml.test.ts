@@ -0,0 +1,177 @@
+import {describe, test, expect} from "vitest";
+import {Attributes, writeGraphml, readGraphml, writeGexf, readGexf} from "../src/xml";
+import {ReadonlyGraph, DiGraph, Graph} from "../src/index";
+
+
+
+
+// Create a weighted directed graph, with named vertices (needing escapes) and an isolated vertex.
+function directed(): DiGraph<string, number> {
+  var x = new DiGraph<string, number>("", 1);
+  var names = ["a", "b & c", "<d>", "\"e\" 'f'"];
+  for (var u=0; u<names.length; ++u)
+    x.addVertex(u, names[u]);
+  x.addEdge(0, 1, 2);
+  x.addEdge(1, 2, 3.5);
+  x.addEdge(2, 0, 4);
+  x.addEdge(2, 2, 5);
+  x.update();
+  return x;
+}
+
+
+// Create a weighted undirected graph, with named vertices and a self-loop.
+function undirected(): Graph<string, number> {
+  var x = new Graph<string, number>("", 1);
+  var names = ["a", "b & c", "<d>", "e"];
+  for (var u=0; u<names.length; ++u)
+    x.addVertex(u, names[u]);
+  x.addEdge(0, 1, 2);
+  x.addEdge(1, 2, 3.5);
+  x.addEdge(2, 0, 4);
+  x.addEdge(2, 2, 5);
+  x.update();
+  return x;
+}
+
+
+// Read options mapping attributes back to names and weights.
+const OPTIONS = {
+  vertexValue: (a: Attributes) => a.value as string,
+  edgeValue:   (a: Attributes) => a.weight as number,
+  vertexDefault: "",
+  edgeDefault:   1,
+};
+
+
+// Check that two graphs have the same vertices, edges, and values.
+function expectSame<V, E>(y: ReadonlyGraph<V, E>, x: ReadonlyGraph<V, E>): void {
+  expect(y.isDirected()).toBe(x.isDirected());
+  expect(y.order()).toBe(x.order());
+  expect(y.size()).toBe(x.size());
+  expect(y.vertices()).toEqual(x.vertices());
+  x.forEachVertex(u => expect(y.edges(u)).toEqual(x.edges(u)));
+}
+
+
+
+
+describe("GraphML", () => {
+  test("round-trips directed and undirected graphs", () => {
+    var x = directed(), y = undirected();
+    expectSame(readGraphml(writeGraphml(x), OPTIONS), x);
+    expectSame(readGraphml(writeGraphml(y), OPTIONS), y);
+  });
+
+  test("escapes vertex data", () => {
+    var text = writeGraphml(directed());
+    expect(text).toContain("b &amp; c");
+    expect(text).toContain("&lt;d&gt;");
+    expect(text).not.toContain("<d>");
+  });
+
+  test("reads typed attributes, with their defaults", () => {
+    var x = readGraphml(`<?xml version="1.0"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="d0" for="node" attr.name="color" attr.type="string"><default>red</default></key>
+  <key id="d1" for="edge" attr.name="weight" attr.type="double"><default>1.5</default></key>
+  <key id="d2" for="edge" attr.name="bold" attr.type="boolean"/>
+  <graph id="G" edgedefault="undirected">
+    <node id="x"><data key="d0">blue</data></node>
+    <node id="y"/>
+    <edge source="x" target="y"><data key="d2">true</data></edge>
+    <edge source="y" target="z"><data key="d1">2</data></edge>
+  </graph>
+</graphml>`);
+    expect(x.isDirected()).toBe(false);
+    expect(x.order()).toBe(3);
+    expect(x.size()).toBe(2);
+    expect(x.vertexValue(0)).toEqual({color: "blue"});
+    expect(x.vertexValue(1)).toEqual({color: "red"});
+    expect(x.vertexValue(2)).toEqual({color: "red"});
+    expect(x.edgeValue(0, 1)).toEqual({weight: 1.5, bold: true});
+    expect(x.edgeValue(1, 2)).toEqual({weight: 2});
+    expect(x.vertexValue(-1)).toEqual({color: "red"});
+    expect(x.edgeValue(-1, -1)).toEqual({weight: 1.5});
+  });
+
+  test("uses vertexDefault and edgeDefault, if given", () => {
+    var text = writeGraphml(directed());
+    var x = readGraphml(text, OPTIONS);
+    expect(x.vertexValue(-1)).toBe("");
+    expect(x.edgeValue(-1, -1)).toBe(1);
+    var y = readGraphml(text, Object.assign({}, OPTIONS, {vertexDefault: "?", edgeDefault: 0}));
+    expect(y.vertexValue(-1)).toBe("?");
+    expect(y.edgeValue(-1, -1)).toBe(0);
+    expect(y.vertexValue(1)).toBe("b & c");
+  });
+
+  test("rejects malformed input", () => {
+    expect(() => readGraphml("<graphml><graph><node id=\"0\"></graph></graphml>")).toThrow("Unexpected XML closing tag: graph");
+    expect(() => readGraphml("<graphml><graph>")).toThrow("Unclosed XML tag: graph");
+    expect(() => readGraphml("<graphml><key id=\"d0\"/></graphml>")).toThrow("Missing GraphML graph element");
+    expect(() => readGraphml("")).toThrow("Missing XML root element");
+  });
+});
+
+
+
+
+describe("GEXF", () => {
+  test("round-trips directed and undirected graphs", () => {
+    var x = directed(), y = undirected();
+    expectSame(readGexf(writeGexf(x), OPTIONS), x);
+    expectSame(readGexf(writeGexf(y), OPTIONS), y);
+  });
+
+  test("writes label and weight as attributes of elements", () => {
+    var x = new DiGraph<Attributes, number>({}, 1);
+    x.addVertex(0, {label: "a & b", size: 3});
+    x.addVertex(1, {label: "c"});
+    x.addEdge(0, 1, 2.5);
+    x.update();
+    var text = writeGexf(x);
+    expect(text).toContain(`<node id="0" label="a &amp; b">`);
+    expect(text).toContain(`weight="2.5"`);
+    var y = readGexf(text, {edgeValue: a => a.weight as number});
+    expect(y.vertexValue(0)).toEqual({label: "a & b", size: 3});
+    expect(y.vertexValue(1)).toEqual({label: "c"});
+    expect(y.edgeValue(0, 1)).toBe(2.5);
+  });
+
+  test("reads typed attributes, with their defaults", () => {
+    var x = readGexf(`<?xml version="1.0"?>
+<gexf xmlns="http://gexf.net/1.3" version="1.3">
+  <graph defaultedgetype="directed">
+    <attributes class="node">
+      <attribute id="0" title="rank" type="integer"><default>0</default></attribute>
+    </attributes>
+    <nodes>
+      <node id="p" label="P"><attvalues><attvalue for="0" value="3"/></attvalues></node>
+      <node id="q"/>
+    </nodes>
+    <edges>
+      <edge id="0" source="p" target="q" weight="2"/>
+    </edges>
+  </graph>
+</gexf>`);
+    expect(x.isDirected()).toBe(true);
+    expect(x.vertexValue(0)).toEqual({label: "P", rank: 3});
+    expect(x.vertexValue(1)).toEqual({rank: 0});
+    expect(x.edgeValue(0, 1)).toEqual({weight: 2});
+    expect(x.vertexValue(-1)).toEqual({rank: 0});
+  });
+
+  test("uses vertexDefault and edgeDefault, if given", () => {
+    var y = readGexf(writeGexf(undirected()), Object.assign({}, OPTIONS, {vertexDefault: "?", edgeDefault: 0}));
+    expect(y.vertexValue(-1)).toBe("?");
+    expect(y.edgeValue(-1, -1)).toBe(0);
+    expect(y.edgeValue(1, 2)).toBe(3.5);
+  });
+
+  test("rejects malformed input", () => {
+    expect(() => readGexf("<gexf><graph><nodes></graph></gexf>")).toThrow("Unexpected XML closing tag: graph");
+    expect(() => readGexf("<gexf><!-- note </gexf>")).toThrow("Unterminated XML");
+    expect(() => readGexf("<gexf version=\"1.3\"></gexf>")).toThrow("Missing GEXF graph element");
+  });
+});